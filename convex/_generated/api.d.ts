@@ -17,15 +17,21 @@ import type {
 
 import type * as analytics from "../analytics.js";
 import type * as auth from "../auth.js";
+import type * as autoDraftRuns from "../autoDraftRuns.js";
 import type * as autoDrafts from "../autoDrafts.js";
+import type * as draftCollab from "../draftCollab.js";
+import type * as draftRevisions from "../draftRevisions.js";
+import type * as draftTemplates from "../draftTemplates.js";
 import type * as drafts from "../drafts.js";
 import type * as entries from "../entries.js";
 import type * as ghostWriter from "../ghostWriter.js";
 import type * as http from "../http.js";
 import type * as orgAuth from "../orgAuth.js";
 import type * as organizations from "../organizations.js";
+import type * as relevance from "../relevance.js";
 import type * as sourceRuns from "../sourceRuns.js";
 import type * as sources from "../sources.js";
+import type * as tags from "../tags.js";
 import type * as users from "../users.js";
 
 // Note: the cron module (`crons.ts`), the dedupe helper (`dedupe.ts`),
@@ -41,15 +47,21 @@ import type * as users from "../users.js";
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
   auth: typeof auth;
+  autoDraftRuns: typeof autoDraftRuns;
   autoDrafts: typeof autoDrafts;
+  draftCollab: typeof draftCollab;
+  draftRevisions: typeof draftRevisions;
+  draftTemplates: typeof draftTemplates;
   drafts: typeof drafts;
   entries: typeof entries;
   ghostWriter: typeof ghostWriter;
   http: typeof http;
   orgAuth: typeof orgAuth;
   organizations: typeof organizations;
+  relevance: typeof relevance;
   sourceRuns: typeof sourceRuns;
   sources: typeof sources;
+  tags: typeof tags;
   users: typeof users;
 }>;
 
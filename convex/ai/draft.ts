@@ -2,59 +2,129 @@ import { type FunctionReference, makeFunctionReference } from "convex/server";
 import { ConvexError, v } from "convex/values";
 import type { Doc, Id } from "../_generated/dataModel";
 import {
+	type ActionCtx,
+	type QueryCtx,
 	action,
+	internalAction,
 	internalMutation,
 	internalQuery,
 } from "../_generated/server";
-import { DRAFT_MODEL, getAnthropicClient } from "../lib/anthropic";
+import { finishRunForDraft } from "../autoDraftRuns";
+import { setDraftBody } from "../draftCollab";
+import { recordRevision } from "../draftRevisions";
+import { requireTemplate } from "../draftTemplates";
+import {
+	DRAFT_MODEL,
+	getAnthropicClient,
+	isAnthropicConfigured,
+	isRetryableError,
+} from "../lib/anthropic";
+import {
+	type DraftPromptInput,
+	GENERATION_ERROR_MARKER,
+	type GenerationUsage,
+	type PromptEntry,
+	buildDraftPrompt,
+	generationUsageValidator,
+	withGenerationError,
+} from "../lib/draftPrompt";
+import {
+	type EntrySection,
+	type SectionGroup,
+	assignToSections,
+	entrySectionValidator,
+} from "../lib/templates";
 import { requireOrgMember } from "../orgAuth";
+import { tagsForEntry } from "../tags";
 
 const MAX_CONTENT_PER_ENTRY = 4000;
+const MAX_DRAFT_TOKENS = 4000;
+// How often streamed text is written to the draft row while generating.
+const FLUSH_INTERVAL_MS = 750;
+// Requests made for a draft that fails before any text arrives.
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+// A generating draft with no writes for this long has lost its action
+// (actions are stopped after 10 minutes).
+const GENERATION_STALL_MS = 15 * 60 * 1000;
 
-interface DraftPrepData {
-	entries: Array<{
-		_id: Id<"entries">;
-		title: string;
-		snippet?: string;
-		content?: string;
-		canonicalUrl: string;
-		primarySourceName: string;
-	}>;
-	profile: Doc<"ghostWriterProfiles"> | null;
+/** A draft's stories, voice and template, ready to be written. */
+export interface DraftPrep extends DraftPromptInput {
+	template: {
+		_id: Id<"draftTemplates">;
+		name: string;
+		groups: SectionGroup<PromptEntry>[];
+	} | null;
+}
+
+interface ManualDraftPrep extends DraftPrep {
 	createdByUserId: Id<"users">;
 }
 
+/** What the prompts need to know about one story. */
+export async function promptEntry(
+	ctx: QueryCtx,
+	e: Doc<"entries">,
+): Promise<PromptEntry> {
+	const source = await ctx.db.get(e.primarySourceId);
+	return {
+		_id: e._id,
+		title: e.title,
+		snippet: e.snippet,
+		// The cached summary stands in for the article when there is one.
+		content: e.summary ? undefined : e.content?.slice(0, MAX_CONTENT_PER_ENTRY),
+		canonicalUrl: e.canonicalUrl,
+		primarySourceName: source?.name ?? "Unknown source",
+		author: e.author,
+		siteName: e.siteName,
+		summary: e.summary,
+		tags: await tagsForEntry(ctx, e._id),
+	};
+}
+
 export const _prepDraft = internalQuery({
 	args: {
 		orgId: v.id("organizations"),
 		entryIds: v.array(v.id("entries")),
+		templateId: v.optional(v.id("draftTemplates")),
+		sections: v.optional(v.array(entrySectionValidator)),
 	},
-	handler: async (ctx, { orgId, entryIds }): Promise<DraftPrepData> => {
+	handler: async (
+		ctx,
+		{ orgId, entryIds, templateId, sections },
+	): Promise<ManualDraftPrep> => {
 		const member = await requireOrgMember(ctx, orgId);
 		if (entryIds.length === 0) {
 			throw new ConvexError("Select at least one story to include.");
 		}
-		const entries: DraftPrepData["entries"] = [];
+		const entries: PromptEntry[] = [];
 		for (const id of entryIds) {
 			const e = await ctx.db.get(id);
 			if (!e || e.orgId !== orgId) {
 				throw new ConvexError("One or more entries are not in this organization.");
 			}
-			const source = await ctx.db.get(e.primarySourceId);
-			entries.push({
-				_id: e._id,
-				title: e.title,
-				snippet: e.snippet,
-				content: e.content?.slice(0, MAX_CONTENT_PER_ENTRY),
-				canonicalUrl: e.canonicalUrl,
-				primarySourceName: source?.name ?? "Unknown source",
-			});
+			entries.push(await promptEntry(ctx, e));
 		}
 		const profile = await ctx.db
 			.query("ghostWriterProfiles")
 			.withIndex("by_org", (q) => q.eq("orgId", orgId))
 			.unique();
-		return { entries, profile, createdByUserId: member.userId };
+		let template: DraftPrep["template"] = null;
+		if (templateId) {
+			const row = await requireTemplate(ctx, orgId, templateId);
+			const { groups, unassigned } = assignToSections(
+				row.sections,
+				entries,
+				new Map((sections ?? []).map((s) => [s.entryId, s.section])),
+			);
+			if (unassigned.length > 0) {
+				throw new ConvexError(
+					`${unassigned.length === 1 ? "One story doesn't" : `${unassigned.length} stories don't`} fit in "${row.name}". Move it to a section with room or pick fewer stories.`,
+				);
+			}
+			template = { _id: row._id, name: row.name, groups };
+		}
+		return { entries, profile, createdByUserId: member.userId, template };
 	},
 });
 
@@ -64,6 +134,10 @@ export const _createDraftRow = internalMutation({
 		title: v.string(),
 		createdByUserId: v.id("users"),
 		entryIds: v.array(v.id("entries")),
+		templateId: v.optional(v.id("draftTemplates")),
+		sections: v.optional(v.array(entrySectionValidator)),
+		// The auto-draft run this draft is written for.
+		runId: v.optional(v.id("autoDraftRuns")),
 	},
 	handler: async (ctx, args): Promise<Id<"drafts">> => {
 		const now = Date.now();
@@ -75,12 +149,23 @@ export const _createDraftRow = internalMutation({
 			createdAt: now,
 			updatedAt: now,
 			createdByUserId: args.createdByUserId,
+			templateId: args.templateId,
 		});
+		const sectionOf = new Map(
+			(args.sections ?? []).map((s) => [s.entryId, s.section]),
+		);
 		for (const entryId of args.entryIds) {
 			await ctx.db.insert("draftEntries", {
 				draftId,
 				entryId,
 				orgId: args.orgId,
+				section: sectionOf.get(entryId),
+			});
+		}
+		if (args.runId) {
+			await ctx.db.patch(args.runId, {
+				draftId,
+				entriesUsed: args.entryIds.length,
 			});
 		}
 		return draftId;
@@ -91,64 +176,172 @@ export const _completeDraft = internalMutation({
 	args: {
 		draftId: v.id("drafts"),
 		body: v.string(),
+		usage: v.optional(generationUsageValidator),
+		// Set when the draft could not be written in full.
+		error: v.optional(v.string()),
 	},
-	handler: async (ctx, { draftId, body }) => {
+	handler: async (ctx, { draftId, body, usage, error }) => {
 		const existing = await ctx.db.get(draftId);
-		if (!existing) return;
-		await ctx.db.patch(draftId, {
-			body,
-			status: "ready",
-			updatedAt: Date.now(),
-		});
+		if (!existing) {
+			await finishRunForDraft(ctx, draftId, {
+				status: "cancelled",
+				reason: "The draft was deleted while it was being written",
+				usage,
+			});
+			return;
+		}
+		if (usage) await ctx.db.patch(draftId, { generation: usage });
+		// Cancelled drafts keep the partial body they were stopped with.
+		if (existing.status !== "generating") {
+			await finishRunForDraft(ctx, draftId, {
+				status: "cancelled",
+				reason: "Stopped from the editor",
+				usage,
+			});
+			return;
+		}
+		await finishRunForDraft(
+			ctx,
+			draftId,
+			error === undefined
+				? { status: "succeeded", usage }
+				: { status: "failed", reason: error, usage },
+		);
+		await setDraftBody(ctx, existing, body);
+		await ctx.db.patch(draftId, { status: "ready", updatedAt: Date.now() });
+		await recordRevision(ctx, { ...existing, body }, "generated");
+	},
+});
+
+/**
+ * Releases drafts whose generating action died without completing them, so
+ * the text written so far can be edited.
+ */
+export const reapStalledDrafts = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const now = Date.now();
+		const stalled = await ctx.db
+			.query("drafts")
+			.withIndex("by_status_updatedAt", (q) =>
+				q.eq("status", "generating").lt("updatedAt", now - GENERATION_STALL_MS),
+			)
+			.take(100);
+		for (const draft of stalled) {
+			const error = "Generation stopped before the draft was finished.";
+			const body = withGenerationError(draft.body, error);
+			await finishRunForDraft(ctx, draft._id, {
+				status: "failed",
+				reason: error,
+			});
+			await setDraftBody(ctx, draft, body);
+			await ctx.db.patch(draft._id, { status: "ready", updatedAt: now });
+			await recordRevision(ctx, { ...draft, body }, "generated");
+		}
+	},
+});
+
+/**
+ * Writes the text streamed so far. Returns false once the draft has been
+ * cancelled or deleted, telling the stream to stop.
+ */
+export const _flushDraftBody = internalMutation({
+	args: {
+		draftId: v.id("drafts"),
+		body: v.string(),
+	},
+	handler: async (ctx, { draftId, body }): Promise<boolean> => {
+		const existing = await ctx.db.get(draftId);
+		if (!existing || existing.status !== "generating") return false;
+		await setDraftBody(ctx, existing, body);
+		await ctx.db.patch(draftId, { updatedAt: Date.now() });
+		return true;
 	},
 });
 
-function buildPrompt(data: DraftPrepData): {
-	system: string;
-	user: string;
-} {
-	const profile = data.profile;
-	const voiceBlock = profile
-		? [
-				"# Tone of voice",
-				profile.summary,
-				profile.voiceAttributes.length > 0
-					? `Voice attributes: ${profile.voiceAttributes.join(", ")}`
-					: "",
-				profile.doExamples.length > 0
-					? `Do: ${profile.doExamples.map((d) => `- ${d}`).join("\n")}`
-					: "",
-				profile.dontExamples.length > 0
-					? `Don't: ${profile.dontExamples.map((d) => `- ${d}`).join("\n")}`
-					: "",
-			]
-				.filter(Boolean)
-				.join("\n\n")
-		: "# Tone of voice\nNo tone-of-voice profile is configured. Use a friendly, clear, professional newsletter voice — direct, lightly opinionated, never gushing.";
-
-	const stories = data.entries
-		.map((e, i) => {
-			const parts = [
-				`## Story ${i + 1}: ${e.title}`,
-				`Source: ${e.primarySourceName}`,
-				`URL: ${e.canonicalUrl}`,
-			];
-			if (e.snippet) parts.push(`Snippet: ${e.snippet}`);
-			if (e.content) parts.push(`Content:\n${e.content}`);
-			return parts.join("\n");
-		})
-		.join("\n\n---\n\n");
-
-	const system =
-		"You are a newsletter ghostwriter. Write the draft in markdown, ready to drop into an editor. " +
-		"Include a strong opening hook, cover each provided story with a clear paragraph or short section, " +
-		"add a brief closing. Link to the original story URLs inline. Do not invent facts beyond the supplied material.";
-
-	const user =
-		`${voiceBlock}\n\n# Stories to cover (in order)\n\n${stories}\n\n` +
-		"Write the full newsletter draft now. Output markdown only — no preamble.";
-
-	return { system, user };
+const createRef = makeFunctionReference<"mutation">(
+	"ai/draft:_createDraftRow",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{
+		orgId: Id<"organizations">;
+		title: string;
+		createdByUserId: Id<"users">;
+		entryIds: Id<"entries">[];
+		templateId?: Id<"draftTemplates">;
+		sections?: EntrySection[];
+		runId?: Id<"autoDraftRuns">;
+	},
+	Id<"drafts">
+>;
+
+const completeRef = makeFunctionReference<"mutation">(
+	"ai/draft:_completeDraft",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{
+		draftId: Id<"drafts">;
+		body: string;
+		usage?: GenerationUsage;
+		error?: string;
+	},
+	void
+>;
+
+const streamRef = makeFunctionReference<"action">(
+	"ai/draft:streamDraft",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ draftId: Id<"drafts">; system: string; user: string },
+	void
+>;
+
+/**
+ * Creates a draft and starts writing it in the background. The inbox and the
+ * auto-draft schedule both start their drafts here.
+ */
+export async function startDraft(
+	ctx: ActionCtx,
+	args: {
+		orgId: Id<"organizations">;
+		title: string;
+		createdByUserId: Id<"users">;
+		prep: DraftPrep;
+		runId?: Id<"autoDraftRuns">;
+	},
+): Promise<Id<"drafts">> {
+	const { prep } = args;
+	const draftId = await ctx.runMutation(createRef, {
+		orgId: args.orgId,
+		title: args.title,
+		createdByUserId: args.createdByUserId,
+		entryIds: prep.entries.map((e) => e._id),
+		templateId: prep.template?._id,
+		sections: prep.template?.groups.flatMap((g) =>
+			g.entries.map((e) => ({ entryId: e._id, section: g.section.name })),
+		),
+		runId: args.runId,
+	});
+
+	if (!isAnthropicConfigured()) {
+		const error =
+			"ANTHROPIC_API_KEY is not configured on the Convex deployment.";
+		await ctx.runMutation(completeRef, {
+			draftId,
+			body: `${GENERATION_ERROR_MARKER} ${error}\n\nSelected ${prep.entries.length} stories — review and edit manually.`,
+			error,
+		});
+		return draftId;
+	}
+
+	// Return right away so the editor can open and show the text as it
+	// streams in.
+	const { system, user } = buildDraftPrompt(prep);
+	await ctx.scheduler.runAfter(0, streamRef, { draftId, system, user });
+	return draftId;
 }
 
 export const generateDraft = action({
@@ -156,20 +349,36 @@ export const generateDraft = action({
 		orgId: v.id("organizations"),
 		entryIds: v.array(v.id("entries")),
 		title: v.optional(v.string()),
+		// Organise the draft into one section per entry tag. Ignored when a
+		// template is given.
+		groupByTag: v.optional(v.boolean()),
+		templateId: v.optional(v.id("draftTemplates")),
+		// Section picked for each entry; the rest are placed automatically.
+		sections: v.optional(v.array(entrySectionValidator)),
 	},
 	handler: async (
 		ctx,
-		{ orgId, entryIds, title },
+		{ orgId, entryIds, title, groupByTag, templateId, sections },
 	): Promise<{ draftId: Id<"drafts"> }> => {
 		const prepRef = makeFunctionReference<"query">(
 			"ai/draft:_prepDraft",
 		) as unknown as FunctionReference<
 			"query",
 			"internal",
-			{ orgId: Id<"organizations">; entryIds: Id<"entries">[] },
-			DraftPrepData
+			{
+				orgId: Id<"organizations">;
+				entryIds: Id<"entries">[];
+				templateId?: Id<"draftTemplates">;
+				sections?: EntrySection[];
+			},
+			ManualDraftPrep
 		>;
-		const prep = await ctx.runQuery(prepRef, { orgId, entryIds });
+		const prep = await ctx.runQuery(prepRef, {
+			orgId,
+			entryIds,
+			templateId,
+			sections,
+		});
 
 		const draftTitle =
 			title?.trim() ||
@@ -179,62 +388,98 @@ export const generateDraft = action({
 				day: "numeric",
 			})}`;
 
-		const createRef = makeFunctionReference<"mutation">(
-			"ai/draft:_createDraftRow",
-		) as unknown as FunctionReference<
-			"mutation",
-			"internal",
-			{
-				orgId: Id<"organizations">;
-				title: string;
-				createdByUserId: Id<"users">;
-				entryIds: Id<"entries">[];
-			},
-			Id<"drafts">
-		>;
-		const draftId = await ctx.runMutation(createRef, {
+		const draftId = await startDraft(ctx, {
 			orgId,
 			title: draftTitle,
 			createdByUserId: prep.createdByUserId,
-			entryIds,
+			prep: { ...prep, groupByTag },
 		});
+		return { draftId };
+	},
+});
 
-		const completeRef = makeFunctionReference<"mutation">(
-			"ai/draft:_completeDraft",
+/**
+ * Streams a draft into its row. A request that fails before any text arrives
+ * is retried when the error is transient; later failures are noted at the end
+ * of the text written so far.
+ */
+export const streamDraft = internalAction({
+	args: {
+		draftId: v.id("drafts"),
+		system: v.string(),
+		user: v.string(),
+	},
+	handler: async (ctx, { draftId, system, user }): Promise<void> => {
+		const flushRef = makeFunctionReference<"mutation">(
+			"ai/draft:_flushDraftBody",
 		) as unknown as FunctionReference<
 			"mutation",
 			"internal",
 			{ draftId: Id<"drafts">; body: string },
-			void
+			boolean
 		>;
 
-		let body: string;
-		try {
-			if (!process.env.ANTHROPIC_API_KEY) {
-				body =
-					"_Draft generation skipped: `ANTHROPIC_API_KEY` is not configured on the Convex deployment._\n\n" +
-					`Selected ${prep.entries.length} stories.`;
-			} else {
-				const { system, user } = buildPrompt(prep);
-				const anthropic = getAnthropicClient();
-				const res = await anthropic.messages.create({
-					model: DRAFT_MODEL,
-					max_tokens: 4000,
-					system,
-					messages: [{ role: "user", content: user }],
-				});
-				const textPart = res.content.find((c) => c.type === "text");
-				body =
-					textPart && textPart.type === "text"
-						? textPart.text
-						: "_Claude returned no text content._";
+		const usage: GenerationUsage = {
+			model: DRAFT_MODEL,
+			inputTokens: 0,
+			outputTokens: 0,
+			attempts: 0,
+		};
+		let body = "";
+		let error: string | undefined;
+		let flushedAt = Date.now();
+		let cancelled = false;
+		while (!cancelled) {
+			usage.attempts++;
+			// Reported as a running total for the message.
+			let outputTokens = 0;
+			const stream = getAnthropicClient().messages.stream({
+				model: DRAFT_MODEL,
+				max_tokens: MAX_DRAFT_TOKENS,
+				system,
+				messages: [{ role: "user", content: user }],
+			});
+			try {
+				for await (const event of stream) {
+					if (event.type === "message_start") {
+						usage.inputTokens += event.message.usage.input_tokens;
+						outputTokens = event.message.usage.output_tokens;
+					} else if (event.type === "message_delta") {
+						outputTokens = event.usage.output_tokens;
+					} else if (
+						event.type === "content_block_delta" &&
+						event.delta.type === "text_delta"
+					) {
+						body += event.delta.text;
+						if (Date.now() - flushedAt < FLUSH_INTERVAL_MS) continue;
+						flushedAt = Date.now();
+						if (!(await ctx.runMutation(flushRef, { draftId, body }))) {
+							stream.abort();
+							cancelled = true;
+							break;
+						}
+					}
+				}
+				if (!body && !cancelled) {
+					error = "Claude returned no text content.";
+					body = withGenerationError("", error);
+				}
+				break;
+			} catch (err) {
+				// Starting over would throw away text the editor already shows.
+				if (!body && usage.attempts < MAX_ATTEMPTS && isRetryableError(err)) {
+					await new Promise((resolve) =>
+						setTimeout(resolve, RETRY_DELAY_MS * usage.attempts),
+					);
+					continue;
+				}
+				error = err instanceof Error ? err.message : String(err);
+				body = withGenerationError(body, error);
+				break;
+			} finally {
+				usage.outputTokens += outputTokens;
 			}
-		} catch (err) {
-			const message = err instanceof Error ? err.message : String(err);
-			body = `_Draft generation failed: ${message}_`;
 		}
-
-		await ctx.runMutation(completeRef, { draftId, body });
-		return { draftId };
+		await ctx.runMutation(completeRef, { draftId, body, usage, error });
 	},
 });
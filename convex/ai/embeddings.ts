@@ -38,6 +38,24 @@ export const _patchEmbedding = internalMutation({
 		const existing = await ctx.db.get(entryId);
 		if (!existing) return;
 		await ctx.db.patch(entryId, { embedding });
+		const clusterRef = makeFunctionReference<"action">(
+			"clusters:clusterEntry",
+		) as unknown as FunctionReference<
+			"action",
+			"internal",
+			{ entryId: Id<"entries"> },
+			void
+		>;
+		await ctx.scheduler.runAfter(0, clusterRef, { entryId });
+		const scoreRef = makeFunctionReference<"action">(
+			"relevance:scoreEntry",
+		) as unknown as FunctionReference<
+			"action",
+			"internal",
+			{ entryId: Id<"entries"> },
+			void
+		>;
+		await ctx.scheduler.runAfter(0, scoreRef, { entryId });
 	},
 });
 
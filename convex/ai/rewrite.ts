@@ -0,0 +1,192 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import {
+	type MutationCtx,
+	type QueryCtx,
+	action,
+	internalQuery,
+	mutation,
+} from "../_generated/server";
+import { setDraftBody } from "../draftCollab";
+import { recordRevision } from "../draftRevisions";
+import {
+	DRAFT_MODEL,
+	getAnthropicClient,
+	isAnthropicConfigured,
+} from "../lib/anthropic";
+import {
+	type PromptEntry,
+	renderStory,
+	toneOfVoiceBlock,
+} from "../lib/draftPrompt";
+import {
+	ACTIONS_WITH_SOURCES,
+	type RewriteSuggestion,
+	buildRewritePrompt,
+	locateSelection,
+	parseRewriteReply,
+	rewriteActionValidator,
+} from "../lib/rewrite";
+import { requireOrgMember } from "../orgAuth";
+import { promptEntry } from "./draft";
+
+const MAX_SELECTION_CHARS = 8000;
+// Surrounding text sent with the selection so the rewrite fits in.
+const CONTEXT_CHARS = 1500;
+
+async function requireEditableDraft(
+	ctx: QueryCtx | MutationCtx,
+	orgId: Id<"organizations">,
+	draftId: Id<"drafts">,
+) {
+	const member = await requireOrgMember(ctx, orgId);
+	const draft = await ctx.db.get(draftId);
+	if (!draft || draft.orgId !== orgId) {
+		throw new ConvexError("Draft not found");
+	}
+	if (draft.status === "finalized") {
+		throw new ConvexError(
+			"Draft is finalized. Reopen it before making changes.",
+		);
+	}
+	if (draft.status === "generating") {
+		throw new ConvexError("Draft is still generating");
+	}
+	return { member, draft };
+}
+
+interface RewritePrep {
+	voice: string;
+	entries: PromptEntry[];
+}
+
+export const _prepRewrite = internalQuery({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+	},
+	handler: async (ctx, { orgId, draftId }): Promise<RewritePrep> => {
+		await requireEditableDraft(ctx, orgId, draftId);
+		const links = await ctx.db
+			.query("draftEntries")
+			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+			.collect();
+		const entries: PromptEntry[] = [];
+		for (const link of links) {
+			const e = await ctx.db.get(link.entryId);
+			if (e && e.orgId === orgId) entries.push(await promptEntry(ctx, e));
+		}
+		const profile = await ctx.db
+			.query("ghostWriterProfiles")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.unique();
+		return { voice: toneOfVoiceBlock(profile), entries };
+	},
+});
+
+/**
+ * Suggests a replacement for the selected part of a draft. Nothing is
+ * written; the editor shows the suggestion and `applyRewrite` accepts it.
+ */
+export const suggestRewrite = action({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		action: rewriteActionValidator,
+		selection: v.string(),
+		before: v.string(),
+		after: v.string(),
+	},
+	handler: async (ctx, args): Promise<RewriteSuggestion> => {
+		const prepRef = makeFunctionReference<"query">(
+			"ai/rewrite:_prepRewrite",
+		) as unknown as FunctionReference<
+			"query",
+			"internal",
+			{ orgId: Id<"organizations">; draftId: Id<"drafts"> },
+			RewritePrep
+		>;
+		const prep = await ctx.runQuery(prepRef, {
+			orgId: args.orgId,
+			draftId: args.draftId,
+		});
+		if (!args.selection.trim()) {
+			throw new ConvexError("Select some text first.");
+		}
+		if (args.selection.length > MAX_SELECTION_CHARS) {
+			throw new ConvexError(
+				`Select at most ${MAX_SELECTION_CHARS.toLocaleString()} characters.`,
+			);
+		}
+		if (!isAnthropicConfigured()) {
+			throw new ConvexError("ANTHROPIC_API_KEY is not configured");
+		}
+		if (ACTIONS_WITH_SOURCES.has(args.action) && prep.entries.length === 0) {
+			throw new ConvexError(
+				"This draft has no source stories to check against.",
+			);
+		}
+
+		const { system, user } = buildRewritePrompt({
+			action: args.action,
+			selection: args.selection,
+			before: args.before.slice(-CONTEXT_CHARS),
+			after: args.after.slice(0, CONTEXT_CHARS),
+			voice: prep.voice,
+			sources: ACTIONS_WITH_SOURCES.has(args.action)
+				? prep.entries.map((e, i) => renderStory(e, i + 1)).join("\n\n---\n\n")
+				: undefined,
+		});
+		const res = await getAnthropicClient().messages.create({
+			model: DRAFT_MODEL,
+			max_tokens: 3000,
+			system,
+			messages: [{ role: "user", content: user }],
+		});
+		const textPart = res.content.find((c) => c.type === "text");
+		const suggestion =
+			textPart && textPart.type === "text"
+				? parseRewriteReply(textPart.text)
+				: null;
+		if (!suggestion) {
+			throw new ConvexError("Couldn't read the suggestion. Try again.");
+		}
+		return suggestion;
+	},
+});
+
+/**
+ * Swaps the selected text for an accepted suggestion. The text is looked up
+ * again in case the draft moved on while the suggestion was written.
+ */
+export const applyRewrite = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		start: v.number(),
+		original: v.string(),
+		replacement: v.string(),
+	},
+	handler: async (
+		ctx,
+		{ orgId, draftId, start, original, replacement },
+	): Promise<void> => {
+		const { member, draft } = await requireEditableDraft(ctx, orgId, draftId);
+		const at = locateSelection(draft.body, original, start);
+		if (at < 0) {
+			throw new ConvexError(
+				"The selected text changed while the suggestion was being written.",
+			);
+		}
+		const body =
+			draft.body.slice(0, at) +
+			replacement +
+			draft.body.slice(at + original.length);
+		// Snapshot the text as it was so the rewrite can be undone from history.
+		await recordRevision(ctx, draft, "autosave", member.userId);
+		await setDraftBody(ctx, draft, body, member.userId);
+		await ctx.db.patch(draftId, { updatedAt: Date.now() });
+		await recordRevision(ctx, { ...draft, body }, "ai_rewrite", member.userId);
+	},
+});
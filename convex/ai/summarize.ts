@@ -0,0 +1,128 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+	type ActionCtx,
+	action,
+	internalAction,
+	internalMutation,
+	internalQuery,
+} from "../_generated/server";
+import {
+	SUMMARY_MODEL,
+	getAnthropicClient,
+	isAnthropicConfigured,
+} from "../lib/anthropic";
+import {
+	type EntrySummary,
+	entrySummaryValidator,
+	parseSummary,
+} from "../lib/summary";
+import { requireOrgMember } from "../orgAuth";
+
+// Shorter articles go into draft prompts whole; a summary wouldn't save much.
+const MIN_SUMMARY_CHARS = 1000;
+const MAX_SUMMARY_INPUT_CHARS = 30000;
+
+export const _storeSummary = internalMutation({
+	args: {
+		entryId: v.id("entries"),
+		summary: entrySummaryValidator,
+	},
+	handler: async (ctx, { entryId, summary }) => {
+		const existing = await ctx.db.get(entryId);
+		if (!existing) return;
+		await ctx.db.patch(entryId, { summary });
+	},
+});
+
+export const _requireEntryMember = internalQuery({
+	args: { orgId: v.id("organizations"), entryId: v.id("entries") },
+	handler: async (ctx, { orgId, entryId }) => {
+		await requireOrgMember(ctx, orgId);
+		const entry = await ctx.db.get(entryId);
+		if (!entry || entry.orgId !== orgId) {
+			throw new ConvexError("Entry not found");
+		}
+	},
+});
+
+async function summarize(
+	ctx: ActionCtx,
+	entryId: Id<"entries">,
+	force: boolean,
+): Promise<EntrySummary | null> {
+	const getRef = makeFunctionReference<"query">(
+		"ai/embeddings:_getEntry",
+	) as unknown as FunctionReference<
+		"query",
+		"internal",
+		{ entryId: Id<"entries"> },
+		Doc<"entries"> | null
+	>;
+	const entry = await ctx.runQuery(getRef, { entryId });
+	if (!entry?.content || entry.content.length < MIN_SUMMARY_CHARS) return null;
+	if (entry.summary && !force) return entry.summary;
+
+	const lines = [`Title: ${entry.title}`];
+	if (entry.siteName) lines.push(`Publication: ${entry.siteName}`);
+	if (entry.author) lines.push(`Author: ${entry.author}`);
+	lines.push("", entry.content.slice(0, MAX_SUMMARY_INPUT_CHARS));
+	const res = await getAnthropicClient().messages.create({
+		model: SUMMARY_MODEL,
+		max_tokens: 1000,
+		system:
+			"You summarize news articles for a newsletter editor. Use only facts stated in the article. " +
+			'Reply with JSON only: {"tldr": "<one or two sentences>", "keyFacts": ["<fact>"], ' +
+			'"quotes": [{"text": "<verbatim quote>", "speaker": "<who said it>"}], ' +
+			'"numbers": [{"value": "<figure with unit>", "context": "<what it measures>"}]}. ' +
+			"Give at most 6 key facts, 3 quotes and 6 numbers; use empty arrays when there are none.",
+		messages: [{ role: "user", content: lines.join("\n") }],
+	});
+	const textPart = res.content.find((c) => c.type === "text");
+	const parsed =
+		textPart && textPart.type === "text" ? parseSummary(textPart.text) : null;
+	if (!parsed) return null;
+
+	const summary = { ...parsed, model: SUMMARY_MODEL, generatedAt: Date.now() };
+	const storeRef = makeFunctionReference<"mutation">(
+		"ai/summarize:_storeSummary",
+	) as unknown as FunctionReference<
+		"mutation",
+		"internal",
+		{ entryId: Id<"entries">; summary: EntrySummary },
+		void
+	>;
+	await ctx.runMutation(storeRef, { entryId, summary });
+	return summary;
+}
+
+// Scheduled for every new entry. Entries keep their summary for good, since
+// their content never changes after ingest.
+export const summarizeEntry = internalAction({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }): Promise<void> => {
+		if (!isAnthropicConfigured()) return;
+		await summarize(ctx, entryId, false);
+	},
+});
+
+/** Summarizes an entry on request, replacing any cached summary. */
+export const regenerateSummary = action({
+	args: { orgId: v.id("organizations"), entryId: v.id("entries") },
+	handler: async (ctx, { orgId, entryId }): Promise<EntrySummary | null> => {
+		const authRef = makeFunctionReference<"query">(
+			"ai/summarize:_requireEntryMember",
+		) as unknown as FunctionReference<
+			"query",
+			"internal",
+			{ orgId: Id<"organizations">; entryId: Id<"entries"> },
+			void
+		>;
+		await ctx.runQuery(authRef, { orgId, entryId });
+		if (!isAnthropicConfigured()) {
+			throw new ConvexError("ANTHROPIC_API_KEY is not configured");
+		}
+		return await summarize(ctx, entryId, true);
+	},
+});
@@ -0,0 +1,102 @@
+import { ConvexError, v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import type { GenerationUsage } from "./lib/draftPrompt";
+import { requireOrgMember } from "./orgAuth";
+
+export const listForOrg = query({
+	args: {
+		orgId: v.id("organizations"),
+		scheduleId: v.optional(v.id("autoDraftSchedules")),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, { orgId, scheduleId, limit }) => {
+		await requireOrgMember(ctx, orgId);
+		const take = Math.min(limit ?? 20, 100);
+		const rows = scheduleId
+			? await ctx.db
+					.query("autoDraftRuns")
+					.withIndex("by_schedule_startedAt", (q) =>
+						q.eq("scheduleId", scheduleId),
+					)
+					.order("desc")
+					.take(take)
+			: await ctx.db
+					.query("autoDraftRuns")
+					.withIndex("by_org_startedAt", (q) => q.eq("orgId", orgId))
+					.order("desc")
+					.take(take);
+		return await Promise.all(
+			rows
+				.filter((r) => r.orgId === orgId)
+				.map(async (r) => {
+					// The draft may have been deleted since.
+					const draft = r.draftId ? await ctx.db.get(r.draftId) : null;
+					return { ...r, draftTitle: draft?.title ?? null };
+				}),
+		);
+	},
+});
+
+export const recentFailures = query({
+	args: {
+		orgId: v.id("organizations"),
+		sinceMs: v.optional(v.number()),
+		includeAcknowledged: v.optional(v.boolean()),
+	},
+	handler: async (ctx, { orgId, sinceMs, includeAcknowledged }) => {
+		await requireOrgMember(ctx, orgId);
+		const since = Date.now() - (sinceMs ?? 24 * 60 * 60 * 1000);
+		const rows = await ctx.db
+			.query("autoDraftRuns")
+			.withIndex("by_org_status_startedAt", (q) =>
+				q.eq("orgId", orgId).eq("status", "failed").gte("startedAt", since),
+			)
+			.order("desc")
+			.take(50);
+		return rows.filter(
+			(r) => includeAcknowledged === true || r.acknowledged !== true,
+		);
+	},
+});
+
+export const acknowledgeFailure = mutation({
+	args: {
+		runId: v.id("autoDraftRuns"),
+	},
+	handler: async (ctx, { runId }) => {
+		const run = await ctx.db.get(runId);
+		if (!run) throw new ConvexError("Run not found");
+		await requireOrgMember(ctx, run.orgId, "admin");
+		await ctx.db.patch(runId, {
+			acknowledged: true,
+			acknowledgedAt: Date.now(),
+		});
+	},
+});
+
+/**
+ * Closes the run that started a draft once the draft is written, stopped or
+ * deleted. Drafts started from the inbox have no run and are left alone.
+ */
+export async function finishRunForDraft(
+	ctx: MutationCtx,
+	draftId: Id<"drafts">,
+	outcome: {
+		status: "succeeded" | "failed" | "cancelled";
+		reason?: string;
+		usage?: GenerationUsage;
+	},
+): Promise<void> {
+	const run = await ctx.db
+		.query("autoDraftRuns")
+		.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+		.unique();
+	if (!run || run.status !== "running") return;
+	await ctx.db.patch(run._id, {
+		status: outcome.status,
+		reason: outcome.reason,
+		finishedAt: Date.now(),
+		...(outcome.usage ? { generation: outcome.usage } : {}),
+	});
+}
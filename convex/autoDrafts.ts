@@ -2,93 +2,230 @@ import {
 	type FunctionReference,
 	makeFunctionReference,
 } from "convex/server";
-import { ConvexError, v } from "convex/values";
+import { ConvexError, type ObjectType, v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import {
+	type QueryCtx,
 	internalAction,
 	internalMutation,
 	internalQuery,
 	mutation,
 	query,
 } from "./_generated/server";
+import { type DraftPrep, promptEntry, startDraft } from "./ai/draft";
+import { requireTemplate } from "./draftTemplates";
+import { isValidTimeZone, nextCronRun, parseCron } from "./lib/cron";
+import type { PromptEntry } from "./lib/draftPrompt";
+import { assignToSections } from "./lib/templates";
 import { requireOrgMember } from "./orgAuth";
 
-const MAX_ENTRIES_PER_DRAFT = 20;
-const RECENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SCHEDULE_NAME = 60;
+const MAX_SCHEDULES_PER_ORG = 10;
+const MAX_RUNS_PER_SCHEDULE = 50;
+// A run still open after this long is marked failed.
+const RUN_TIMEOUT_MS = 30 * 60 * 1000;
+// Defaults for schedules saved without a lookback window or story limit.
+const DEFAULT_LOOKBACK_HOURS = 7 * 24;
+const DEFAULT_MAX_ENTRIES = 20;
+const MAX_LOOKBACK_HOURS = 30 * 24;
+const MAX_ENTRIES_PER_DRAFT = 40;
+// Stories read from the lookback window per run, matching or not, so narrow
+// filters on a busy org can't make a run read the whole window.
+const MAX_SCANNED_ENTRIES = 500;
+// Shown for the schedule saved before schedules had names.
+const DEFAULT_SCHEDULE_NAME = "Auto draft";
 
-function cronFromHourMinute(hour: number, minute: number): string {
+/** When a schedule next fires after `after`, or undefined if it never does. */
+function nextRunAt(
+	cron: string,
+	timezone: string | undefined,
+	after: number,
+): number | undefined {
+	return nextCronRun(parseCron(cron), after, timezone ?? "UTC") ?? undefined;
+}
+
+function normalizeScheduleName(name: string): string {
+	const trimmed = name.trim().replace(/\s+/g, " ");
+	if (!trimmed) throw new ConvexError("Schedule name is required");
+	if (trimmed.length > MAX_SCHEDULE_NAME) {
+		throw new ConvexError(
+			`Schedule names must be at most ${MAX_SCHEDULE_NAME} characters`,
+		);
+	}
+	return trimmed;
+}
+
+async function requireSchedule(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	scheduleId: Id<"autoDraftSchedules">,
+): Promise<Doc<"autoDraftSchedules">> {
+	const schedule = await ctx.db.get(scheduleId);
+	if (!schedule || schedule.orgId !== orgId) {
+		throw new ConvexError("Schedule not found");
+	}
+	return schedule;
+}
+
+async function assertNameFree(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	name: string,
+	exceptId?: Id<"autoDraftSchedules">,
+) {
+	const existing = await ctx.db
+		.query("autoDraftSchedules")
+		.withIndex("by_org", (q) => q.eq("orgId", orgId))
+		.collect();
 	if (
-		!Number.isInteger(hour) ||
-		hour < 0 ||
-		hour > 23 ||
-		!Number.isInteger(minute) ||
-		minute < 0 ||
-		minute > 59
+		existing.some(
+			(s) =>
+				s._id !== exceptId &&
+				(s.name ?? DEFAULT_SCHEDULE_NAME).toLowerCase() === name.toLowerCase(),
+		)
 	) {
-		throw new ConvexError("Invalid hour or minute");
+		throw new ConvexError(`A schedule named "${name}" already exists`);
 	}
-	return `${minute} ${hour} * * *`;
+	return existing.length;
 }
 
-function nextDailyRun(
-	now: number,
-	hour: number,
-	minute: number,
-): number {
-	const next = new Date(now);
-	next.setUTCSeconds(0, 0);
-	next.setUTCHours(hour, minute, 0, 0);
-	if (next.getTime() <= now) {
-		next.setUTCDate(next.getUTCDate() + 1);
+const scheduleArgs = {
+	orgId: v.id("organizations"),
+	name: v.string(),
+	enabled: v.boolean(),
+	cron: v.string(),
+	// IANA name the cron is evaluated in; UTC when unset.
+	timezone: v.optional(v.string()),
+	templateId: v.optional(v.id("draftTemplates")),
+	// Empty lists mean every source / any tag.
+	sourceIds: v.array(v.id("sources")),
+	tagIds: v.array(v.id("tags")),
+	lookbackHours: v.number(),
+	maxEntries: v.number(),
+};
+
+/** Checks a schedule's settings and returns the fields to store. */
+async function scheduleFields(
+	ctx: QueryCtx,
+	args: ObjectType<typeof scheduleArgs>,
+) {
+	const cron = args.cron.trim().replace(/\s+/g, " ");
+	parseCron(cron);
+	if (args.timezone !== undefined && !isValidTimeZone(args.timezone)) {
+		throw new ConvexError(`Unknown timezone "${args.timezone}"`);
+	}
+	if (
+		!Number.isInteger(args.lookbackHours) ||
+		args.lookbackHours < 1 ||
+		args.lookbackHours > MAX_LOOKBACK_HOURS
+	) {
+		throw new ConvexError(
+			`The lookback window must be between 1 and ${MAX_LOOKBACK_HOURS} hours`,
+		);
+	}
+	if (
+		!Number.isInteger(args.maxEntries) ||
+		args.maxEntries < 1 ||
+		args.maxEntries > MAX_ENTRIES_PER_DRAFT
+	) {
+		throw new ConvexError(
+			`A draft can take between 1 and ${MAX_ENTRIES_PER_DRAFT} stories`,
+		);
+	}
+	if (args.templateId) {
+		await requireTemplate(ctx, args.orgId, args.templateId);
 	}
-	return next.getTime();
+	const sourceIds = [...new Set(args.sourceIds)];
+	for (const sourceId of sourceIds) {
+		const source = await ctx.db.get(sourceId);
+		if (!source || source.orgId !== args.orgId) {
+			throw new ConvexError("Source not found");
+		}
+	}
+	const tagIds = [...new Set(args.tagIds)];
+	for (const tagId of tagIds) {
+		const tag = await ctx.db.get(tagId);
+		if (!tag || tag.orgId !== args.orgId) {
+			throw new ConvexError("Tag not found");
+		}
+	}
+	return {
+		name: normalizeScheduleName(args.name),
+		enabled: args.enabled,
+		cron,
+		timezone: args.timezone,
+		nextRunAt: nextRunAt(cron, args.timezone, Date.now()),
+		templateId: args.templateId,
+		sourceIds,
+		tagIds,
+		lookbackHours: args.lookbackHours,
+		maxEntries: args.maxEntries,
+	};
 }
 
-export const getSchedule = query({
+export const listSchedules = query({
 	args: { orgId: v.id("organizations") },
 	handler: async (ctx, { orgId }) => {
 		await requireOrgMember(ctx, orgId);
-		const row = await ctx.db
+		const rows = await ctx.db
 			.query("autoDraftSchedules")
 			.withIndex("by_org", (q) => q.eq("orgId", orgId))
-			.unique();
-		return row ?? null;
+			.collect();
+		return rows
+			.map((row) => ({
+				...row,
+				name: row.name ?? DEFAULT_SCHEDULE_NAME,
+				sourceIds: row.sourceIds ?? [],
+				tagIds: row.tagIds ?? [],
+				lookbackHours: row.lookbackHours ?? DEFAULT_LOOKBACK_HOURS,
+				maxEntries: row.maxEntries ?? DEFAULT_MAX_ENTRIES,
+			}))
+			.sort((a, b) => a.name.localeCompare(b.name));
 	},
 });
 
-export const upsertSchedule = mutation({
-	args: {
-		orgId: v.id("organizations"),
-		enabled: v.boolean(),
-		hour: v.number(),
-		minute: v.number(),
-		timezone: v.optional(v.string()),
-	},
-	handler: async (ctx, { orgId, enabled, hour, minute, timezone }) => {
-		const member = await requireOrgMember(ctx, orgId, "admin");
-		const cron = cronFromHourMinute(hour, minute);
-		const existing = await ctx.db
-			.query("autoDraftSchedules")
-			.withIndex("by_org", (q) => q.eq("orgId", orgId))
-			.unique();
-		if (existing) {
-			await ctx.db.patch(existing._id, {
-				enabled,
-				cron,
-				...(timezone !== undefined ? { timezone } : {}),
-			});
-			return existing._id;
+export const createSchedule = mutation({
+	args: scheduleArgs,
+	handler: async (ctx, args) => {
+		const member = await requireOrgMember(ctx, args.orgId, "admin");
+		const fields = await scheduleFields(ctx, args);
+		const count = await assertNameFree(ctx, args.orgId, fields.name);
+		if (count >= MAX_SCHEDULES_PER_ORG) {
+			throw new ConvexError(
+				`At most ${MAX_SCHEDULES_PER_ORG} schedules are allowed`,
+			);
 		}
 		return await ctx.db.insert("autoDraftSchedules", {
-			orgId,
-			enabled,
-			cron,
+			orgId: args.orgId,
 			createdByUserId: member.userId,
-			...(timezone ? { timezone } : {}),
+			...fields,
 		});
 	},
 });
 
+export const updateSchedule = mutation({
+	args: { ...scheduleArgs, scheduleId: v.id("autoDraftSchedules") },
+	handler: async (ctx, { scheduleId, ...args }) => {
+		await requireOrgMember(ctx, args.orgId, "admin");
+		await requireSchedule(ctx, args.orgId, scheduleId);
+		const fields = await scheduleFields(ctx, args);
+		await assertNameFree(ctx, args.orgId, fields.name, scheduleId);
+		await ctx.db.patch(scheduleId, fields);
+	},
+});
+
+export const removeSchedule = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		scheduleId: v.id("autoDraftSchedules"),
+	},
+	handler: async (ctx, { orgId, scheduleId }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		await requireSchedule(ctx, orgId, scheduleId);
+		await ctx.db.delete(scheduleId);
+	},
+});
+
 interface DueScheduleRow {
 	_id: Id<"autoDraftSchedules">;
 	orgId: Id<"organizations">;
@@ -104,11 +241,20 @@ export const _listDue = internalQuery({
 		const due: DueScheduleRow[] = [];
 		for (const row of rows) {
 			if (!row.enabled) continue;
-			const parsed = parseCron(row.cron);
-			if (!parsed) continue;
-			const last = row.lastRunAt ?? 0;
-			const nextRunAfterLast = nextDailyRun(last, parsed.hour, parsed.minute);
-			if (now >= nextRunAfterLast) {
+			let next = row.nextRunAt;
+			if (next === undefined) {
+				// Saved before run times were stored.
+				try {
+					next = nextRunAt(
+						row.cron,
+						row.timezone,
+						row.lastRunAt ?? row._creationTime,
+					);
+				} catch {
+					continue;
+				}
+			}
+			if (next !== undefined && now >= next) {
 				due.push({
 					_id: row._id,
 					orgId: row.orgId,
@@ -121,25 +267,86 @@ export const _listDue = internalQuery({
 	},
 });
 
-function parseCron(cron: string): { minute: number; hour: number } | null {
-	const parts = cron.trim().split(/\s+/);
-	if (parts.length < 2) return null;
-	const minute = Number(parts[0]);
-	const hour = Number(parts[1]);
-	if (Number.isNaN(minute) || Number.isNaN(hour)) return null;
-	return { minute, hour };
-}
-
-export const _markRan = internalMutation({
+/**
+ * Moves the schedule on to its next run and opens a run record for this
+ * one. Returns null if the schedule has been deleted.
+ */
+export const _startRun = internalMutation({
 	args: { scheduleId: v.id("autoDraftSchedules") },
-	handler: async (ctx, { scheduleId }) => {
-		await ctx.db.patch(scheduleId, { lastRunAt: Date.now() });
+	handler: async (ctx, { scheduleId }): Promise<Id<"autoDraftRuns"> | null> => {
+		const row = await ctx.db.get(scheduleId);
+		if (!row) return null;
+		const now = Date.now();
+		let next: number | undefined;
+		try {
+			next = nextRunAt(row.cron, row.timezone, now);
+		} catch {
+			next = undefined;
+		}
+		await ctx.db.patch(scheduleId, { lastRunAt: now, nextRunAt: next });
+		const runId = await ctx.db.insert("autoDraftRuns", {
+			orgId: row.orgId,
+			scheduleId,
+			scheduleName: row.name ?? DEFAULT_SCHEDULE_NAME,
+			startedAt: now,
+			status: "running",
+		});
+		const old = await ctx.db
+			.query("autoDraftRuns")
+			.withIndex("by_schedule_startedAt", (q) => q.eq("scheduleId", scheduleId))
+			.order("desc")
+			.collect();
+		for (let i = MAX_RUNS_PER_SCHEDULE; i < old.length; i++) {
+			await ctx.db.delete(old[i]._id);
+		}
+		return runId;
+	},
+});
+
+/**
+ * Records how many stories a run considered and, given an outcome, closes a
+ * run that ended before a draft was started.
+ */
+export const _updateRun = internalMutation({
+	args: {
+		runId: v.id("autoDraftRuns"),
+		entriesConsidered: v.optional(v.number()),
+		outcome: v.optional(
+			v.object({
+				status: v.union(v.literal("skipped"), v.literal("failed")),
+				reason: v.string(),
+			}),
+		),
+	},
+	handler: async (ctx, { runId, entriesConsidered, outcome }) => {
+		const run = await ctx.db.get(runId);
+		if (!run || run.status !== "running") return;
+		await ctx.db.patch(runId, {
+			...(entriesConsidered !== undefined ? { entriesConsidered } : {}),
+			...(outcome ? { ...outcome, finishedAt: Date.now() } : {}),
+		});
 	},
 });
 
 export const runDueAutoDrafts = internalMutation({
 	args: {},
 	handler: async (ctx) => {
+		// Runs whose draft never finished, e.g. because the action crashed.
+		const now = Date.now();
+		const stuck = await ctx.db
+			.query("autoDraftRuns")
+			.withIndex("by_status_startedAt", (q) =>
+				q.eq("status", "running").lt("startedAt", now - RUN_TIMEOUT_MS),
+			)
+			.take(100);
+		for (const run of stuck) {
+			await ctx.db.patch(run._id, {
+				status: "failed",
+				reason: "Timed out before the draft was written",
+				finishedAt: now,
+			});
+		}
+
 		const listDueRef = makeFunctionReference<"query">(
 			"autoDrafts:_listDue",
 		) as unknown as FunctionReference<
@@ -166,26 +373,58 @@ export const runDueAutoDrafts = internalMutation({
 	},
 });
 
-interface AutoDraftEntryPick {
-	_id: Id<"entries">;
-	title: string;
-	snippet?: string;
-	content?: string;
-	canonicalUrl: string;
-	primarySourceName: string;
+interface AutoDraftPrep extends DraftPrep {
+	name: string;
+	systemUserId: Id<"users"> | null;
+	// Stories that passed the filters, before the template dropped any.
+	entriesConsidered: number;
+	// The scan stopped at MAX_SCANNED_ENTRIES before the window was exhausted.
+	scanLimitHit: boolean;
 }
 
-interface AutoDraftPrep {
-	entries: AutoDraftEntryPick[];
-	profile: Doc<"ghostWriterProfiles"> | null;
-	systemUserId: Id<"users"> | null;
+/** Whether an entry passes a schedule's source and tag filters. */
+async function matchesFilters(
+	ctx: QueryCtx,
+	entryId: Id<"entries">,
+	sourceIds: Set<Id<"sources">>,
+	tagIds: Set<Id<"tags">>,
+): Promise<boolean> {
+	if (sourceIds.size > 0) {
+		const links = await ctx.db
+			.query("entrySources")
+			.withIndex("by_entry", (q) => q.eq("entryId", entryId))
+			.collect();
+		if (!links.some((l) => sourceIds.has(l.sourceId))) return false;
+	}
+	if (tagIds.size > 0) {
+		const links = await ctx.db
+			.query("entryTags")
+			.withIndex("by_entry", (q) => q.eq("entryId", entryId))
+			.collect();
+		if (!links.some((l) => tagIds.has(l.tagId))) return false;
+	}
+	return true;
 }
 
 export const _prepAutoDraft = internalQuery({
-	args: { orgId: v.id("organizations") },
-	handler: async (ctx, { orgId }): Promise<AutoDraftPrep> => {
-		const since = Date.now() - RECENT_WINDOW_MS;
-		const candidates: AutoDraftEntryPick[] = [];
+	args: {
+		orgId: v.id("organizations"),
+		scheduleId: v.id("autoDraftSchedules"),
+	},
+	handler: async (
+		ctx,
+		{ orgId, scheduleId },
+	): Promise<AutoDraftPrep | null> => {
+		const schedule = await ctx.db.get(scheduleId);
+		if (!schedule || schedule.orgId !== orgId) return null;
+		const lookbackHours = schedule.lookbackHours ?? DEFAULT_LOOKBACK_HOURS;
+		const maxEntries = schedule.maxEntries ?? DEFAULT_MAX_ENTRIES;
+		const sourceIds = new Set(schedule.sourceIds);
+		const tagIds = new Set(schedule.tagIds);
+		const since = Date.now() - lookbackHours * 60 * 60 * 1000;
+		const candidates: PromptEntry[] = [];
+		let scanned = 0;
+		let scanLimitHit = false;
 		const q = ctx.db
 			.query("entries")
 			.withIndex("by_org_fetchedAt", (ix) =>
@@ -193,17 +432,14 @@ export const _prepAutoDraft = internalQuery({
 			)
 			.order("desc");
 		for await (const e of q) {
+			if (scanned++ >= MAX_SCANNED_ENTRIES) {
+				scanLimitHit = true;
+				break;
+			}
 			if (e.used || e.archived) continue;
-			const source = await ctx.db.get(e.primarySourceId);
-			candidates.push({
-				_id: e._id,
-				title: e.title,
-				snippet: e.snippet,
-				content: e.content?.slice(0, 4000),
-				canonicalUrl: e.canonicalUrl,
-				primarySourceName: source?.name ?? "Unknown source",
-			});
-			if (candidates.length >= MAX_ENTRIES_PER_DRAFT) break;
+			if (!(await matchesFilters(ctx, e._id, sourceIds, tagIds))) continue;
+			candidates.push(await promptEntry(ctx, e));
+			if (candidates.length >= maxEntries) break;
 		}
 		const profile = await ctx.db
 			.query("ghostWriterProfiles")
@@ -214,200 +450,134 @@ export const _prepAutoDraft = internalQuery({
 			.withIndex("by_org", (qq) => qq.eq("orgId", orgId))
 			.collect();
 		const admin = firstAdmin.find((m) => m.role === "admin") ?? firstAdmin[0];
+		const name = schedule.name ?? DEFAULT_SCHEDULE_NAME;
+		const row = schedule.templateId
+			? await ctx.db.get(schedule.templateId)
+			: null;
+		if (!row || row.orgId !== orgId) {
+			return {
+				name,
+				entriesConsidered: candidates.length,
+				scanLimitHit,
+				entries: candidates,
+				profile,
+				systemUserId: admin?.userId ?? null,
+				template: null,
+			};
+		}
+		// Stories that don't fit the template stay unused for the next run.
+		const { groups } = assignToSections(row.sections, candidates);
 		return {
-			entries: candidates,
+			name,
+			entriesConsidered: candidates.length,
+			scanLimitHit,
+			entries: groups.flatMap((g) => g.entries),
 			profile,
 			systemUserId: admin?.userId ?? null,
+			template: { _id: row._id, name: row.name, groups },
 		};
 	},
 });
 
-export const _createAutoDraftRow = internalMutation({
-	args: {
-		orgId: v.id("organizations"),
-		title: v.string(),
-		createdByUserId: v.id("users"),
-		entryIds: v.array(v.id("entries")),
-	},
-	handler: async (ctx, args): Promise<Id<"drafts">> => {
-		const now = Date.now();
-		const draftId = await ctx.db.insert("drafts", {
-			orgId: args.orgId,
-			title: args.title,
-			body: "",
-			status: "generating",
-			createdAt: now,
-			updatedAt: now,
-			createdByUserId: args.createdByUserId,
-		});
-		for (const entryId of args.entryIds) {
-			await ctx.db.insert("draftEntries", {
-				draftId,
-				entryId,
-				orgId: args.orgId,
-			});
-		}
-		return draftId;
-	},
-});
+const startRunRef = makeFunctionReference<"mutation">(
+	"autoDrafts:_startRun",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{ scheduleId: Id<"autoDraftSchedules"> },
+	Id<"autoDraftRuns"> | null
+>;
 
-export const _completeAutoDraft = internalMutation({
-	args: {
-		draftId: v.id("drafts"),
-		body: v.string(),
+const updateRunRef = makeFunctionReference<"mutation">(
+	"autoDrafts:_updateRun",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{
+		runId: Id<"autoDraftRuns">;
+		entriesConsidered?: number;
+		outcome?: { status: "skipped" | "failed"; reason: string };
 	},
-	handler: async (ctx, { draftId, body }) => {
-		const existing = await ctx.db.get(draftId);
-		if (!existing) return;
-		await ctx.db.patch(draftId, {
-			body,
-			status: "ready",
-			updatedAt: Date.now(),
-		});
-	},
-});
-
-function buildAutoPrompt(prep: AutoDraftPrep): {
-	system: string;
-	user: string;
-} {
-	const profile = prep.profile;
-	const voiceBlock = profile
-		? [
-				"# Tone of voice",
-				profile.summary,
-				profile.voiceAttributes.length > 0
-					? `Voice attributes: ${profile.voiceAttributes.join(", ")}`
-					: "",
-				profile.doExamples.length > 0
-					? `Do:\n${profile.doExamples.map((d) => `- ${d}`).join("\n")}`
-					: "",
-				profile.dontExamples.length > 0
-					? `Don't:\n${profile.dontExamples.map((d) => `- ${d}`).join("\n")}`
-					: "",
-			]
-				.filter(Boolean)
-				.join("\n\n")
-		: "# Tone of voice\nNo tone-of-voice profile is configured. Use a friendly, clear, professional newsletter voice — direct, lightly opinionated, never gushing.";
-
-	const stories = prep.entries
-		.map((e, i) => {
-			const parts = [
-				`## Story ${i + 1}: ${e.title}`,
-				`Source: ${e.primarySourceName}`,
-				`URL: ${e.canonicalUrl}`,
-			];
-			if (e.snippet) parts.push(`Snippet: ${e.snippet}`);
-			if (e.content) parts.push(`Content:\n${e.content}`);
-			return parts.join("\n");
-		})
-		.join("\n\n---\n\n");
+	void
+>;
 
-	const system =
-		"You are a newsletter ghostwriter generating an automated overnight draft for review. " +
-		"Write the draft in markdown, ready to drop into an editor. " +
-		"Include a strong opening hook, cover each provided story with a clear paragraph or short section, " +
-		"add a brief closing. Link to the original story URLs inline. Do not invent facts beyond the supplied material.";
-
-	const user = `${voiceBlock}\n\n# Stories to cover (in order)\n\n${stories}\n\nWrite the full newsletter draft now. Output markdown only — no preamble.`;
-	return { system, user };
-}
+const prepRef = makeFunctionReference<"query">(
+	"autoDrafts:_prepAutoDraft",
+) as unknown as FunctionReference<
+	"query",
+	"internal",
+	{
+		orgId: Id<"organizations">;
+		scheduleId: Id<"autoDraftSchedules">;
+	},
+	AutoDraftPrep | null
+>;
 
+/**
+ * Runs a schedule once. Every run is recorded in `autoDraftRuns`; runs that
+ * start a draft are closed when the draft has been written.
+ */
 export const runOne = internalAction({
 	args: {
 		orgId: v.id("organizations"),
 		scheduleId: v.id("autoDraftSchedules"),
 	},
 	handler: async (ctx, { orgId, scheduleId }): Promise<void> => {
-		const markRanRef = makeFunctionReference<"mutation">(
-			"autoDrafts:_markRan",
-		) as unknown as FunctionReference<
-			"mutation",
-			"internal",
-			{ scheduleId: Id<"autoDraftSchedules"> },
-			void
-		>;
-		await ctx.runMutation(markRanRef, { scheduleId });
-
-		const prepRef = makeFunctionReference<"query">(
-			"autoDrafts:_prepAutoDraft",
-		) as unknown as FunctionReference<
-			"query",
-			"internal",
-			{ orgId: Id<"organizations"> },
-			AutoDraftPrep
-		>;
-		const prep = await ctx.runQuery(prepRef, { orgId });
-
-		if (prep.entries.length === 0 || prep.systemUserId === null) {
-			return;
-		}
-
-		const title = `Auto draft — ${new Date().toLocaleDateString(undefined, {
-			year: "numeric",
-			month: "short",
-			day: "numeric",
-		})}`;
+		const runId = await ctx.runMutation(startRunRef, { scheduleId });
+		if (runId === null) return;
 
-		const createRef = makeFunctionReference<"mutation">(
-			"autoDrafts:_createAutoDraftRow",
-		) as unknown as FunctionReference<
-			"mutation",
-			"internal",
-			{
-				orgId: Id<"organizations">;
-				title: string;
-				createdByUserId: Id<"users">;
-				entryIds: Id<"entries">[];
-			},
-			Id<"drafts">
-		>;
-		const draftId = await ctx.runMutation(createRef, {
-			orgId,
-			title,
-			createdByUserId: prep.systemUserId,
-			entryIds: prep.entries.map((e) => e._id),
-		});
-
-		const completeRef = makeFunctionReference<"mutation">(
-			"autoDrafts:_completeAutoDraft",
-		) as unknown as FunctionReference<
-			"mutation",
-			"internal",
-			{ draftId: Id<"drafts">; body: string },
-			void
-		>;
-
-		let body: string;
 		try {
-			if (!process.env.ANTHROPIC_API_KEY) {
-				body =
-					"GENERATION ERROR: ANTHROPIC_API_KEY is not configured on the Convex deployment.\n\n" +
-					`Selected ${prep.entries.length} stories — review and edit manually.`;
-			} else {
-				const { DRAFT_MODEL, getAnthropicClient } = await import(
-					"./lib/anthropic"
-				);
-				const { system, user } = buildAutoPrompt(prep);
-				const anthropic = getAnthropicClient();
-				const res = await anthropic.messages.create({
-					model: DRAFT_MODEL,
-					max_tokens: 4000,
-					system,
-					messages: [{ role: "user", content: user }],
+			const result = await ctx.runQuery(prepRef, { orgId, scheduleId });
+			if (result === null) {
+				await ctx.runMutation(updateRunRef, {
+					runId,
+					outcome: { status: "skipped", reason: "The schedule was deleted" },
 				});
-				const textPart = res.content.find((c) => c.type === "text");
-				body =
-					textPart && textPart.type === "text"
-						? textPart.text
-						: "GENERATION ERROR: Claude returned no text content.";
+				return;
+			}
+			const { name, systemUserId, entriesConsidered, scanLimitHit, ...prep } =
+				result;
+
+			let skipReason: string | null = null;
+			if (entriesConsidered === 0) {
+				skipReason = scanLimitHit
+					? `No unused stories matched the schedule among the newest ${MAX_SCANNED_ENTRIES}`
+					: "No unused stories matched the schedule";
+			} else if (prep.entries.length === 0) {
+				skipReason = "None of the matching stories fit the template";
+			} else if (systemUserId === null) {
+				skipReason = "The organization has no members to own the draft";
 			}
+			await ctx.runMutation(updateRunRef, {
+				runId,
+				entriesConsidered,
+				...(skipReason
+					? { outcome: { status: "skipped", reason: skipReason } }
+					: {}),
+			});
+			if (skipReason || systemUserId === null) return;
+
+			const title = `${name} — ${new Date().toLocaleDateString(undefined, {
+				year: "numeric",
+				month: "short",
+				day: "numeric",
+			})}`;
+
+			await startDraft(ctx, {
+				orgId,
+				title,
+				createdByUserId: systemUserId,
+				prep: { ...prep, automated: true },
+				runId,
+			});
 		} catch (err) {
-			const message = err instanceof Error ? err.message : String(err);
-			body = `GENERATION ERROR: ${message}`;
+			await ctx.runMutation(updateRunRef, {
+				runId,
+				outcome: {
+					status: "failed",
+					reason: err instanceof Error ? err.message : String(err),
+				},
+			});
 		}
-
-		await ctx.runMutation(completeRef, { draftId, body });
 	},
 });
-
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Id } from "./_generated/dataModel";
+import {
+	CLUSTER_WINDOW_MS,
+	type ClusterCandidate,
+	collapseClusters,
+	pickClusterMatch,
+} from "./clusters";
+
+const entryId = (s: string) => s as Id<"entries">;
+const clusterId = (s: string) => s as Id<"storyClusters">;
+
+describe("pickClusterMatch", () => {
+	const now = Date.parse("2026-10-10T12:00:00Z");
+	const cases: {
+		name: string;
+		candidates: ClusterCandidate[];
+		expected: string | null;
+	}[] = [
+		{
+			name: "returns null without candidates",
+			candidates: [],
+			expected: null,
+		},
+		{
+			name: "ignores candidates below the similarity threshold",
+			candidates: [{ entryId: entryId("a"), score: 0.7, fetchedAt: now }],
+			expected: null,
+		},
+		{
+			name: "ignores similar entries outside the time window",
+			candidates: [
+				{
+					entryId: entryId("old"),
+					score: 0.97,
+					fetchedAt: now - CLUSTER_WINDOW_MS - 1,
+				},
+			],
+			expected: null,
+		},
+		{
+			name: "picks the most similar eligible candidate",
+			candidates: [
+				{ entryId: entryId("a"), score: 0.88, fetchedAt: now - 1000 },
+				{
+					entryId: entryId("b"),
+					score: 0.93,
+					fetchedAt: now - 2000,
+					clusterId: clusterId("c1"),
+				},
+				{ entryId: entryId("c"), score: 0.9, fetchedAt: now },
+			],
+			expected: "b",
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(
+				pickClusterMatch({ fetchedAt: now }, c.candidates)?.entryId ?? null,
+			).toBe(c.expected);
+		});
+	}
+});
+
+describe("collapseClusters", () => {
+	it("keeps one row per cluster at the newest member's position", () => {
+		const rows = [
+			{ _id: entryId("n1"), clusterId: clusterId("c1") },
+			{ _id: entryId("solo") },
+			{ _id: entryId("n2"), clusterId: clusterId("c1") },
+		];
+		expect(collapseClusters(rows, new Map()).map((r) => r._id)).toEqual([
+			"n1",
+			"solo",
+		]);
+	});
+
+	it("shows the representative in the cluster's slot when it is on the page", () => {
+		const rows = [
+			{ _id: entryId("n1"), clusterId: clusterId("c1") },
+			{ _id: entryId("solo") },
+			{ _id: entryId("rep"), clusterId: clusterId("c1") },
+		];
+		expect(
+			collapseClusters(rows, new Map([[clusterId("c1"), entryId("rep")]])).map(
+				(r) => r._id,
+			),
+		).toEqual(["rep", "solo"]);
+	});
+});
@@ -0,0 +1,156 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internalAction, internalMutation } from "./_generated/server";
+
+// Cosine similarity above which two entries are treated as the same story.
+// Voyage embeddings of different articles on one event typically land in the
+// high 0.8s; unrelated articles from the same beat stay well below.
+export const CLUSTER_MIN_SCORE = 0.86;
+// Only entries fetched this close together are compared, so a follow-up story
+// weeks later starts a new cluster instead of joining the old one.
+export const CLUSTER_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const CLUSTER_CANDIDATES = 16;
+
+export interface ClusterCandidate {
+	entryId: Id<"entries">;
+	score: number;
+	fetchedAt: number;
+	clusterId?: Id<"storyClusters">;
+}
+
+/** The most similar recent candidate above the threshold, if any. */
+export function pickClusterMatch(
+	entry: { fetchedAt: number },
+	candidates: ClusterCandidate[],
+): ClusterCandidate | null {
+	let best: ClusterCandidate | null = null;
+	for (const c of candidates) {
+		if (c.score < CLUSTER_MIN_SCORE) continue;
+		if (Math.abs(c.fetchedAt - entry.fetchedAt) > CLUSTER_WINDOW_MS) continue;
+		if (!best || c.score > best.score) best = c;
+	}
+	return best;
+}
+
+/**
+ * Keeps one row per cluster, at the position of its first (newest) member.
+ * When the cluster's representative is also on the page it takes that slot.
+ */
+export function collapseClusters<
+	T extends { _id: Id<"entries">; clusterId?: Id<"storyClusters"> },
+>(entries: T[], representatives: Map<Id<"storyClusters">, Id<"entries">>): T[] {
+	const out: T[] = [];
+	const slotByCluster = new Map<Id<"storyClusters">, number>();
+	for (const entry of entries) {
+		if (!entry.clusterId) {
+			out.push(entry);
+			continue;
+		}
+		const slot = slotByCluster.get(entry.clusterId);
+		if (slot === undefined) {
+			slotByCluster.set(entry.clusterId, out.length);
+			out.push(entry);
+		} else if (representatives.get(entry.clusterId) === entry._id) {
+			out[slot] = entry;
+		}
+	}
+	return out;
+}
+
+export const _assignCluster = internalMutation({
+	args: {
+		entryId: v.id("entries"),
+		matches: v.array(
+			v.object({
+				entryId: v.id("entries"),
+				score: v.number(),
+			}),
+		),
+	},
+	handler: async (ctx, { entryId, matches }) => {
+		const entry = await ctx.db.get(entryId);
+		if (!entry || entry.clusterId) return;
+
+		const candidates: ClusterCandidate[] = [];
+		for (const m of matches) {
+			if (m.entryId === entryId) continue;
+			const other = await ctx.db.get(m.entryId);
+			if (!other || other.orgId !== entry.orgId) continue;
+			candidates.push({
+				entryId: other._id,
+				score: m.score,
+				fetchedAt: other.fetchedAt,
+				clusterId: other.clusterId,
+			});
+		}
+		const match = pickClusterMatch(entry, candidates);
+		if (!match) return;
+
+		const now = Date.now();
+		let clusterId = match.clusterId;
+		if (clusterId) {
+			const cluster = await ctx.db.get(clusterId);
+			if (cluster) {
+				await ctx.db.patch(clusterId, {
+					size: cluster.size + 1,
+					updatedAt: now,
+				});
+			} else {
+				clusterId = undefined;
+			}
+		}
+		if (!clusterId) {
+			clusterId = await ctx.db.insert("storyClusters", {
+				orgId: entry.orgId,
+				representativeEntryId: match.entryId,
+				size: 2,
+				createdAt: now,
+				updatedAt: now,
+			});
+			await ctx.db.patch(match.entryId, { clusterId });
+		}
+		await ctx.db.patch(entryId, { clusterId });
+	},
+});
+
+const _getEntry = makeFunctionReference<"query">(
+	"ai/embeddings:_getEntry",
+) as unknown as FunctionReference<
+	"query",
+	"internal",
+	{ entryId: Id<"entries"> },
+	Doc<"entries"> | null
+>;
+
+const _assignClusterRef = makeFunctionReference<"mutation">(
+	"clusters:_assignCluster",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{
+		entryId: Id<"entries">;
+		matches: { entryId: Id<"entries">; score: number }[];
+	},
+	null
+>;
+
+// Scheduled once an entry has its embedding. Vector search is only available
+// in actions, so the lookup happens here and the grouping in a mutation.
+export const clusterEntry = internalAction({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }): Promise<void> => {
+		const entry = await ctx.runQuery(_getEntry, { entryId });
+		if (!entry?.embedding || entry.clusterId) return;
+		const results = await ctx.vectorSearch("entries", "by_embedding", {
+			vector: entry.embedding,
+			limit: CLUSTER_CANDIDATES,
+			filter: (q) => q.eq("orgId", entry.orgId),
+		});
+		const matches = results
+			.filter((r) => r._id !== entryId && r._score >= CLUSTER_MIN_SCORE)
+			.map((r) => ({ entryId: r._id, score: r._score }));
+		if (matches.length === 0) return;
+		await ctx.runMutation(_assignClusterRef, { entryId, matches });
+	},
+});
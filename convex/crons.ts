@@ -13,8 +13,22 @@ crons.cron(
 );
 
 crons.cron(
-	"auto-draft-ticker",
+	"source-run-watchdog",
+	"*/5 * * * *",
+	makeFunctionReference<"mutation">("sources:reapStuckRuns"),
+	{},
+);
+
+crons.cron(
+	"draft-generation-watchdog",
 	"*/5 * * * *",
+	makeFunctionReference<"mutation">("ai/draft:reapStalledDrafts"),
+	{},
+);
+
+crons.cron(
+	"auto-draft-ticker",
+	"* * * * *",
 	makeFunctionReference<"mutation">("autoDrafts:runDueAutoDrafts"),
 	{},
 );
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { canonicalizeUrl } from "./dedupe";
+import { canonicalFromHtml, canonicalizeUrl } from "./dedupe";
 
 describe("canonicalizeUrl", () => {
 	const cases: { name: string; input: string; expected: string }[] = [
@@ -55,9 +55,62 @@ describe("canonicalizeUrl", () => {
 			expected: "https://www.example.com/post",
 		},
 		{
-			name: "preserves non-tracking query params in original order",
+			name: "preserves non-tracking query params in sorted order",
 			input: "https://example.com/search?q=hello&page=2&utm_source=foo",
-			expected: "https://example.com/search?q=hello&page=2",
+			expected: "https://example.com/search?page=2&q=hello",
+		},
+		{
+			name: "strips any utm_* parameter and referral markers",
+			input: "https://example.com/post?utm_reader=feedly&ref_src=hn&id=7",
+			expected: "https://example.com/post?id=7",
+		},
+		{
+			name: "keeps a plain ref parameter",
+			input: "https://example.com/compare?ref=v2.1&utm_source=x",
+			expected: "https://example.com/compare?ref=v2.1",
+		},
+		{
+			name: "strips AMP query markers",
+			input: "https://example.com/post?amp=1&outputType=amp",
+			expected: "https://example.com/post",
+		},
+		{
+			name: "drops a trailing /amp path segment",
+			input: "https://example.com/2026/10/story/amp/",
+			expected: "https://example.com/2026/10/story",
+		},
+		{
+			name: "drops a leading /amp path segment",
+			input: "https://example.com/amp/2026/10/story",
+			expected: "https://example.com/2026/10/story",
+		},
+		{
+			name: "rewrites .amp.html pages",
+			input: "https://example.com/news/story.amp.html",
+			expected: "https://example.com/news/story.html",
+		},
+		{
+			name: "unwraps Google AMP cache URLs",
+			input:
+				"https://example-com.cdn.ampproject.org/c/s/example.com/news/story/amp?utm_source=x",
+			expected: "https://example.com/news/story",
+		},
+		{
+			name: "unwraps Google redirect links",
+			input:
+				"https://www.google.com/url?sa=t&url=https%3A%2F%2Fexample.com%2Fpost%3Futm_medium%3Demail",
+			expected: "https://example.com/post",
+		},
+		{
+			name: "unwraps Facebook outbound links",
+			input:
+				"https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2Fpost%3Ffbclid%3Dabc&h=AT0",
+			expected: "https://example.com/post",
+		},
+		{
+			name: "leaves wrapper-looking links alone when the target isn't a URL",
+			input: "https://www.google.com/url?q=hello",
+			expected: "https://www.google.com/url?q=hello",
 		},
 		{
 			name: "returns the trimmed input when not a valid URL",
@@ -71,4 +124,59 @@ describe("canonicalizeUrl", () => {
 			expect(canonicalizeUrl(c.input)).toBe(c.expected);
 		});
 	}
+
+	it("strips the org's extra tracking params, case-insensitively", () => {
+		expect(
+			canonicalizeUrl("https://example.com/post?CMPID=rss&src=tw&id=1", [
+				"cmpid",
+				"src",
+			]),
+		).toBe("https://example.com/post?id=1");
+		expect(canonicalizeUrl("https://example.com/post?ref=hn", ["ref"])).toBe(
+			"https://example.com/post",
+		);
+	});
+});
+
+describe("canonicalFromHtml", () => {
+	const pageUrl = "https://example.com/news/story?from=rss";
+	const cases: { name: string; html: string; expected: string | undefined }[] =
+		[
+			{
+				name: "reads <link rel=canonical>",
+				html: '<head><link rel="canonical" href="https://example.com/news/story"></head>',
+				expected: "https://example.com/news/story",
+			},
+			{
+				name: "resolves a relative canonical against the page",
+				html: "<link href='/news/story' rel='canonical' />",
+				expected: "https://example.com/news/story",
+			},
+			{
+				name: "falls back to og:url",
+				html: '<meta property="og:url" content="https://example.com/news/story?a=1&amp;b=2">',
+				expected: "https://example.com/news/story?a=1&b=2",
+			},
+			{
+				name: "prefers rel=canonical over og:url",
+				html: '<meta property="og:url" content="https://example.com/og"><link rel="canonical" href="https://example.com/canonical">',
+				expected: "https://example.com/canonical",
+			},
+			{
+				name: "ignores a homepage canonical on an article page",
+				html: '<link rel="canonical" href="https://example.com/">',
+				expected: undefined,
+			},
+			{
+				name: "returns undefined without hints",
+				html: "<html><head><title>Story</title></head></html>",
+				expected: undefined,
+			},
+		];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(canonicalFromHtml(c.html, pageUrl)).toBe(c.expected);
+		});
+	}
 });
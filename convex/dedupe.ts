@@ -1,6 +1,7 @@
 import { type FunctionReference, makeFunctionReference } from "convex/server";
 import type { Id } from "./_generated/dataModel";
 import type { MutationCtx } from "./_generated/server";
+import type { EntryMetadata } from "./sources/adapter";
 
 const TRACKING_PARAMS = [
 	"utm_source",
@@ -14,20 +15,123 @@ const TRACKING_PARAMS = [
 	"utm_social",
 	"fbclid",
 	"gclid",
+	"dclid",
+	"msclkid",
+	"yclid",
+	"twclid",
+	"igshid",
 	"mc_cid",
 	"mc_eid",
+	"_hsenc",
+	"_hsmi",
+	"mkt_tok",
+	// Plain `ref` is left alone: some sites use it to pick the article (a
+	// git ref, a product reference). Orgs whose sources use it for referrals
+	// can add it to their own list.
+	"ref_src",
+	"ref_url",
 ];
 
-export function canonicalizeUrl(input: string): string {
+// Link wrappers that carry the real destination in a query parameter, keyed
+// by host and path. These can be unwrapped without a network request.
+const REDIRECT_WRAPPERS: { host: string; path: string; params: string[] }[] = [
+	{ host: "www.google.com", path: "/url", params: ["q", "url"] },
+	{ host: "google.com", path: "/url", params: ["q", "url"] },
+	{ host: "news.google.com", path: "/news/url", params: ["url"] },
+	{ host: "l.facebook.com", path: "/l.php", params: ["u"] },
+	{ host: "lm.facebook.com", path: "/l.php", params: ["u"] },
+	{ host: "l.instagram.com", path: "/", params: ["u"] },
+	{ host: "out.reddit.com", path: "/", params: ["url"] },
+	{ host: "www.linkedin.com", path: "/redir/redirect", params: ["url"] },
+];
+
+const AMP_CACHE_SUFFIX = ".cdn.ampproject.org";
+
+function unwrapRedirect(url: URL): URL | null {
+	const host = url.hostname.toLowerCase();
+	for (const w of REDIRECT_WRAPPERS) {
+		if (w.host !== host) continue;
+		if (w.path !== "/" && url.pathname !== w.path) continue;
+		for (const p of w.params) {
+			const target = url.searchParams.get(p);
+			if (target && /^https?:\/\//i.test(target)) {
+				try {
+					return new URL(target);
+				} catch {
+					// fall through to the next parameter
+				}
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * `https://example-com.cdn.ampproject.org/c/s/example.com/a` is Google's AMP
+ * cache copy of `https://example.com/a`.
+ */
+function unwrapAmpCache(url: URL): URL | null {
+	if (!url.hostname.toLowerCase().endsWith(AMP_CACHE_SUFFIX)) return null;
+	const match = /^\/[cvi]\/(s\/)?(.+)$/.exec(url.pathname);
+	if (!match) return null;
+	try {
+		return new URL(`${match[1] ? "https" : "http"}://${match[2]}${url.search}`);
+	} catch {
+		return null;
+	}
+}
+
+function stripAmp(url: URL): void {
+	let path = url.pathname;
+	path = path.replace(/\/amp\/?$/i, "/");
+	path = path.replace(/^\/amp\//i, "/");
+	path = path.replace(/\.amp(\.html?)$/i, "$1");
+	url.pathname = path;
+	url.searchParams.delete("amp");
+	url.searchParams.delete("amp_js_v");
+	url.searchParams.delete("usqp");
+	if (url.searchParams.get("outputType")?.toLowerCase() === "amp") {
+		url.searchParams.delete("outputType");
+	}
+}
+
+/**
+ * Normalizes a URL so different links to the same article compare equal:
+ * unwraps known redirect wrappers and AMP cache URLs, drops AMP markers,
+ * tracking parameters (`TRACKING_PARAMS`, any `utm_*`, plus the org's own
+ * `extraTrackingParams`), fragments, default ports and trailing slashes, and
+ * sorts what's left of the query string.
+ */
+export function canonicalizeUrl(
+	input: string,
+	extraTrackingParams: readonly string[] = [],
+): string {
 	let url: URL;
 	try {
 		url = new URL(input.trim());
 	} catch {
 		return input.trim();
 	}
+	for (let i = 0; i < 3; i++) {
+		const inner = unwrapRedirect(url) ?? unwrapAmpCache(url);
+		if (!inner) break;
+		url = inner;
+	}
 	url.hash = "";
 	url.hostname = url.hostname.toLowerCase();
-	for (const p of TRACKING_PARAMS) url.searchParams.delete(p);
+	stripAmp(url);
+	const extra = new Set(extraTrackingParams.map((p) => p.toLowerCase()));
+	for (const key of [...url.searchParams.keys()]) {
+		const lower = key.toLowerCase();
+		if (
+			lower.startsWith("utm_") ||
+			TRACKING_PARAMS.includes(lower) ||
+			extra.has(lower)
+		) {
+			url.searchParams.delete(key);
+		}
+	}
+	url.searchParams.sort();
 	let pathname = url.pathname;
 	if (pathname.length > 1 && pathname.endsWith("/")) {
 		pathname = pathname.replace(/\/+$/, "");
@@ -43,7 +147,52 @@ export function canonicalizeUrl(input: string): string {
 	return url.toString();
 }
 
-export interface FindOrCreateEntryArgs {
+/**
+ * The page's own idea of its URL: `<link rel="canonical">`, else `og:url`.
+ * Ignored when it points at the site root from a deeper page, a common
+ * misconfiguration that would otherwise merge every article on the site.
+ */
+export function canonicalFromHtml(
+	html: string,
+	pageUrl: string,
+): string | undefined {
+	const head = html.slice(0, 200_000);
+	const candidates: string[] = [];
+	for (const tag of head.match(/<link\b[^>]*>/gi) ?? []) {
+		if (/\brel=["']?canonical["'\s>]/i.test(tag)) {
+			const href = /\bhref=["']([^"']+)["']/i.exec(tag)?.[1];
+			if (href) candidates.push(href);
+		}
+	}
+	for (const tag of head.match(/<meta\b[^>]*>/gi) ?? []) {
+		if (/\bproperty=["']og:url["']/i.test(tag)) {
+			const content = /\bcontent=["']([^"']+)["']/i.exec(tag)?.[1];
+			if (content) candidates.push(content);
+		}
+	}
+	for (const raw of candidates) {
+		const resolved = plausibleCanonical(raw.replace(/&amp;/g, "&"), pageUrl);
+		if (resolved) return resolved;
+	}
+	return undefined;
+}
+
+export function plausibleCanonical(
+	candidate: string,
+	pageUrl: string,
+): string | undefined {
+	try {
+		const page = new URL(pageUrl);
+		const url = new URL(candidate, page);
+		if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+		if (url.pathname === "/" && page.pathname !== "/") return undefined;
+		return url.toString();
+	} catch {
+		return undefined;
+	}
+}
+
+export interface FindOrCreateEntryArgs extends EntryMetadata {
 	orgId: Id<"organizations">;
 	sourceId: Id<"sources">;
 	canonicalUrl: string;
@@ -54,6 +203,13 @@ export interface FindOrCreateEntryArgs {
 	publishedAt?: number;
 }
 
+const METADATA_KEYS = [
+	"imageUrl",
+	"author",
+	"siteName",
+	"language",
+] as const satisfies readonly (keyof EntryMetadata)[];
+
 export async function findOrCreateEntry(
 	ctx: MutationCtx,
 	args: FindOrCreateEntryArgs,
@@ -84,6 +240,17 @@ export async function findOrCreateEntry(
 				foundAt: now,
 			});
 		}
+		// A later sighting may carry metadata the first one lacked (e.g. a feed
+		// item with an image for a story first found by web search).
+		const backfill: EntryMetadata = {};
+		for (const key of METADATA_KEYS) {
+			if (existing[key] === undefined && args[key] !== undefined) {
+				backfill[key] = args[key];
+			}
+		}
+		if (Object.keys(backfill).length > 0) {
+			await ctx.db.patch(existing._id, backfill);
+		}
 		return { entryId: existing._id, created: false };
 	}
 
@@ -96,6 +263,10 @@ export async function findOrCreateEntry(
 		content: args.content,
 		fetchedAt: now,
 		publishedAt: args.publishedAt,
+		imageUrl: args.imageUrl,
+		author: args.author,
+		siteName: args.siteName,
+		language: args.language,
 		used: false,
 		archived: false,
 	});
@@ -118,5 +289,25 @@ export async function findOrCreateEntry(
 	>;
 	await ctx.scheduler.runAfter(0, embedRef, { entryId });
 
+	const tagRef = makeFunctionReference<"action">(
+		"tags:suggestTags",
+	) as unknown as FunctionReference<
+		"action",
+		"internal",
+		{ entryId: Id<"entries"> },
+		void
+	>;
+	await ctx.scheduler.runAfter(0, tagRef, { entryId });
+
+	const summaryRef = makeFunctionReference<"action">(
+		"ai/summarize:summarizeEntry",
+	) as unknown as FunctionReference<
+		"action",
+		"internal",
+		{ entryId: Id<"entries"> },
+		void
+	>;
+	await ctx.scheduler.runAfter(0, summaryRef, { entryId });
+
 	return { entryId, created: true };
 }
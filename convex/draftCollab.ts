@@ -0,0 +1,299 @@
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { recordRevision } from "./draftRevisions";
+import {
+	type TextOp,
+	applyOp,
+	diffOp,
+	isValidOp,
+	textOpValidator,
+	transformRun,
+} from "./lib/textOperation";
+import { requireOrgMember } from "./orgAuth";
+
+// Steps older than this many versions are pruned; an editor that falls
+// further behind reloads the body instead of replaying.
+const MAX_STEPS_PER_DRAFT = 1000;
+const MAX_STEPS_PER_QUERY = 200;
+const MAX_OPS_PER_SUBMIT = 100;
+// Editors heartbeat every 10 seconds; a tab silent for longer is gone.
+const PRESENCE_TIMEOUT_MS = 30 * 1000;
+// Client id recorded on steps written by the server itself (generation,
+// restores, whole-body updates).
+const SERVER_CLIENT_ID = "server";
+
+const STALE_EDIT_MESSAGE =
+	"The draft changed before your edit arrived. Reloaded the latest version.";
+
+async function pruneSteps(
+	ctx: MutationCtx,
+	draftId: Id<"drafts">,
+	version: number,
+): Promise<void> {
+	const old = await ctx.db
+		.query("draftSteps")
+		.withIndex("by_draft", (q) =>
+			q.eq("draftId", draftId).lte("version", version - MAX_STEPS_PER_DRAFT),
+		)
+		.take(MAX_OPS_PER_SUBMIT);
+	for (const step of old) {
+		await ctx.db.delete(step._id);
+	}
+}
+
+/**
+ * Replaces the body as a single step so open editors rebase onto it rather
+ * than being overwritten. Every server-side body write goes through here.
+ */
+export async function setDraftBody(
+	ctx: MutationCtx,
+	draft: Doc<"drafts">,
+	body: string,
+	userId?: Id<"users">,
+): Promise<void> {
+	if (body === draft.body) return;
+	const version = (draft.version ?? 0) + 1;
+	await ctx.db.insert("draftSteps", {
+		draftId: draft._id,
+		orgId: draft.orgId,
+		version,
+		clientId: SERVER_CLIENT_ID,
+		userId,
+		op: diffOp(draft.body, body),
+		createdAt: Date.now(),
+	});
+	await ctx.db.patch(draft._id, { body, version });
+	await pruneSteps(ctx, draft._id, version);
+}
+
+export async function deleteCollabState(
+	ctx: MutationCtx,
+	draftId: Id<"drafts">,
+): Promise<void> {
+	const steps = await ctx.db
+		.query("draftSteps")
+		.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+		.collect();
+	for (const step of steps) {
+		await ctx.db.delete(step._id);
+	}
+	const presence = await ctx.db
+		.query("draftPresence")
+		.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+		.collect();
+	for (const row of presence) {
+		await ctx.db.delete(row._id);
+	}
+}
+
+/**
+ * Applies a run of edits made against `baseVersion`. Steps committed since
+ * then are transformed in first, so concurrent edits from other tabs merge
+ * instead of overwriting each other.
+ */
+export const submit = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		clientId: v.string(),
+		baseVersion: v.number(),
+		ops: v.array(textOpValidator),
+	},
+	handler: async (ctx, { orgId, draftId, clientId, baseVersion, ops }) => {
+		const member = await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) {
+			throw new ConvexError("Draft not found");
+		}
+		if (draft.status === "finalized") {
+			throw new ConvexError(
+				"Draft is finalized. Reopen it before making changes.",
+			);
+		}
+		if (draft.status === "generating") {
+			throw new ConvexError("Draft is still generating");
+		}
+		if (ops.length === 0) return { version: draft.version ?? 0 };
+		if (ops.length > MAX_OPS_PER_SUBMIT || !ops.every(isValidOp)) {
+			throw new ConvexError("Invalid edit");
+		}
+
+		const current = draft.version ?? 0;
+		const concurrent = await ctx.db
+			.query("draftSteps")
+			.withIndex("by_draft", (q) =>
+				q.eq("draftId", draftId).gt("version", baseVersion),
+			)
+			.collect();
+		if (baseVersion > current || concurrent.length !== current - baseVersion) {
+			throw new ConvexError(STALE_EDIT_MESSAGE);
+		}
+		let pending: TextOp[] = ops;
+		let body = draft.body;
+		try {
+			for (const step of concurrent) {
+				pending = transformRun(step.op, pending)[1];
+			}
+			for (const op of pending) body = applyOp(body, op);
+		} catch {
+			throw new ConvexError(STALE_EDIT_MESSAGE);
+		}
+
+		const now = Date.now();
+		let version = current;
+		for (const op of pending) {
+			version++;
+			await ctx.db.insert("draftSteps", {
+				draftId,
+				orgId,
+				version,
+				clientId,
+				userId: member.userId,
+				op,
+				createdAt: now,
+			});
+		}
+		await ctx.db.patch(draftId, { body, version, updatedAt: now });
+		await recordRevision(ctx, { ...draft, body }, "autosave", member.userId);
+		await pruneSteps(ctx, draftId, version);
+		return { version };
+	},
+});
+
+/**
+ * Steps after `since`, oldest first. When some of them have been pruned the
+ * caller gets the current body to start over from instead.
+ */
+export const steps = query({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		since: v.number(),
+	},
+	handler: async (ctx, { orgId, draftId, since }) => {
+		await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) return null;
+		const rows = await ctx.db
+			.query("draftSteps")
+			.withIndex("by_draft", (q) =>
+				q.eq("draftId", draftId).gt("version", since),
+			)
+			.take(MAX_STEPS_PER_QUERY);
+		const version = draft.version ?? 0;
+		const missed =
+			since > version || (version > since && rows[0]?.version !== since + 1);
+		return {
+			steps: rows.map((s) => ({
+				version: s.version,
+				clientId: s.clientId,
+				op: s.op,
+			})),
+			snapshot: missed ? { body: draft.body, version } : undefined,
+		};
+	},
+});
+
+export const heartbeat = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		clientId: v.string(),
+		version: v.number(),
+		selection: v.optional(v.object({ start: v.number(), end: v.number() })),
+	},
+	handler: async (ctx, { orgId, draftId, clientId, version, selection }) => {
+		const member = await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) {
+			throw new ConvexError("Draft not found");
+		}
+		const now = Date.now();
+		const existing = await ctx.db
+			.query("draftPresence")
+			.withIndex("by_clientId", (q) => q.eq("clientId", clientId))
+			.unique();
+		if (existing) {
+			if (existing.userId !== member.userId) {
+				throw new ConvexError("Forbidden");
+			}
+			await ctx.db.patch(existing._id, { version, selection, lastSeenAt: now });
+		} else {
+			await ctx.db.insert("draftPresence", {
+				draftId,
+				orgId,
+				userId: member.userId,
+				clientId,
+				selection,
+				version,
+				lastSeenAt: now,
+			});
+		}
+		// Tabs that closed without saying goodbye.
+		const rows = await ctx.db
+			.query("draftPresence")
+			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+			.collect();
+		for (const row of rows) {
+			if (now - row.lastSeenAt > PRESENCE_TIMEOUT_MS * 2) {
+				await ctx.db.delete(row._id);
+			}
+		}
+	},
+});
+
+export const leave = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		clientId: v.string(),
+	},
+	handler: async (ctx, { orgId, clientId }) => {
+		const member = await requireOrgMember(ctx, orgId);
+		const existing = await ctx.db
+			.query("draftPresence")
+			.withIndex("by_clientId", (q) => q.eq("clientId", clientId))
+			.unique();
+		if (existing && existing.userId === member.userId) {
+			await ctx.db.delete(existing._id);
+		}
+	},
+});
+
+/**
+ * Everyone with the draft open, with their caret. Staleness is judged by the
+ * caller's clock because queries don't re-run as time passes.
+ */
+export const presence = query({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+	},
+	handler: async (ctx, { orgId, draftId }) => {
+		await requireOrgMember(ctx, orgId);
+		const rows = await ctx.db
+			.query("draftPresence")
+			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+			.collect();
+		const users = new Map<Id<"users">, Doc<"users"> | null>();
+		for (const row of rows) {
+			if (!users.has(row.userId)) {
+				users.set(row.userId, await ctx.db.get(row.userId));
+			}
+		}
+		return rows
+			.filter((row) => row.orgId === orgId)
+			.map((row) => {
+				const user = users.get(row.userId);
+				return {
+					clientId: row.clientId,
+					userId: row.userId,
+					name: user?.name ?? user?.email ?? "Unknown",
+					imageUrl: user?.imageUrl,
+					selection: row.selection,
+					version: row.version,
+					lastSeenAt: row.lastSeenAt,
+				};
+			});
+	},
+});
@@ -0,0 +1,156 @@
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+import { setDraftBody } from "./draftCollab";
+import { requireOrgMember } from "./orgAuth";
+
+export type RevisionReason = Doc<"draftRevisions">["reason"];
+
+// Autosaves closer together than this update the latest revision instead of
+// adding a new one.
+export const AUTOSAVE_REVISION_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_REVISIONS_PER_DRAFT = 100;
+
+/**
+ * Snapshots the draft's current title and body. Consecutive autosaves
+ * within {@link AUTOSAVE_REVISION_INTERVAL_MS} coalesce into one revision.
+ * An autosave identical to the latest revision is skipped; other reasons are
+ * always kept as markers in the history.
+ */
+export async function recordRevision(
+	ctx: MutationCtx,
+	draft: Pick<Doc<"drafts">, "_id" | "orgId" | "title" | "body">,
+	reason: RevisionReason,
+	userId?: Id<"users">,
+): Promise<void> {
+	const now = Date.now();
+	const latest = await ctx.db
+		.query("draftRevisions")
+		.withIndex("by_draft", (q) => q.eq("draftId", draft._id))
+		.order("desc")
+		.first();
+	const unchanged =
+		latest !== null &&
+		latest.title === draft.title &&
+		latest.body === draft.body;
+	if (unchanged && (reason === "autosave" || reason === latest.reason)) {
+		return;
+	}
+	if (
+		reason === "autosave" &&
+		latest?.reason === "autosave" &&
+		latest.createdByUserId === userId &&
+		now - latest.createdAt < AUTOSAVE_REVISION_INTERVAL_MS
+	) {
+		await ctx.db.patch(latest._id, { title: draft.title, body: draft.body });
+		return;
+	}
+	await ctx.db.insert("draftRevisions", {
+		draftId: draft._id,
+		orgId: draft.orgId,
+		title: draft.title,
+		body: draft.body,
+		reason,
+		createdAt: now,
+		createdByUserId: userId,
+	});
+
+	const all = await ctx.db
+		.query("draftRevisions")
+		.withIndex("by_draft", (q) => q.eq("draftId", draft._id))
+		.collect();
+	for (const old of all.slice(0, -MAX_REVISIONS_PER_DRAFT)) {
+		await ctx.db.delete(old._id);
+	}
+}
+
+export async function deleteRevisions(
+	ctx: MutationCtx,
+	draftId: Id<"drafts">,
+): Promise<void> {
+	const revisions = await ctx.db
+		.query("draftRevisions")
+		.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+		.collect();
+	for (const revision of revisions) {
+		await ctx.db.delete(revision._id);
+	}
+}
+
+/** Newest first, with the author's name. Bodies are fetched one at a time via `get`. */
+export const list = query({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+	},
+	handler: async (ctx, { orgId, draftId }) => {
+		await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) return [];
+		const revisions = await ctx.db
+			.query("draftRevisions")
+			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+			.order("desc")
+			.collect();
+		const names = new Map<Id<"users">, string>();
+		for (const r of revisions) {
+			if (!r.createdByUserId || names.has(r.createdByUserId)) continue;
+			const user = await ctx.db.get(r.createdByUserId);
+			names.set(r.createdByUserId, user?.name ?? user?.email ?? "Unknown");
+		}
+		return revisions.map((r) => ({
+			_id: r._id,
+			title: r.title,
+			reason: r.reason,
+			createdAt: r.createdAt,
+			authorName: r.createdByUserId ? names.get(r.createdByUserId) : undefined,
+			length: r.body.length,
+		}));
+	},
+});
+
+export const get = query({
+	args: {
+		orgId: v.id("organizations"),
+		revisionId: v.id("draftRevisions"),
+	},
+	handler: async (ctx, { orgId, revisionId }) => {
+		await requireOrgMember(ctx, orgId);
+		const revision = await ctx.db.get(revisionId);
+		if (!revision || revision.orgId !== orgId) return null;
+		return revision;
+	},
+});
+
+export const restore = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		revisionId: v.id("draftRevisions"),
+	},
+	handler: async (ctx, { orgId, revisionId }) => {
+		const member = await requireOrgMember(ctx, orgId);
+		const revision = await ctx.db.get(revisionId);
+		if (!revision || revision.orgId !== orgId) {
+			throw new ConvexError("Revision not found");
+		}
+		const draft = await ctx.db.get(revision.draftId);
+		if (!draft) throw new ConvexError("Draft not found");
+		if (draft.status === "finalized") {
+			throw new ConvexError(
+				"Draft is finalized. Reopen it before making changes.",
+			);
+		}
+		if (draft.status === "generating") {
+			throw new ConvexError("Draft is still generating");
+		}
+		// Keep the version being replaced so a restore can itself be undone.
+		await recordRevision(ctx, draft, "autosave", member.userId);
+		const restored = { ...draft, title: revision.title, body: revision.body };
+		await setDraftBody(ctx, draft, revision.body, member.userId);
+		await ctx.db.patch(draft._id, {
+			title: restored.title,
+			updatedAt: Date.now(),
+		});
+		await recordRevision(ctx, restored, "restore", member.userId);
+	},
+});
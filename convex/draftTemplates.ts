@@ -0,0 +1,142 @@
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type QueryCtx, mutation, query } from "./_generated/server";
+import { normalizeSections, templateSectionValidator } from "./lib/templates";
+import { requireOrgMember } from "./orgAuth";
+
+const MAX_TEMPLATE_NAME = 60;
+const MAX_TEMPLATES_PER_ORG = 20;
+
+function normalizeTemplateName(name: string): string {
+	const trimmed = name.trim().replace(/\s+/g, " ");
+	if (!trimmed) throw new ConvexError("Template name is required");
+	if (trimmed.length > MAX_TEMPLATE_NAME) {
+		throw new ConvexError(
+			`Template names must be at most ${MAX_TEMPLATE_NAME} characters`,
+		);
+	}
+	return trimmed;
+}
+
+export async function requireTemplate(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	templateId: Id<"draftTemplates">,
+): Promise<Doc<"draftTemplates">> {
+	const template = await ctx.db.get(templateId);
+	if (!template || template.orgId !== orgId) {
+		throw new ConvexError("Template not found");
+	}
+	return template;
+}
+
+async function assertNameFree(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	name: string,
+	exceptId?: Id<"draftTemplates">,
+) {
+	const existing = await ctx.db
+		.query("draftTemplates")
+		.withIndex("by_org", (q) => q.eq("orgId", orgId))
+		.collect();
+	if (
+		existing.some(
+			(t) => t._id !== exceptId && t.name.toLowerCase() === name.toLowerCase(),
+		)
+	) {
+		throw new ConvexError(`A template named "${name}" already exists`);
+	}
+	return existing.length;
+}
+
+export const list = query({
+	args: { orgId: v.id("organizations") },
+	handler: async (ctx, { orgId }) => {
+		await requireOrgMember(ctx, orgId);
+		const rows = await ctx.db
+			.query("draftTemplates")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.collect();
+		return rows.sort((a, b) => a.name.localeCompare(b.name));
+	},
+});
+
+export const create = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		name: v.string(),
+		description: v.optional(v.string()),
+		sections: v.array(templateSectionValidator),
+	},
+	handler: async (ctx, { orgId, name, description, sections }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		const normalized = normalizeTemplateName(name);
+		const count = await assertNameFree(ctx, orgId, normalized);
+		if (count >= MAX_TEMPLATES_PER_ORG) {
+			throw new ConvexError(
+				`At most ${MAX_TEMPLATES_PER_ORG} templates are allowed`,
+			);
+		}
+		const now = Date.now();
+		return await ctx.db.insert("draftTemplates", {
+			orgId,
+			name: normalized,
+			description: description?.trim() || undefined,
+			sections: normalizeSections(sections),
+			createdAt: now,
+			updatedAt: now,
+		});
+	},
+});
+
+export const update = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		templateId: v.id("draftTemplates"),
+		name: v.optional(v.string()),
+		description: v.optional(v.string()),
+		sections: v.optional(v.array(templateSectionValidator)),
+	},
+	handler: async (ctx, { orgId, templateId, name, description, sections }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		await requireTemplate(ctx, orgId, templateId);
+		const patch: Partial<Doc<"draftTemplates">> = { updatedAt: Date.now() };
+		if (name !== undefined) {
+			patch.name = normalizeTemplateName(name);
+			await assertNameFree(ctx, orgId, patch.name, templateId);
+		}
+		if (description !== undefined) {
+			patch.description = description.trim() || undefined;
+		}
+		if (sections !== undefined) {
+			patch.sections = normalizeSections(sections);
+		}
+		await ctx.db.patch(templateId, patch);
+	},
+});
+
+/**
+ * Deletes a template. Drafts written with it keep their section names;
+ * auto-draft schedules using it fall back to the default structure.
+ */
+export const remove = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		templateId: v.id("draftTemplates"),
+	},
+	handler: async (ctx, { orgId, templateId }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		await requireTemplate(ctx, orgId, templateId);
+		const schedules = await ctx.db
+			.query("autoDraftSchedules")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.collect();
+		for (const schedule of schedules) {
+			if (schedule.templateId === templateId) {
+				await ctx.db.patch(schedule._id, { templateId: undefined });
+			}
+		}
+		await ctx.db.delete(templateId);
+	},
+});
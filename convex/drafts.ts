@@ -1,6 +1,9 @@
 import { ConvexError, v } from "convex/values";
 import type { Doc } from "./_generated/dataModel";
 import { mutation, query } from "./_generated/server";
+import { deleteCollabState, setDraftBody } from "./draftCollab";
+import { deleteRevisions, recordRevision } from "./draftRevisions";
+import { requireTemplate } from "./draftTemplates";
 import { requireOrgMember } from "./orgAuth";
 
 const DRAFT_STATUS = v.union(
@@ -10,6 +13,8 @@ const DRAFT_STATUS = v.union(
 	v.literal("reopened"),
 );
 
+type DraftEntry = Doc<"entries"> & { section?: string };
+
 export const get = query({
 	args: {
 		orgId: v.id("organizations"),
@@ -24,14 +29,21 @@ export const get = query({
 			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
 			.collect();
 		const entries = await Promise.all(
-			links.map(async (l): Promise<Doc<"entries"> | null> => {
+			links.map(async (l): Promise<DraftEntry | null> => {
 				const e = await ctx.db.get(l.entryId);
-				return e ?? null;
+				return e ? { ...e, section: l.section } : null;
 			}),
 		);
+		const template = draft.templateId
+			? await ctx.db.get(draft.templateId)
+			: null;
 		return {
 			...draft,
-			entries: entries.filter((e): e is Doc<"entries"> => e !== null),
+			entries: entries.filter((e): e is DraftEntry => e !== null),
+			template:
+				template && template.orgId === orgId
+					? { name: template.name, sections: template.sections }
+					: null,
 		};
 	},
 });
@@ -74,7 +86,7 @@ export const update = mutation({
 		title: v.optional(v.string()),
 	},
 	handler: async (ctx, { orgId, draftId, body, title }) => {
-		await requireOrgMember(ctx, orgId);
+		const member = await requireOrgMember(ctx, orgId);
 		const existing = await ctx.db.get(draftId);
 		if (!existing || existing.orgId !== orgId) {
 			throw new ConvexError("Draft not found");
@@ -84,8 +96,10 @@ export const update = mutation({
 				"Draft is finalized. Reopen it before making changes.",
 			);
 		}
+		if (existing.status === "generating" && body !== undefined) {
+			throw new ConvexError("Draft is still generating");
+		}
 		const patch: Partial<Doc<"drafts">> = { updatedAt: Date.now() };
-		if (body !== undefined) patch.body = body;
 		if (title !== undefined) {
 			const trimmed = title.trim();
 			if (trimmed.length === 0) {
@@ -93,7 +107,60 @@ export const update = mutation({
 			}
 			patch.title = trimmed;
 		}
+		// Body edits from the editor arrive as steps via `draftCollab:submit`;
+		// a whole body sent here becomes one step so open editors rebase.
+		if (body !== undefined) {
+			await setDraftBody(ctx, existing, body, member.userId);
+		}
 		await ctx.db.patch(draftId, patch);
+		await recordRevision(
+			ctx,
+			{ ...existing, ...patch, body: body ?? existing.body },
+			"autosave",
+			member.userId,
+		);
+	},
+});
+
+/** Moves one of a draft's stories to another section of its template. */
+export const setEntrySection = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+		entryId: v.id("entries"),
+		section: v.string(),
+	},
+	handler: async (ctx, { orgId, draftId, entryId, section }) => {
+		await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) {
+			throw new ConvexError("Draft not found");
+		}
+		if (draft.status === "finalized") {
+			throw new ConvexError(
+				"Draft is finalized. Reopen it before making changes.",
+			);
+		}
+		if (!draft.templateId) {
+			throw new ConvexError("This draft wasn't written from a template");
+		}
+		const template = await requireTemplate(ctx, orgId, draft.templateId);
+		const target = template.sections.find((s) => s.name === section);
+		if (!target) throw new ConvexError(`No section named "${section}"`);
+		const links = await ctx.db
+			.query("draftEntries")
+			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
+			.collect();
+		const link = links.find((l) => l.entryId === entryId);
+		if (!link) throw new ConvexError("Story is not part of this draft");
+		if (link.section === section) return;
+		const taken = links.filter((l) => l.section === section).length;
+		if (target.maxEntries !== undefined && taken >= target.maxEntries) {
+			throw new ConvexError(
+				`"${section}" takes at most ${target.maxEntries} ${target.maxEntries === 1 ? "story" : "stories"}`,
+			);
+		}
+		await ctx.db.patch(link._id, { section });
 	},
 });
 
@@ -117,6 +184,7 @@ export const finalize = mutation({
 			finalizedAt: now,
 			updatedAt: now,
 		});
+		await recordRevision(ctx, draft, "finalize", member.userId);
 		const links = await ctx.db
 			.query("draftEntries")
 			.withIndex("by_draft", (q) => q.eq("draftId", draftId))
@@ -134,7 +202,11 @@ export const finalize = mutation({
 	},
 });
 
-export const reopen = mutation({
+/**
+ * Stops a draft that is still generating. Whatever text has streamed in so
+ * far stays as the body, ready to edit.
+ */
+export const cancelGeneration = mutation({
 	args: {
 		orgId: v.id("organizations"),
 		draftId: v.id("drafts"),
@@ -145,9 +217,27 @@ export const reopen = mutation({
 		if (!draft || draft.orgId !== orgId) {
 			throw new ConvexError("Draft not found");
 		}
+		if (draft.status !== "generating") return;
+		await ctx.db.patch(draftId, { status: "ready", updatedAt: Date.now() });
+		await recordRevision(ctx, draft, "generated");
+	},
+});
+
+export const reopen = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		draftId: v.id("drafts"),
+	},
+	handler: async (ctx, { orgId, draftId }) => {
+		const member = await requireOrgMember(ctx, orgId);
+		const draft = await ctx.db.get(draftId);
+		if (!draft || draft.orgId !== orgId) {
+			throw new ConvexError("Draft not found");
+		}
 		if (draft.status !== "finalized") {
 			throw new ConvexError("Only finalized drafts can be reopened");
 		}
+		await recordRevision(ctx, draft, "reopen", member.userId);
 		await ctx.db.patch(draftId, {
 			status: "reopened",
 			finalizedAt: undefined,
@@ -174,6 +264,8 @@ export const remove = mutation({
 		for (const link of links) {
 			await ctx.db.delete(link._id);
 		}
+		await deleteRevisions(ctx, draftId);
+		await deleteCollabState(ctx, draftId);
 		await ctx.db.delete(draftId);
 	},
 });
@@ -1,25 +1,103 @@
 import { type FunctionReference, makeFunctionReference } from "convex/server";
-import { ConvexError, v } from "convex/values";
+import { ConvexError, type Infer, v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import {
+	type QueryCtx,
 	action,
 	internalMutation,
+	internalQuery,
 	mutation,
 	query,
 } from "./_generated/server";
+import { collapseClusters } from "./clusters";
 import { canonicalizeUrl, findOrCreateEntry } from "./dedupe";
 import { requireOrgMember } from "./orgAuth";
+import { type EntryMetadata, entryMetadataFields } from "./sources/adapter";
+import { tagsForEntry } from "./tags";
+
+// Rows a single page may read before it stops and hands back a cursor, so
+// sparse filters can't run a page into the query read limit.
+const MAX_SCANNED_PER_PAGE = 1000;
+
+/**
+ * Where a relevance-sorted page stopped. Scores tie often, so the row's
+ * creation time breaks ties; `relevance` is null once paging has reached the
+ * unscored entries.
+ */
+const relevanceCursorValidator = v.object({
+	relevance: v.union(v.number(), v.null()),
+	creationTime: v.number(),
+});
+type RelevanceCursor = Infer<typeof relevanceCursorValidator>;
+
+function relevanceCursor(doc: Doc<"entries">): RelevanceCursor {
+	return { relevance: doc.relevance ?? null, creationTime: doc._creationTime };
+}
+
+/**
+ * Entries by descending score from `cursor` on, scored ones down to
+ * `minRelevance` first and then the unscored ones, newest first.
+ */
+async function* byRelevance(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	cursor: RelevanceCursor | undefined,
+	minRelevance: number | undefined,
+): AsyncGenerator<Doc<"entries">> {
+	const after = cursor?.relevance ?? null;
+	if (cursor === undefined || after !== null) {
+		if (cursor !== undefined && after !== null) {
+			// The rest of the tie the previous page stopped in.
+			yield* ctx.db
+				.query("entries")
+				.withIndex("by_org_relevance", (ix) =>
+					ix
+						.eq("orgId", orgId)
+						.eq("relevance", after)
+						.lt("_creationTime", cursor.creationTime),
+				)
+				.order("desc");
+		}
+		// Scores are 0–1, so this lower bound also leaves out unscored rows.
+		yield* ctx.db
+			.query("entries")
+			.withIndex("by_org_relevance", (ix) => {
+				const scored = ix
+					.eq("orgId", orgId)
+					.gte("relevance", minRelevance ?? 0);
+				return after === null ? scored : scored.lt("relevance", after);
+			})
+			.order("desc");
+	}
+	yield* ctx.db
+		.query("entries")
+		.withIndex("by_org_relevance", (ix) => {
+			const unscored = ix.eq("orgId", orgId).eq("relevance", undefined);
+			return cursor?.relevance === null
+				? unscored.lt("_creationTime", cursor.creationTime)
+				: unscored;
+		})
+		.order("desc");
+}
 
 export const list = query({
 	args: {
 		orgId: v.id("organizations"),
 		sourceId: v.optional(v.id("sources")),
+		tagId: v.optional(v.id("tags")),
 		used: v.optional(v.boolean()),
 		archived: v.optional(v.boolean()),
 		dateFrom: v.optional(v.number()),
 		dateTo: v.optional(v.number()),
-		cursor: v.optional(v.number()),
+		cursor: v.optional(v.union(v.number(), relevanceCursorValidator)),
 		limit: v.optional(v.number()),
+		// Show one row per story cluster instead of one per entry.
+		collapseClusters: v.optional(v.boolean()),
+		// "relevance" orders by topic-brief score; `cursor` is then a
+		// relevance cursor rather than a fetch time.
+		sort: v.optional(v.union(v.literal("newest"), v.literal("relevance"))),
+		// Entries not yet scored are kept, so nothing vanishes before scoring.
+		minRelevance: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
 		await requireOrgMember(ctx, args.orgId);
@@ -28,26 +106,59 @@ export const list = query({
 		const cursor = args.cursor;
 		const dateTo = args.dateTo;
 		const orgId = args.orgId;
-		let q = ctx.db
-			.query("entries")
-			.withIndex("by_org_fetchedAt", (ix) => {
-				const eq = ix.eq("orgId", orgId);
-				if (dateTo !== undefined) return eq.lte("fetchedAt", dateTo);
-				return eq;
-			})
-			.order("desc");
-
-		if (cursor !== undefined) {
-			q = q.filter((f) => f.lt(f.field("fetchedAt"), cursor));
+		const byScore = args.sort === "relevance";
+		let rows: AsyncIterable<Doc<"entries">>;
+		if (byScore) {
+			rows = byRelevance(
+				ctx,
+				orgId,
+				typeof cursor === "object" ? cursor : undefined,
+				args.minRelevance,
+			);
+		} else {
+			let q = ctx.db
+				.query("entries")
+				.withIndex("by_org_fetchedAt", (ix) => {
+					const eq = ix.eq("orgId", orgId);
+					if (dateTo !== undefined) return eq.lte("fetchedAt", dateTo);
+					return eq;
+				})
+				.order("desc");
+			if (typeof cursor === "number") {
+				q = q.filter((f) => f.lt(f.field("fetchedAt"), cursor));
+			}
+			rows = q;
 		}
 
 		const candidates: { doc: Doc<"entries">; links: Doc<"entrySources">[] }[] = [];
-		let nextCursor: number | null = null;
+		let nextCursor: number | RelevanceCursor | null = null;
+		let scanned = 0;
+		let lastScanned: Doc<"entries"> | undefined;
 
-		for await (const doc of q) {
+		for await (const doc of rows) {
+			if (lastScanned && scanned >= MAX_SCANNED_PER_PAGE) {
+				// Hand back where reading stopped rather than reading on.
+				nextCursor = byScore
+					? relevanceCursor(lastScanned)
+					: lastScanned.fetchedAt;
+				break;
+			}
+			scanned++;
+			lastScanned = doc;
 			if (args.dateFrom !== undefined && doc.fetchedAt < args.dateFrom) {
+				if (byScore) continue;
 				break; // descending order, anything past this is older
 			}
+			if (byScore && dateTo !== undefined && doc.fetchedAt > dateTo) {
+				continue;
+			}
+			if (
+				args.minRelevance !== undefined &&
+				doc.relevance !== undefined &&
+				doc.relevance < args.minRelevance
+			) {
+				continue;
+			}
 			if (args.used !== undefined && doc.used !== args.used) continue;
 			if (args.archived !== undefined && doc.archived !== args.archived) {
 				continue;
@@ -60,9 +171,18 @@ export const list = query({
 					.collect();
 				if (!links.some((l) => l.sourceId === args.sourceId)) continue;
 			}
+			if (args.tagId !== undefined) {
+				const tagId = args.tagId;
+				const tagged = await ctx.db
+					.query("entryTags")
+					.withIndex("by_entry", (ix) => ix.eq("entryId", doc._id))
+					.filter((f) => f.eq(f.field("tagId"), tagId))
+					.first();
+				if (!tagged) continue;
+			}
 			candidates.push({ doc, links: links ?? [] });
 			if (candidates.length >= limit) {
-				nextCursor = doc.fetchedAt;
+				nextCursor = byScore ? relevanceCursor(doc) : doc.fetchedAt;
 				break;
 			}
 		}
@@ -82,6 +202,7 @@ export const list = query({
 				const sources = await Promise.all(sourceIds.map((id) => ctx.db.get(id)));
 				return {
 					...doc,
+					tags: await tagsForEntry(ctx, doc._id),
 					sources: sources
 						.filter((s): s is Doc<"sources"> => s !== null)
 						.map((s) => ({
@@ -94,7 +215,66 @@ export const list = query({
 			}),
 		);
 
-		return { entries, nextCursor };
+		const clusters = new Map<Id<"storyClusters">, Doc<"storyClusters">>();
+		for (const e of entries) {
+			if (!e.clusterId || clusters.has(e.clusterId)) continue;
+			const cluster = await ctx.db.get(e.clusterId);
+			if (cluster) clusters.set(cluster._id, cluster);
+		}
+		const withClusters = entries.map((e) => {
+			const cluster = e.clusterId ? clusters.get(e.clusterId) : undefined;
+			return {
+				...e,
+				cluster: cluster ? { _id: cluster._id, size: cluster.size } : undefined,
+			};
+		});
+
+		return {
+			entries: args.collapseClusters
+				? collapseClusters(
+						withClusters,
+						new Map(
+							[...clusters.values()].map((c) => [
+								c._id,
+								c.representativeEntryId,
+							]),
+						),
+					)
+				: withClusters,
+			nextCursor,
+		};
+	},
+});
+
+export const listClusterMembers = query({
+	args: {
+		orgId: v.id("organizations"),
+		clusterId: v.id("storyClusters"),
+	},
+	handler: async (ctx, { orgId, clusterId }) => {
+		await requireOrgMember(ctx, orgId);
+		const cluster = await ctx.db.get(clusterId);
+		if (!cluster || cluster.orgId !== orgId) return [];
+		const members = await ctx.db
+			.query("entries")
+			.withIndex("by_cluster", (q) => q.eq("clusterId", clusterId))
+			.collect();
+		return await Promise.all(
+			members
+				.sort((a, b) => a.fetchedAt - b.fetchedAt)
+				.map(async (e) => {
+					const source = await ctx.db.get(e.primarySourceId);
+					return {
+						_id: e._id,
+						title: e.title,
+						canonicalUrl: e.canonicalUrl,
+						siteName: e.siteName,
+						primarySourceName: source?.name ?? "Unknown source",
+						fetchedAt: e.fetchedAt,
+						isRepresentative: e._id === cluster.representativeEntryId,
+					};
+				}),
+		);
 	},
 });
 
@@ -122,7 +302,7 @@ export const get = query({
 				};
 			}),
 		);
-		return { ...entry, sources };
+		return { ...entry, sources, tags: await tagsForEntry(ctx, entry._id) };
 	},
 });
 
@@ -171,7 +351,7 @@ export const setArchived = mutation({
 		if (!entry || entry.orgId !== orgId) {
 			throw new ConvexError("Entry not found");
 		}
-		await ctx.db.patch(entryId, { archived });
+		await ctx.db.patch(entryId, { archived, autoArchived: undefined });
 	},
 });
 
@@ -195,23 +375,86 @@ export const _ingestOne = internalMutation({
 		orgId: v.id("organizations"),
 		sourceId: v.id("sources"),
 		originalUrl: v.string(),
+		canonicalUrl: v.optional(v.string()),
 		title: v.string(),
 		snippet: v.optional(v.string()),
 		content: v.optional(v.string()),
 		publishedAt: v.optional(v.number()),
+		...entryMetadataFields,
 	},
 	handler: async (ctx, args) => {
-		const canonicalUrl = canonicalizeUrl(args.originalUrl);
-		return await findOrCreateEntry(ctx, {
-			orgId: args.orgId,
-			sourceId: args.sourceId,
-			canonicalUrl,
-			originalUrl: args.originalUrl,
-			title: args.title,
-			snippet: args.snippet,
-			content: args.content,
-			publishedAt: args.publishedAt,
-		});
+		const org = await ctx.db.get(args.orgId);
+		const canonicalUrl = canonicalizeUrl(
+			args.canonicalUrl ?? args.originalUrl,
+			org?.trackingParams,
+		);
+		return await findOrCreateEntry(ctx, { ...args, canonicalUrl });
+	},
+});
+
+export const _ingestBatch = internalMutation({
+	args: {
+		orgId: v.id("organizations"),
+		sourceId: v.id("sources"),
+		items: v.array(
+			v.object({
+				originalUrl: v.string(),
+				canonicalUrl: v.optional(v.string()),
+				title: v.string(),
+				snippet: v.optional(v.string()),
+				content: v.optional(v.string()),
+				publishedAt: v.optional(v.number()),
+				...entryMetadataFields,
+			}),
+		),
+	},
+	handler: async (ctx, { orgId, sourceId, items }) => {
+		const org = await ctx.db.get(orgId);
+		let created = 0;
+		for (const item of items) {
+			const result = await findOrCreateEntry(ctx, {
+				...item,
+				orgId,
+				sourceId,
+				canonicalUrl: canonicalizeUrl(
+					item.canonicalUrl ?? item.originalUrl,
+					org?.trackingParams,
+				),
+			});
+			if (result.created) created++;
+		}
+		return { created, duplicates: items.length - created };
+	},
+});
+
+// Lets a listing-page source skip links it has already ingested before
+// spending a fetch on them.
+export const _knownSourceUrls = internalQuery({
+	args: {
+		sourceId: v.id("sources"),
+		urls: v.array(v.string()),
+	},
+	handler: async (ctx, { sourceId, urls }) => {
+		const known: string[] = [];
+		for (const url of urls) {
+			const link = await ctx.db
+				.query("entrySources")
+				.withIndex("by_source_originalUrl", (q) =>
+					q.eq("sourceId", sourceId).eq("originalUrl", url),
+				)
+				.first();
+			// Links the source's filters turned away count as seen too.
+			const rejected = link
+				? null
+				: await ctx.db
+						.query("sourceRejectedUrls")
+						.withIndex("by_source_url", (q) =>
+							q.eq("sourceId", sourceId).eq("url", url),
+						)
+						.first();
+			if (link || rejected) known.push(url);
+		}
+		return known;
 	},
 });
 
@@ -242,7 +485,8 @@ export const manualPaste = action({
 				snippet?: string;
 				content?: string;
 				publishedAt?: number;
-			}
+				canonicalUrl?: string;
+			} & EntryMetadata
 		>;
 		const fetched = await ctx.runAction(fetchRef, { url });
 
@@ -255,21 +499,19 @@ export const manualPaste = action({
 				orgId: Id<"organizations">;
 				sourceId: Id<"sources">;
 				originalUrl: string;
+				canonicalUrl?: string;
 				title: string;
 				snippet?: string;
 				content?: string;
 				publishedAt?: number;
-			},
+			} & EntryMetadata,
 			{ entryId: Id<"entries">; created: boolean }
 		>;
 		return await ctx.runMutation(ingestRef, {
 			orgId,
 			sourceId,
 			originalUrl: url,
-			title: fetched.title,
-			snippet: fetched.snippet,
-			content: fetched.content,
-			publishedAt: fetched.publishedAt,
+			...fetched,
 		});
 	},
 });
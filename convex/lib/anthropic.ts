@@ -1,7 +1,13 @@
-import Anthropic from "@anthropic-ai/sdk";
+import Anthropic, {
+	APIConnectionError,
+	APIError,
+	APIUserAbortError,
+} from "@anthropic-ai/sdk";
 
 export const DRAFT_MODEL = "claude-sonnet-4-6";
 export const PROFILE_MODEL = "claude-opus-4-7";
+export const CLASSIFY_MODEL = "claude-haiku-4-5";
+export const SUMMARY_MODEL = "claude-haiku-4-5";
 
 export function getAnthropicClient(): Anthropic {
 	const apiKey = process.env.ANTHROPIC_API_KEY;
@@ -14,3 +20,19 @@ export function getAnthropicClient(): Anthropic {
 export function isAnthropicConfigured(): boolean {
 	return Boolean(process.env.ANTHROPIC_API_KEY);
 }
+
+const RETRYABLE_ERROR_TYPES = new Set([
+	"rate_limit_error",
+	"overloaded_error",
+	"api_error",
+	"timeout_error",
+]);
+
+/** Whether a failed request is worth trying again a little later. */
+export function isRetryableError(err: unknown): boolean {
+	if (err instanceof APIUserAbortError) return false;
+	if (err instanceof APIConnectionError) return true;
+	if (!(err instanceof APIError)) return false;
+	if (err.type && RETRYABLE_ERROR_TYPES.has(err.type)) return true;
+	return err.status === 429 || (err.status ?? 0) >= 500;
+}
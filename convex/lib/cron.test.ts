@@ -0,0 +1,171 @@
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, nextCronRun, nextCronRuns, parseCron } from "./cron";
+
+function runs(cron: string, after: string, timeZone: string, count: number) {
+	return nextCronRuns(parseCron(cron), Date.parse(after), timeZone, count).map(
+		(t) => new Date(t).toISOString(),
+	);
+}
+
+describe("parseCron", () => {
+	const bad = [
+		"",
+		"0 9 * *",
+		"0 9 * * * *",
+		"60 9 * * *",
+		"0 24 * * *",
+		"0 9 0 * *",
+		"0 9 * 13 *",
+		"0 9 * * 8",
+		"0 9 * * FUN",
+		"0 9 5-1 * *",
+		"*/0 9 * * *",
+		"0 9 * * MON#6",
+		"0 9 * * MON#1#2",
+		"0 9 ,1 * *",
+		"@fortnightly",
+	];
+	for (const cron of bad) {
+		it(`rejects "${cron}"`, () => {
+			expect(() => parseCron(cron)).toThrow(ConvexError);
+		});
+	}
+
+	it("expands ranges, steps, lists and names", () => {
+		const s = parseCron("0-30/10 9,17 */10 JAN-MAR mon-fri");
+		expect(s.minutes).toEqual([0, 10, 20, 30]);
+		expect(s.hours).toEqual([9, 17]);
+		expect([...s.daysOfMonth]).toEqual([1, 11, 21, 31]);
+		expect([...s.months]).toEqual([1, 2, 3]);
+		expect([...s.weekdays]).toEqual([1, 2, 3, 4, 5]);
+		expect(s.domRestricted).toBe(false);
+		expect(s.dowRestricted).toBe(true);
+	});
+
+	it("treats 7 as Sunday", () => {
+		expect([...parseCron("0 9 * * 7").weekdays]).toEqual([0]);
+	});
+
+	it("expands macros", () => {
+		expect(parseCron("@weekly")).toEqual(parseCron("0 0 * * 0"));
+	});
+});
+
+describe("nextCronRuns", () => {
+	const cases: {
+		name: string;
+		cron: string;
+		after: string;
+		timeZone: string;
+		expected: string[];
+	}[] = [
+		{
+			name: "weekdays only, skipping the weekend",
+			cron: "0 9 * * 1-5",
+			after: "2026-10-16T12:00:00Z",
+			timeZone: "Europe/London",
+			expected: [
+				"2026-10-19T08:00:00.000Z",
+				"2026-10-20T08:00:00.000Z",
+				"2026-10-21T08:00:00.000Z",
+			],
+		},
+		{
+			name: "twice a week",
+			cron: "0 9 * * MON,THU",
+			after: "2026-10-19T10:00:00Z",
+			timeZone: "UTC",
+			expected: [
+				"2026-10-22T09:00:00.000Z",
+				"2026-10-26T09:00:00.000Z",
+				"2026-10-29T09:00:00.000Z",
+			],
+		},
+		{
+			name: "the first Monday of the month",
+			cron: "0 9 * * MON#1",
+			after: "2026-10-19T00:00:00Z",
+			timeZone: "UTC",
+			expected: ["2026-11-02T09:00:00.000Z", "2026-12-07T09:00:00.000Z"],
+		},
+		{
+			name: "either day field when both are restricted",
+			cron: "0 0 13 * FRI",
+			after: "2026-10-01T00:00:00Z",
+			timeZone: "UTC",
+			expected: [
+				"2026-10-02T00:00:00.000Z",
+				"2026-10-09T00:00:00.000Z",
+				"2026-10-13T00:00:00.000Z",
+			],
+		},
+		{
+			name: "several times within a day",
+			cron: "*/20 9 * * *",
+			after: "2026-10-19T09:00:00Z",
+			timeZone: "UTC",
+			expected: ["2026-10-19T09:20:00.000Z", "2026-10-19T09:40:00.000Z"],
+		},
+		{
+			name: "in the org's timezone across the date line",
+			cron: "30 8 * * *",
+			after: "2026-10-19T00:00:00Z",
+			timeZone: "Pacific/Auckland",
+			expected: ["2026-10-19T19:30:00.000Z", "2026-10-20T19:30:00.000Z"],
+		},
+		{
+			name: "an hour late for times skipped by spring-forward",
+			cron: "30 2 * * *",
+			after: "2026-03-07T12:00:00Z",
+			timeZone: "America/New_York",
+			expected: ["2026-03-08T07:30:00.000Z", "2026-03-09T06:30:00.000Z"],
+		},
+		{
+			name: "once for times repeated by fall-back",
+			cron: "30 1 * * *",
+			after: "2026-10-31T12:00:00Z",
+			timeZone: "America/New_York",
+			expected: ["2026-11-01T05:30:00.000Z", "2026-11-02T06:30:00.000Z"],
+		},
+		{
+			name: "hourly without repeating the fall-back hour",
+			cron: "0 * * * *",
+			after: "2026-11-01T04:30:00Z",
+			timeZone: "America/New_York",
+			expected: [
+				"2026-11-01T05:00:00.000Z",
+				"2026-11-01T07:00:00.000Z",
+				"2026-11-01T08:00:00.000Z",
+			],
+		},
+	];
+	for (const c of cases) {
+		it(`runs ${c.name}`, () => {
+			expect(runs(c.cron, c.after, c.timeZone, c.expected.length)).toEqual(
+				c.expected,
+			);
+		});
+	}
+
+	it("excludes the start time itself", () => {
+		expect(runs("0 9 * * *", "2026-10-19T09:00:00Z", "UTC", 1)).toEqual([
+			"2026-10-20T09:00:00.000Z",
+		]);
+	});
+
+	it("returns nothing for dates that never happen", () => {
+		expect(
+			nextCronRun(parseCron("0 0 30 2 *"), Date.parse("2026-01-01"), "UTC"),
+		).toBeNull();
+		expect(runs("0 0 31 4 *", "2026-01-01T00:00:00Z", "UTC", 5)).toEqual([]);
+	});
+});
+
+describe("isValidTimeZone", () => {
+	it("accepts IANA names and rejects anything else", () => {
+		expect(isValidTimeZone("America/New_York")).toBe(true);
+		expect(isValidTimeZone("UTC")).toBe(true);
+		expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+	});
+});
@@ -0,0 +1,295 @@
+import { ConvexError } from "convex/values";
+
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in an IANA timezone.
+ *
+ * Fields take `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and
+ * comma-separated lists. Months and weekdays also take names (`JAN`, `MON`),
+ * Sunday is 0 or 7, and `MON#1` means the first Monday of the month. As in
+ * classic cron, a day matches when either day field does if both are
+ * restricted.
+ *
+ * Across DST changes, times skipped by the spring-forward jump run an hour
+ * late and times repeated by the fall-back run once, at the first occurrence.
+ */
+
+export interface CronSchedule {
+	minutes: number[];
+	hours: number[];
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	weekdays: Set<number>;
+	// Weekdays restricted to their nth occurrence in the month, from `MON#1`.
+	nthWeekdays: { weekday: number; nth: number }[];
+	domRestricted: boolean;
+	dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+	"@hourly": "0 * * * *",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@weekly": "0 0 * * 0",
+	"@monthly": "0 0 1 * *",
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = [
+	"JAN",
+	"FEB",
+	"MAR",
+	"APR",
+	"MAY",
+	"JUN",
+	"JUL",
+	"AUG",
+	"SEP",
+	"OCT",
+	"NOV",
+	"DEC",
+];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+	label: string;
+	min: number;
+	max: number;
+	// Names for min, min + 1, …
+	names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+	{ label: "minute", min: 0, max: 59 },
+	{ label: "hour", min: 0, max: 23 },
+	{ label: "day of month", min: 1, max: 31 },
+	{ label: "month", min: 1, max: 12, names: MONTH_NAMES },
+	{ label: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+// How far ahead to look for a run before giving up (e.g. "0 0 30 2 *").
+const MAX_DAYS_AHEAD = 5 * 366;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Covers every UTC offset, so samples this far out are outside the local day.
+const OFFSET_MARGIN_MS = 14 * 60 * MINUTE_MS;
+
+function parseValue(text: string, spec: FieldSpec): number {
+	const named = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+	if (named < 0 && !/^\d+$/.test(text)) {
+		throw new ConvexError(`"${text}" is not a valid ${spec.label}`);
+	}
+	const value = named >= 0 ? spec.min + named : Number(text);
+	if (value < spec.min || value > spec.max) {
+		throw new ConvexError(
+			`The ${spec.label} must be between ${spec.min} and ${spec.max}`,
+		);
+	}
+	return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+	const values = new Set<number>();
+	for (const part of text.split(",")) {
+		const [range, stepText, extra] = part.split("/");
+		if (extra !== undefined || range === "") {
+			throw new ConvexError(`"${part}" is not a valid ${spec.label}`);
+		}
+		let step = 1;
+		if (stepText !== undefined) {
+			step = Number(stepText);
+			if (!/^\d+$/.test(stepText) || step < 1) {
+				throw new ConvexError(`"${part}" has an invalid step`);
+			}
+		}
+		let from: number;
+		let to: number;
+		if (range === "*") {
+			from = spec.min;
+			to = spec.max;
+		} else if (range.includes("-")) {
+			const [a, b] = range.split("-");
+			from = parseValue(a, spec);
+			to = parseValue(b, spec);
+			if (from > to) {
+				throw new ConvexError(`"${part}" is an empty ${spec.label} range`);
+			}
+		} else {
+			from = parseValue(range, spec);
+			// "5/15" means every 15 starting at 5.
+			to = stepText === undefined ? from : spec.max;
+		}
+		for (let v = from; v <= to; v += step) values.add(v);
+	}
+	return values;
+}
+
+/** Parses a cron expression, throwing a ConvexError that says what's wrong. */
+export function parseCron(expression: string): CronSchedule {
+	const trimmed = expression.trim();
+	const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+	if (fields.length !== 5) {
+		throw new ConvexError(
+			"Cron expressions need 5 fields: minute hour day-of-month month day-of-week",
+		);
+	}
+	const [minuteText, hourText, domText, monthText, dowText] = fields;
+
+	const weekdays = new Set<number>();
+	const nthWeekdays: CronSchedule["nthWeekdays"] = [];
+	for (const part of dowText.split(",")) {
+		const [day, nthText, extra] = part.split("#");
+		if (nthText === undefined) {
+			for (const d of parseField(part, FIELDS[4])) weekdays.add(d % 7);
+			continue;
+		}
+		const nth = Number(nthText);
+		if (extra !== undefined || !/^[1-5]$/.test(nthText)) {
+			throw new ConvexError(`"${part}" needs a week number from 1 to 5`);
+		}
+		nthWeekdays.push({ weekday: parseValue(day, FIELDS[4]) % 7, nth });
+	}
+
+	return {
+		minutes: [...parseField(minuteText, FIELDS[0])].sort((a, b) => a - b),
+		hours: [...parseField(hourText, FIELDS[1])].sort((a, b) => a - b),
+		daysOfMonth: parseField(domText, FIELDS[2]),
+		months: parseField(monthText, FIELDS[3]),
+		weekdays,
+		nthWeekdays,
+		domRestricted: !domText.startsWith("*"),
+		dowRestricted: !dowText.startsWith("*"),
+	};
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The wall-clock date and time at `ms` in `timeZone`. */
+function wallClock(ms: number, timeZone: string) {
+	let format = formatters.get(timeZone);
+	if (!format) {
+		format = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+		});
+		formatters.set(timeZone, format);
+	}
+	const parts: Record<string, number> = {};
+	for (const p of format.formatToParts(ms)) {
+		if (p.type !== "literal") parts[p.type] = Number(p.value);
+	}
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		hour: parts.hour,
+		minute: parts.minute,
+	};
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `ms`. */
+function offsetAt(ms: number, timeZone: string): number {
+	const w = wallClock(ms, timeZone);
+	const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+	return asUtc - Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * The instant a wall-clock time (given as if it were UTC) happens in
+ * `timeZone`, on a day whose offset changes from `before` to `after`.
+ */
+function resolveWallTime(
+	wall: number,
+	before: number,
+	after: number,
+	timeZone: string,
+): number {
+	const matches = [wall - before, wall - after].filter(
+		(t) => t + offsetAt(t, timeZone) === wall,
+	);
+	// Repeated times resolve to the first occurrence. Skipped ones keep the
+	// old offset, which lands them just after the jump.
+	return matches.length > 0 ? Math.min(...matches) : wall - before;
+}
+
+function dayMatches(s: CronSchedule, date: Date): boolean {
+	if (!s.months.has(date.getUTCMonth() + 1)) return false;
+	const day = date.getUTCDate();
+	const weekday = date.getUTCDay();
+	const dom = s.daysOfMonth.has(day);
+	const dow =
+		s.weekdays.has(weekday) ||
+		s.nthWeekdays.some(
+			(n) => n.weekday === weekday && Math.ceil(day / 7) === n.nth,
+		);
+	// When both day fields are given, either may match.
+	return s.domRestricted && s.dowRestricted ? dom || dow : dom && dow;
+}
+
+/**
+ * The first time after `after` (exclusive) the schedule fires in `timeZone`,
+ * or null if it never does in the next few years.
+ */
+export function nextCronRun(
+	schedule: CronSchedule,
+	after: number,
+	timeZone: string,
+): number | null {
+	const start = wallClock(after, timeZone);
+	for (let i = 0; i <= MAX_DAYS_AHEAD; i++) {
+		const date = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+		if (!dayMatches(schedule, date)) continue;
+		const midnight = date.getTime();
+		// Offsets either side of the local day; they differ on DST days.
+		const dayStart = offsetAt(midnight - OFFSET_MARGIN_MS, timeZone);
+		const dayEnd = offsetAt(midnight + DAY_MS + OFFSET_MARGIN_MS, timeZone);
+		let best: number | null = null;
+		for (const hour of schedule.hours) {
+			for (const minute of schedule.minutes) {
+				const wall = midnight + (hour * 60 + minute) * MINUTE_MS;
+				const t =
+					dayStart === dayEnd
+						? wall - dayStart
+						: resolveWallTime(wall, dayStart, dayEnd, timeZone);
+				if (t > after && (best === null || t < best)) best = t;
+				// Without a DST change times only increase, so the first hit wins.
+				if (best !== null && dayStart === dayEnd) return best;
+			}
+		}
+		if (best !== null) return best;
+	}
+	return null;
+}
+
+/** The next `count` run times after `after`. */
+export function nextCronRuns(
+	schedule: CronSchedule,
+	after: number,
+	timeZone: string,
+	count: number,
+): number[] {
+	const runs: number[] = [];
+	let from = after;
+	while (runs.length < count) {
+		const next = nextCronRun(schedule, from, timeZone);
+		if (next === null) break;
+		runs.push(next);
+		from = next;
+	}
+	return runs;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+	type PromptEntry,
+	buildDraftPrompt,
+	groupByTag,
+	toneOfVoiceBlock,
+	withGenerationError,
+} from "./draftPrompt";
+
+function entry(id: string, tags: string[] = []): PromptEntry {
+	return {
+		_id: id as Id<"entries">,
+		title: `Story ${id}`,
+		canonicalUrl: `https://example.com/${id}`,
+		primarySourceName: "Example",
+		tags: tags.map((name) => ({ name })),
+	};
+}
+
+describe("groupByTag", () => {
+	it("groups by first tag in order of appearance, untagged last", () => {
+		const entries = [
+			{ id: "a", tags: [] },
+			{ id: "b", tags: [{ name: "Policy" }, { name: "Funding" }] },
+			{ id: "c", tags: [{ name: "Funding" }] },
+			{ id: "d", tags: [{ name: "Policy" }] },
+		];
+		expect(
+			groupByTag(entries).map((s) => [s.tag, s.entries.map((e) => e.id)]),
+		).toEqual([
+			["Policy", ["b", "d"]],
+			["Funding", ["c"]],
+			[null, ["a"]],
+		]);
+	});
+});
+
+describe("toneOfVoiceBlock", () => {
+	it("lists do and don't examples one per line", () => {
+		const profile = {
+			summary: "Dry and brief.",
+			voiceAttributes: ["wry"],
+			doExamples: ["Use numbers", "Name names"],
+			dontExamples: ["Hype"],
+		} as Doc<"ghostWriterProfiles">;
+		expect(toneOfVoiceBlock(profile)).toBe(
+			[
+				"# Tone of voice",
+				"Dry and brief.",
+				"Voice attributes: wry",
+				"Do:\n- Use numbers\n- Name names",
+				"Don't:\n- Hype",
+			].join("\n\n"),
+		);
+	});
+});
+
+describe("buildDraftPrompt", () => {
+	const entries = [entry("a", ["Policy"]), entry("b")];
+	const cases: {
+		name: string;
+		input: Parameters<typeof buildDraftPrompt>[0];
+		system: string[];
+		user: string[];
+	}[] = [
+		{
+			name: "covers the stories in order by default",
+			input: { entries, profile: null, template: null },
+			system: ["You are a newsletter ghostwriter. Write", "opening hook"],
+			user: [
+				"# Stories to cover (in order)\n\n## Story 1: Story a",
+				"No tone-of-voice profile is configured",
+			],
+		},
+		{
+			name: "groups stories by tag",
+			input: { entries, profile: null, template: null, groupByTag: true },
+			system: ["grouped into sections"],
+			user: [
+				"# Section: Policy\n\n## Story 1",
+				"# Section: Other\n\n## Story 2",
+			],
+		},
+		{
+			name: "follows a template over tag grouping",
+			input: {
+				entries,
+				profile: null,
+				groupByTag: true,
+				template: {
+					name: "Weekly",
+					groups: [
+						{ section: { name: "Top story" }, entries: [entries[1]] },
+						{ section: { name: "Quick hits" }, entries: [entries[0]] },
+					],
+				},
+			},
+			system: ["Follow the newsletter template"],
+			user: [
+				"# Newsletter template: Weekly",
+				"# Section 1: Top story\n\n## Story 1: Story b",
+			],
+		},
+		{
+			name: "marks scheduled drafts as automated",
+			input: { entries, profile: null, template: null, automated: true },
+			system: ["automated overnight draft for review"],
+			user: [],
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			const { system, user } = buildDraftPrompt(c.input);
+			for (const part of c.system) expect(system).toContain(part);
+			for (const part of c.user) expect(user).toContain(part);
+		});
+	}
+
+	it("doesn't group by tag when a template is given", () => {
+		const { user } = buildDraftPrompt({
+			entries,
+			profile: null,
+			groupByTag: true,
+			template: {
+				name: "Weekly",
+				groups: [{ section: { name: "All" }, entries }],
+			},
+		});
+		expect(user).not.toContain("# Section: Policy");
+	});
+});
+
+describe("withGenerationError", () => {
+	it("notes the error after any text already written", () => {
+		expect(withGenerationError("", "Overloaded")).toBe(
+			"GENERATION ERROR: Overloaded",
+		);
+		expect(withGenerationError("Intro", "Overloaded")).toBe(
+			"Intro\n\nGENERATION ERROR: Overloaded",
+		);
+	});
+});
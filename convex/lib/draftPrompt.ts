@@ -0,0 +1,163 @@
+import { type Infer, v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import { type EntrySummary, summaryForPrompt } from "./summary";
+import {
+	type SectionGroup,
+	TEMPLATE_INSTRUCTIONS,
+	renderTemplate,
+} from "./templates";
+
+/**
+ * Starts the body of a draft whose generation failed or was skipped; the
+ * editor looks for it to flag the draft.
+ */
+export const GENERATION_ERROR_MARKER = "GENERATION ERROR:";
+
+/** Tokens spent writing a draft, summed over retries. */
+export const generationUsageValidator = v.object({
+	model: v.string(),
+	inputTokens: v.number(),
+	outputTokens: v.number(),
+	attempts: v.number(),
+});
+export type GenerationUsage = Infer<typeof generationUsageValidator>;
+
+export interface PromptEntry {
+	_id: Id<"entries">;
+	title: string;
+	snippet?: string;
+	content?: string;
+	canonicalUrl: string;
+	primarySourceName: string;
+	author?: string;
+	siteName?: string;
+	summary?: EntrySummary;
+	tags: { name: string }[];
+}
+
+/** Everything a newsletter draft is written from. */
+export interface DraftPromptInput {
+	entries: PromptEntry[];
+	profile: Doc<"ghostWriterProfiles"> | null;
+	template: { name: string; groups: SectionGroup<PromptEntry>[] } | null;
+	// Organise the draft into one section per entry tag. Ignored when a
+	// template is given.
+	groupByTag?: boolean;
+	// Scheduled drafts are written unattended and wait for review.
+	automated?: boolean;
+}
+
+export function renderStory(e: PromptEntry, n: number): string {
+	const parts = [
+		`## Story ${n}: ${e.title}`,
+		`Source: ${e.primarySourceName}`,
+		`URL: ${e.canonicalUrl}`,
+	];
+	if (e.siteName) parts.push(`Publication: ${e.siteName}`);
+	if (e.author) parts.push(`Author: ${e.author}`);
+	if (e.tags.length > 0)
+		parts.push(`Tags: ${e.tags.map((t) => t.name).join(", ")}`);
+	if (e.snippet) parts.push(`Snippet: ${e.snippet}`);
+	if (e.summary) parts.push(`Summary:\n${summaryForPrompt(e.summary)}`);
+	else if (e.content) parts.push(`Content:\n${e.content}`);
+	return parts.join("\n");
+}
+
+/**
+ * Splits entries into sections by their first tag, in order of first
+ * appearance. Untagged entries come last under a `null` tag.
+ */
+export function groupByTag<T extends { tags: { name: string }[] }>(
+	entries: T[],
+): { tag: string | null; entries: T[] }[] {
+	const sections = new Map<string | null, T[]>();
+	const untagged: T[] = [];
+	for (const entry of entries) {
+		const tag = entry.tags[0]?.name;
+		if (tag === undefined) {
+			untagged.push(entry);
+			continue;
+		}
+		const section = sections.get(tag);
+		if (section) section.push(entry);
+		else sections.set(tag, [entry]);
+	}
+	const out = [...sections].map(([tag, list]) => ({ tag, entries: list }));
+	if (untagged.length > 0) out.push({ tag: null, entries: untagged });
+	return out;
+}
+
+/** The ghost-writer profile as a prompt section. */
+export function toneOfVoiceBlock(
+	profile: Doc<"ghostWriterProfiles"> | null,
+): string {
+	return profile
+		? [
+				"# Tone of voice",
+				profile.summary,
+				profile.voiceAttributes.length > 0
+					? `Voice attributes: ${profile.voiceAttributes.join(", ")}`
+					: "",
+				profile.doExamples.length > 0
+					? `Do:\n${profile.doExamples.map((d) => `- ${d}`).join("\n")}`
+					: "",
+				profile.dontExamples.length > 0
+					? `Don't:\n${profile.dontExamples.map((d) => `- ${d}`).join("\n")}`
+					: "",
+			]
+				.filter(Boolean)
+				.join("\n\n")
+		: "# Tone of voice\nNo tone-of-voice profile is configured. Use a friendly, clear, professional newsletter voice — direct, lightly opinionated, never gushing.";
+}
+
+const DEFAULT_STRUCTURE =
+	"Include a strong opening hook, cover each provided story with a clear paragraph or short section, add a brief closing.";
+
+const TAG_STRUCTURE =
+	"Stories are grouped into sections: give each section its own heading named after it, and cover its stories under that heading.";
+
+/** The prompt for writing a whole newsletter draft. */
+export function buildDraftPrompt(input: DraftPromptInput): {
+	system: string;
+	user: string;
+} {
+	let structure: string;
+	let stories: string;
+	if (input.template) {
+		structure = TEMPLATE_INSTRUCTIONS;
+		stories = renderTemplate(
+			input.template.name,
+			input.template.groups,
+			renderStory,
+		);
+	} else if (input.groupByTag) {
+		let n = 0;
+		structure = `${DEFAULT_STRUCTURE} ${TAG_STRUCTURE}`;
+		stories = `# Stories to cover (in order)\n\n${groupByTag(input.entries)
+			.map((section) => {
+				const body = section.entries
+					.map((e) => renderStory(e, ++n))
+					.join("\n\n---\n\n");
+				return `# Section: ${section.tag ?? "Other"}\n\n${body}`;
+			})
+			.join("\n\n")}`;
+	} else {
+		structure = DEFAULT_STRUCTURE;
+		stories = `# Stories to cover (in order)\n\n${input.entries
+			.map((e, i) => renderStory(e, i + 1))
+			.join("\n\n---\n\n")}`;
+	}
+
+	const role = input.automated
+		? "You are a newsletter ghostwriter generating an automated overnight draft for review."
+		: "You are a newsletter ghostwriter.";
+	const system = `${role} Write the draft in markdown, ready to drop into an editor. ${structure} Link to the original story URLs inline. Credit the author or publication where one is given. Do not invent facts beyond the supplied material.`;
+	const user = `${toneOfVoiceBlock(input.profile)}\n\n${stories}\n\nWrite the full newsletter draft now. Output markdown only — no preamble.`;
+	return { system, user };
+}
+
+/** Appends a generation failure to whatever text was written before it. */
+export function withGenerationError(body: string, message: string): string {
+	const note = `${GENERATION_ERROR_MARKER} ${message}`;
+	return body ? `${body}\n\n${note}` : note;
+}
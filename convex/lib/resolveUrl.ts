@@ -0,0 +1,54 @@
+import { canonicalFromHtml } from "../dedupe";
+
+// Shorteners and feed proxies whose links only reveal the article after a
+// redirect. Other URLs are trusted as-is so ingest doesn't fetch every page.
+const REDIRECTOR_HOSTS = new Set([
+	"t.co",
+	"bit.ly",
+	"buff.ly",
+	"dlvr.it",
+	"ow.ly",
+	"lnkd.in",
+	"trib.al",
+	"tinyurl.com",
+	"feedproxy.google.com",
+	"feeds.feedburner.com",
+	"news.google.com",
+]);
+
+const RESOLVE_TIMEOUT_MS = 8000;
+
+export function needsResolution(url: string): boolean {
+	try {
+		return REDIRECTOR_HOSTS.has(new URL(url).hostname.toLowerCase());
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Follows redirects and returns the page's canonical URL (or the final URL
+ * when the page declares none). Returns undefined on any failure so callers
+ * fall back to the link they already have.
+ */
+export async function resolveUrl(url: string): Promise<string | undefined> {
+	try {
+		const res = await fetch(url, {
+			redirect: "follow",
+			headers: { accept: "text/html,application/xhtml+xml" },
+			signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+		});
+		if (!res.ok) return undefined;
+		const finalUrl = res.url || url;
+		const type = res.headers.get("content-type") ?? "";
+		if (!type.includes("html")) return finalUrl;
+		const html = await res.text();
+		// Google News article pages don't redirect; they embed the target.
+		const embedded = /\bdata-n-au=["']([^"']+)["']/.exec(html)?.[1];
+		if (embedded && /^https?:\/\//i.test(embedded)) return embedded;
+		return canonicalFromHtml(html, finalUrl) ?? finalUrl;
+	} catch (err) {
+		console.warn(`Could not resolve ${url}:`, err);
+		return undefined;
+	}
+}
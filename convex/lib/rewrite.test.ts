@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildRewritePrompt,
+	fitToSelection,
+	locateSelection,
+	parseRewriteReply,
+} from "./rewrite";
+
+describe("parseRewriteReply", () => {
+	const cases: {
+		name: string;
+		input: string;
+		expected: ReturnType<typeof parseRewriteReply>;
+	}[] = [
+		{
+			name: "reads text and notes",
+			input: '{"text": "Shorter.", "notes": ["Dropped the second quote"]}',
+			expected: { text: "Shorter.", notes: ["Dropped the second quote"] },
+		},
+		{
+			name: "ignores code fences and bad notes",
+			input:
+				'```json\n{"text": " Fixed. ", "notes": ["", 4, " Date was wrong "]}\n```',
+			expected: { text: "Fixed.", notes: ["Date was wrong"] },
+		},
+		{
+			name: "defaults missing notes",
+			input: '{"text": "Hi"}',
+			expected: { text: "Hi", notes: [] },
+		},
+		{ name: "rejects empty text", input: '{"text": "  "}', expected: null },
+		{ name: "rejects prose", input: "Sure! Here you go.", expected: null },
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(parseRewriteReply(c.input)).toEqual(c.expected);
+		});
+	}
+});
+
+describe("fitToSelection", () => {
+	const cases: {
+		name: string;
+		selection: string;
+		suggestion: string;
+		expected: string;
+	}[] = [
+		{
+			name: "keeps the paragraph break after the selection",
+			selection: "Old paragraph.\n\n",
+			suggestion: "New paragraph.",
+			expected: "New paragraph.\n\n",
+		},
+		{
+			name: "keeps leading indentation",
+			selection: "  - item",
+			suggestion: "- better item\n",
+			expected: "  - better item",
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(fitToSelection(c.selection, c.suggestion)).toBe(c.expected);
+		});
+	}
+});
+
+describe("buildRewritePrompt", () => {
+	it("includes source stories only when given", () => {
+		const base = {
+			selection: "Acme raised $40M.",
+			before: "",
+			after: "More news.",
+			voice: "# Tone of voice\nDry.",
+		};
+		const shorten = buildRewritePrompt({ ...base, action: "shorten" });
+		expect(shorten.user).not.toContain("# Source stories");
+		expect(shorten.user).toContain("(start of draft)");
+
+		const check = buildRewritePrompt({
+			...base,
+			action: "factcheck",
+			sources: "## Story 1: Acme",
+		});
+		expect(check.user).toContain("# Source stories\n\n## Story 1: Acme");
+		expect(check.system).toContain("could not verify");
+	});
+});
+
+describe("locateSelection", () => {
+	const body = "Acme grew. Then Acme grew. Finally Acme grew.";
+
+	it("keeps the selection where it still is", () => {
+		expect(locateSelection(body, "Acme grew", 16)).toBe(16);
+	});
+
+	it("follows the selection to the nearest occurrence after an edit", () => {
+		expect(locateSelection(`Hi. ${body}`, "Acme grew", 16)).toBe(20);
+		expect(locateSelection(body.slice(5), "Acme grew", 35)).toBe(30);
+	});
+
+	it("returns -1 when the text is gone", () => {
+		expect(locateSelection(body, "Acme shrank", 0)).toBe(-1);
+		expect(locateSelection(body, "", 0)).toBe(-1);
+	});
+});
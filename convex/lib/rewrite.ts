@@ -0,0 +1,115 @@
+import { type Infer, v } from "convex/values";
+
+const MAX_NOTES = 10;
+
+export const rewriteActionValidator = v.union(
+	v.literal("shorten"),
+	v.literal("expand"),
+	v.literal("rephrase"),
+	v.literal("transition"),
+	v.literal("factcheck"),
+);
+export type RewriteAction = Infer<typeof rewriteActionValidator>;
+
+/** Actions whose prompt includes the draft's source stories. */
+export const ACTIONS_WITH_SOURCES: ReadonlySet<RewriteAction> = new Set([
+	"expand",
+	"factcheck",
+]);
+
+const INSTRUCTIONS: Record<RewriteAction, string> = {
+	shorten:
+		"Shorten the selected passage to about half its length. Keep the key facts, the links and the writer's voice.",
+	expand:
+		"Expand the selected passage to about twice its length with more detail and context, using only facts from the source stories.",
+	rephrase:
+		"Rephrase the selected passage in the house voice described above. Keep its meaning, facts and links.",
+	transition:
+		"Keep the selected passage as it is and add one or two sentences to its end that lead naturally into the text after it.",
+	factcheck:
+		"Check every factual claim in the selected passage against the source stories. Correct anything they contradict and leave everything else word for word.",
+};
+
+export interface RewriteSuggestion {
+	text: string;
+	notes: string[];
+}
+
+export function buildRewritePrompt(args: {
+	action: RewriteAction;
+	selection: string;
+	before: string;
+	after: string;
+	voice: string;
+	sources?: string;
+}): { system: string; user: string } {
+	const notes =
+		args.action === "factcheck"
+			? "List each claim you corrected or could not verify in notes."
+			: "Leave notes empty unless something needs the editor's attention.";
+	const system = `You are a newsletter editor making one targeted edit to part of a draft. ${INSTRUCTIONS[args.action]} The passage is markdown; keep its formatting and do not invent facts. Reply with JSON only: {"text": "<replacement for the selected passage>", "notes": ["<short note>"]}. ${notes}`;
+	const parts = [args.voice];
+	if (args.sources) parts.push(`# Source stories\n\n${args.sources}`);
+	parts.push(
+		`# Text before the selection\n\n${args.before || "(start of draft)"}`,
+		`# Selected passage\n\n${args.selection}`,
+		`# Text after the selection\n\n${args.after || "(end of draft)"}`,
+	);
+	return { system, user: parts.join("\n\n") };
+}
+
+/**
+ * Reads the editor's JSON reply, tolerating prose or code fences around it.
+ * A reply without replacement text is rejected.
+ */
+export function parseRewriteReply(text: string): RewriteSuggestion | null {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return null;
+	let parsed: Record<string, unknown>;
+	try {
+		parsed = JSON.parse(match[0]);
+	} catch {
+		return null;
+	}
+	if (typeof parsed.text !== "string" || !parsed.text.trim()) return null;
+	const notes = Array.isArray(parsed.notes)
+		? parsed.notes
+				.filter((n): n is string => typeof n === "string" && n.trim() !== "")
+				.map((n) => n.trim())
+				.slice(0, MAX_NOTES)
+		: [];
+	return { text: parsed.text.trim(), notes };
+}
+
+/**
+ * Gives a suggestion the selection's leading and trailing whitespace, so
+ * accepting it doesn't glue paragraphs together.
+ */
+export function fitToSelection(selection: string, suggestion: string): string {
+	const leading = /^\s*/.exec(selection)?.[0] ?? "";
+	const trailing = selection.trim() ? (/\s*$/.exec(selection)?.[0] ?? "") : "";
+	return `${leading}${suggestion.trim()}${trailing}`;
+}
+
+/**
+ * Where `original` now sits in `body`, given it was selected at `start`:
+ * there if it still is, else the occurrence closest to it, so an edit earlier
+ * in the draft doesn't send the rewrite to an identical phrase elsewhere.
+ * -1 when the text is gone.
+ */
+export function locateSelection(
+	body: string,
+	original: string,
+	start: number,
+): number {
+	if (!original) return -1;
+	let best = -1;
+	for (
+		let at = body.indexOf(original);
+		at >= 0;
+		at = body.indexOf(original, at + 1)
+	) {
+		if (best < 0 || Math.abs(at - start) < Math.abs(best - start)) best = at;
+	}
+	return best;
+}
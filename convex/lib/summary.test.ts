@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseSummary, summaryForPrompt } from "./summary";
+
+describe("parseSummary", () => {
+	const cases: {
+		name: string;
+		input: string;
+		expected: ReturnType<typeof parseSummary>;
+	}[] = [
+		{
+			name: "reads a full reply",
+			input: JSON.stringify({
+				tldr: "Acme raised $40M.",
+				keyFacts: ["Series B", "Led by Foo Ventures"],
+				quotes: [{ text: "We're hiring.", speaker: "Jane Doe, CEO" }],
+				numbers: [{ value: "$40M", context: "Series B size" }],
+			}),
+			expected: {
+				tldr: "Acme raised $40M.",
+				keyFacts: ["Series B", "Led by Foo Ventures"],
+				quotes: [{ text: "We're hiring.", speaker: "Jane Doe, CEO" }],
+				numbers: [{ value: "$40M", context: "Series B size" }],
+			},
+		},
+		{
+			name: "ignores code fences and drops malformed items",
+			input:
+				'```json\n{"tldr": " Short. ", "keyFacts": ["a", 3, ""], "quotes": [{"text": "hi"}, {"speaker": "x"}], "numbers": [{"value": "5"}]}\n```',
+			expected: {
+				tldr: "Short.",
+				keyFacts: ["a"],
+				quotes: [{ text: "hi", speaker: undefined }],
+				numbers: [],
+			},
+		},
+		{
+			name: "treats missing lists as empty",
+			input: '{"tldr": "Only this."}',
+			expected: { tldr: "Only this.", keyFacts: [], quotes: [], numbers: [] },
+		},
+		{
+			name: "rejects a reply without a TL;DR",
+			input: '{"keyFacts": ["a"]}',
+			expected: null,
+		},
+		{ name: "rejects non-JSON replies", input: "No summary.", expected: null },
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(parseSummary(c.input)).toEqual(c.expected);
+		});
+	}
+});
+
+describe("summaryForPrompt", () => {
+	it("renders only the sections that have content", () => {
+		expect(
+			summaryForPrompt({
+				tldr: "Acme raised $40M.",
+				keyFacts: [],
+				quotes: [{ text: "We're hiring.", speaker: "Jane Doe" }],
+				numbers: [{ value: "$40M", context: "Series B size" }],
+			}),
+		).toBe(
+			[
+				"TL;DR: Acme raised $40M.",
+				"Quotes:",
+				'- "We\'re hiring." — Jane Doe',
+				"Numbers:",
+				"- $40M: Series B size",
+			].join("\n"),
+		);
+	});
+});
@@ -0,0 +1,85 @@
+import { type Infer, v } from "convex/values";
+
+const MAX_KEY_FACTS = 6;
+const MAX_QUOTES = 3;
+const MAX_NUMBERS = 6;
+
+/** Structured digest of an entry, written by `ai/summarize:summarizeEntry`. */
+export const entrySummaryValidator = v.object({
+	tldr: v.string(),
+	keyFacts: v.array(v.string()),
+	quotes: v.array(
+		v.object({ text: v.string(), speaker: v.optional(v.string()) }),
+	),
+	numbers: v.array(v.object({ value: v.string(), context: v.string() })),
+	model: v.string(),
+	generatedAt: v.number(),
+});
+
+export type EntrySummary = Infer<typeof entrySummaryValidator>;
+
+type SummaryBody = Omit<EntrySummary, "model" | "generatedAt">;
+
+function str(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function list<T>(value: unknown, pick: (item: unknown) => T | undefined): T[] {
+	if (!Array.isArray(value)) return [];
+	return value.map(pick).filter((x): x is T => x !== undefined);
+}
+
+/**
+ * Reads the summarizer's JSON reply, tolerating prose or code fences around
+ * it. Malformed list items are dropped; a missing TL;DR rejects the reply.
+ */
+export function parseSummary(text: string): SummaryBody | null {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return null;
+	let parsed: Record<string, unknown>;
+	try {
+		parsed = JSON.parse(match[0]);
+	} catch {
+		return null;
+	}
+	const tldr = str(parsed.tldr);
+	if (!tldr) return null;
+	return {
+		tldr,
+		keyFacts: list(parsed.keyFacts, str).slice(0, MAX_KEY_FACTS),
+		quotes: list(parsed.quotes, (q) => {
+			const item = (q ?? {}) as Record<string, unknown>;
+			const quote = str(item.text);
+			return quote ? { text: quote, speaker: str(item.speaker) } : undefined;
+		}).slice(0, MAX_QUOTES),
+		numbers: list(parsed.numbers, (n) => {
+			const item = (n ?? {}) as Record<string, unknown>;
+			const value = str(item.value);
+			const context = str(item.context);
+			return value && context ? { value, context } : undefined;
+		}).slice(0, MAX_NUMBERS),
+	};
+}
+
+/** Renders a summary as the plain-text block the draft prompts embed. */
+export function summaryForPrompt(summary: SummaryBody): string {
+	const lines = [`TL;DR: ${summary.tldr}`];
+	if (summary.keyFacts.length > 0) {
+		lines.push("Key facts:", ...summary.keyFacts.map((f) => `- ${f}`));
+	}
+	if (summary.quotes.length > 0) {
+		lines.push(
+			"Quotes:",
+			...summary.quotes.map((q) =>
+				q.speaker ? `- "${q.text}" — ${q.speaker}` : `- "${q.text}"`,
+			),
+		);
+	}
+	if (summary.numbers.length > 0) {
+		lines.push(
+			"Numbers:",
+			...summary.numbers.map((n) => `- ${n.value}: ${n.context}`),
+		);
+	}
+	return lines.join("\n");
+}
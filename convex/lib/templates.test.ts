@@ -0,0 +1,158 @@
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+import {
+	type TemplateSection,
+	assignToSections,
+	normalizeSections,
+	renderTemplate,
+} from "./templates";
+
+const WEEKLY: TemplateSection[] = [
+	{ name: "Top story", instructions: "Lead with it.", maxEntries: 1 },
+	{ name: "Quick hits", maxEntries: 3 },
+	{ name: "Tool of the week", maxEntries: 1 },
+	{ name: "Sign-off", maxEntries: 0 },
+];
+
+function story(id: string, tags: string[] = []) {
+	return { _id: id, tags: tags.map((name) => ({ name })) };
+}
+
+describe("normalizeSections", () => {
+	it("trims names and drops blank instructions", () => {
+		expect(
+			normalizeSections([
+				{ name: "  Quick   hits ", instructions: "  ", maxEntries: 5 },
+			]),
+		).toEqual([{ name: "Quick hits", instructions: undefined, maxEntries: 5 }]);
+	});
+
+	const bad: { name: string; sections: TemplateSection[] }[] = [
+		{ name: "no sections", sections: [] },
+		{ name: "a blank name", sections: [{ name: " " }] },
+		{
+			name: "duplicate names",
+			sections: [{ name: "Links" }, { name: "links" }],
+		},
+		{ name: "a fractional limit", sections: [{ name: "A", maxEntries: 1.5 }] },
+		{ name: "a negative limit", sections: [{ name: "A", maxEntries: -1 }] },
+	];
+	for (const c of bad) {
+		it(`rejects ${c.name}`, () => {
+			expect(() => normalizeSections(c.sections)).toThrow(ConvexError);
+		});
+	}
+});
+
+describe("assignToSections", () => {
+	const cases: {
+		name: string;
+		entries: ReturnType<typeof story>[];
+		chosen?: [string, string][];
+		expected: Record<string, string[]>;
+		unassigned: string[];
+	}[] = [
+		{
+			name: "fills sections in order up to their limits",
+			entries: [story("a"), story("b"), story("c"), story("d"), story("e")],
+			expected: {
+				"Top story": ["a"],
+				"Quick hits": ["b", "c", "d"],
+				"Tool of the week": ["e"],
+				"Sign-off": [],
+			},
+			unassigned: [],
+		},
+		{
+			name: "prefers a section named after a tag",
+			entries: [story("a"), story("b", ["tool of the week"])],
+			expected: {
+				"Top story": ["a"],
+				"Quick hits": [],
+				"Tool of the week": ["b"],
+				"Sign-off": [],
+			},
+			unassigned: [],
+		},
+		{
+			name: "keeps explicit choices ahead of automatic ones",
+			entries: [story("a"), story("b")],
+			chosen: [["b", "Top story"]],
+			expected: {
+				"Top story": ["b"],
+				"Quick hits": ["a"],
+				"Tool of the week": [],
+				"Sign-off": [],
+			},
+			unassigned: [],
+		},
+		{
+			name: "leaves out choices for full or unknown sections",
+			entries: [story("a"), story("b"), story("c")],
+			chosen: [
+				["a", "Top story"],
+				["b", "Top story"],
+				["c", "Sign-off"],
+			],
+			expected: {
+				"Top story": ["a"],
+				"Quick hits": [],
+				"Tool of the week": [],
+				"Sign-off": [],
+			},
+			unassigned: ["b", "c"],
+		},
+		{
+			name: "returns stories that don't fit",
+			entries: ["a", "b", "c", "d", "e", "f"].map((id) => story(id)),
+			expected: {
+				"Top story": ["a"],
+				"Quick hits": ["b", "c", "d"],
+				"Tool of the week": ["e"],
+				"Sign-off": [],
+			},
+			unassigned: ["f"],
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			const { groups, unassigned } = assignToSections(
+				WEEKLY,
+				c.entries,
+				new Map(c.chosen),
+			);
+			expect(
+				Object.fromEntries(
+					groups.map((g) => [g.section.name, g.entries.map((e) => e._id)]),
+				),
+			).toEqual(c.expected);
+			expect(unassigned.map((e) => e._id)).toEqual(c.unassigned);
+		});
+	}
+});
+
+describe("renderTemplate", () => {
+	it("lists sections in order and numbers stories across them", () => {
+		const { groups } = assignToSections(WEEKLY, [story("a"), story("b")]);
+		const prompt = renderTemplate(
+			"Weekly",
+			groups,
+			(e, n) => `## ${n}: ${e._id}`,
+		);
+		expect(prompt).toBe(
+			[
+				"# Newsletter template: Weekly",
+				"# Section 1: Top story",
+				"Instructions: Lead with it.",
+				"## 1: a",
+				"# Section 2: Quick hits",
+				"## 2: b",
+				"# Section 3: Tool of the week",
+				"No stories. Write this section from its instructions alone.",
+				"# Section 4: Sign-off",
+				"No stories. Write this section from its instructions alone.",
+			].join("\n\n"),
+		);
+	});
+});
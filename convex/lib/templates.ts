@@ -0,0 +1,162 @@
+import { ConvexError, type Infer, v } from "convex/values";
+
+const MAX_SECTIONS = 12;
+const MAX_SECTION_NAME = 60;
+const MAX_SECTION_INSTRUCTIONS = 1000;
+const MAX_ENTRIES_PER_SECTION = 20;
+
+export const templateSectionValidator = v.object({
+	name: v.string(),
+	instructions: v.optional(v.string()),
+	// Most stories the section takes; missing means no limit and 0 means the
+	// section is written from its instructions alone (e.g. a sign-off).
+	maxEntries: v.optional(v.number()),
+});
+export type TemplateSection = Infer<typeof templateSectionValidator>;
+
+/** The section a draft covers one of its entries in. */
+export const entrySectionValidator = v.object({
+	entryId: v.id("entries"),
+	section: v.string(),
+});
+export type EntrySection = Infer<typeof entrySectionValidator>;
+
+/** Trims a template's sections as edited by an admin, rejecting bad ones. */
+export function normalizeSections(
+	sections: TemplateSection[],
+): TemplateSection[] {
+	if (sections.length === 0) {
+		throw new ConvexError("A template needs at least one section");
+	}
+	if (sections.length > MAX_SECTIONS) {
+		throw new ConvexError(
+			`Templates can have at most ${MAX_SECTIONS} sections`,
+		);
+	}
+	const seen = new Set<string>();
+	return sections.map((section) => {
+		const name = section.name.trim().replace(/\s+/g, " ");
+		if (!name) throw new ConvexError("Every section needs a name");
+		if (name.length > MAX_SECTION_NAME) {
+			throw new ConvexError(
+				`Section names must be at most ${MAX_SECTION_NAME} characters`,
+			);
+		}
+		if (seen.has(name.toLowerCase())) {
+			throw new ConvexError(`There are two sections named "${name}"`);
+		}
+		seen.add(name.toLowerCase());
+		const instructions = section.instructions?.trim() || undefined;
+		if (instructions && instructions.length > MAX_SECTION_INSTRUCTIONS) {
+			throw new ConvexError(
+				`Section instructions must be at most ${MAX_SECTION_INSTRUCTIONS} characters`,
+			);
+		}
+		const { maxEntries } = section;
+		if (
+			maxEntries !== undefined &&
+			(!Number.isInteger(maxEntries) ||
+				maxEntries < 0 ||
+				maxEntries > MAX_ENTRIES_PER_SECTION)
+		) {
+			throw new ConvexError(
+				`"${name}" can take between 0 and ${MAX_ENTRIES_PER_SECTION} stories`,
+			);
+		}
+		return { name, instructions, maxEntries };
+	});
+}
+
+export interface SectionGroup<T> {
+	section: TemplateSection;
+	entries: T[];
+}
+
+/**
+ * Puts each entry in one of the template's sections, keeping the entry order
+ * within a section. An entry goes to the section `chosen` names for it, else
+ * to a section named after one of its tags, else to the first section with
+ * room. Entries that fit nowhere come back in `unassigned`.
+ */
+export function assignToSections<
+	T extends { _id: string; tags?: { name: string }[] },
+>(
+	sections: TemplateSection[],
+	entries: T[],
+	chosen: ReadonlyMap<string, string> = new Map(),
+): { groups: SectionGroup<T>[]; unassigned: T[] } {
+	const groups = sections.map((section) => ({
+		section,
+		entries: [] as T[],
+	}));
+	const byName = new Map(groups.map((g) => [g.section.name.toLowerCase(), g]));
+	const hasRoom = (g: SectionGroup<T>) =>
+		g.section.maxEntries === undefined ||
+		g.entries.length < g.section.maxEntries;
+
+	const placed = new Map<T, SectionGroup<T>>();
+	// Explicit choices first so they aren't crowded out by automatic picks.
+	for (const entry of entries) {
+		const name = chosen.get(entry._id);
+		const group =
+			name === undefined ? undefined : byName.get(name.toLowerCase());
+		if (group && hasRoom(group)) {
+			group.entries.push(entry);
+			placed.set(entry, group);
+		}
+	}
+	const unassigned: T[] = [];
+	for (const entry of entries) {
+		if (placed.has(entry)) continue;
+		// A full or unknown chosen section isn't silently swapped for another.
+		if (chosen.has(entry._id)) {
+			unassigned.push(entry);
+			continue;
+		}
+		const byTag = (entry.tags ?? [])
+			.map((t) => byName.get(t.name.toLowerCase()))
+			.find((g) => g !== undefined && hasRoom(g));
+		const group = byTag ?? groups.find(hasRoom);
+		if (!group) {
+			unassigned.push(entry);
+			continue;
+		}
+		group.entries.push(entry);
+		placed.set(entry, group);
+	}
+	// Rebuild each section in input order; explicit picks were added first.
+	for (const group of groups) {
+		group.entries = entries.filter((e) => placed.get(e) === group);
+	}
+	return { groups, unassigned };
+}
+
+/** System prompt sentence telling the writer to follow a template. */
+export const TEMPLATE_INSTRUCTIONS =
+	"Follow the newsletter template: write its sections in order, each under a heading with the section's name. " +
+	"Follow each section's instructions and cover only the stories listed under it.";
+
+/**
+ * The template's sections and their stories as a prompt section. Stories are
+ * numbered across the whole newsletter.
+ */
+export function renderTemplate<T>(
+	name: string,
+	groups: SectionGroup<T>[],
+	renderStory: (entry: T, n: number) => string,
+): string {
+	let n = 0;
+	const sections = groups.map(({ section, entries }, i) => {
+		const parts = [`# Section ${i + 1}: ${section.name}`];
+		if (section.instructions) {
+			parts.push(`Instructions: ${section.instructions}`);
+		}
+		parts.push(
+			entries.length > 0
+				? entries.map((e) => renderStory(e, ++n)).join("\n\n---\n\n")
+				: "No stories. Write this section from its instructions alone.",
+		);
+		return parts.join("\n\n");
+	});
+	return `# Newsletter template: ${name}\n\n${sections.join("\n\n")}`;
+}
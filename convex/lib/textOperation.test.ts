@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+	type TextOp,
+	applyOp,
+	diffOp,
+	transform,
+	transformIndex,
+	transformRun,
+} from "./textOperation";
+
+describe("diffOp", () => {
+	const cases: { name: string; before: string; after: string; op: TextOp }[] = [
+		{ name: "typing at the end", before: "ab", after: "abc", op: [2, "c"] },
+		{
+			name: "replacing a word",
+			before: "hello world",
+			after: "hello there",
+			op: [6, "there", -5],
+		},
+		{ name: "deleting a range", before: "abcdef", after: "af", op: [1, -4, 1] },
+		{ name: "no change", before: "same", after: "same", op: [4] },
+		{ name: "clearing", before: "abc", after: "", op: [-3] },
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(diffOp(c.before, c.after)).toEqual(c.op);
+			expect(applyOp(c.before, c.op)).toBe(c.after);
+		});
+	}
+});
+
+describe("applyOp", () => {
+	it("rejects an operation made for a different length", () => {
+		expect(() => applyOp("abc", [2, "x"])).toThrow();
+	});
+});
+
+describe("transform", () => {
+	// Every pair must converge: a then b' equals b then a'.
+	const cases: {
+		name: string;
+		doc: string;
+		a: TextOp;
+		b: TextOp;
+		expected: string;
+	}[] = [
+		{
+			name: "inserts in different places",
+			doc: "The quick fox",
+			a: [10, "brown ", 3],
+			b: [13, " jumps"],
+			expected: "The quick brown fox jumps",
+		},
+		{
+			name: "inserts at the same spot keep a first",
+			doc: "ac",
+			a: [1, "X", 1],
+			b: [1, "Y", 1],
+			expected: "aXYc",
+		},
+		{
+			name: "overlapping deletes",
+			doc: "abcdefgh",
+			a: [1, -6, 1],
+			b: [2, -4, 2],
+			expected: "ah",
+		},
+		{
+			name: "insert inside a range the other side deleted",
+			doc: "one two three",
+			a: [6, "!", 7],
+			b: [4, -4, 5],
+			expected: "one !three",
+		},
+		{
+			name: "delete next to an insert",
+			doc: "abcdef",
+			a: [2, "X", 4],
+			b: [2, -2, 2],
+			expected: "abXef",
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			const [aPrime, bPrime] = transform(c.a, c.b);
+			const viaA = applyOp(applyOp(c.doc, c.a), bPrime);
+			const viaB = applyOp(applyOp(c.doc, c.b), aPrime);
+			expect(viaA).toBe(viaB);
+			expect(viaA).toBe(c.expected);
+		});
+	}
+
+	it("converges when a run of edits meets a concurrent edit", () => {
+		const doc = "Headline\n\nBody text.";
+		const run = [
+			diffOp(doc, "Headline!\n\nBody text."),
+			diffOp("Headline!\n\nBody text.", "Headline!\n\nBody text. More."),
+		];
+		// "Big " at the start and " text" dropped from the body.
+		const other: TextOp = ["Big ", 14, -5, 1];
+		const [otherPrime, runPrime] = transformRun(other, run);
+
+		let viaRun = doc;
+		for (const op of run) viaRun = applyOp(viaRun, op);
+		viaRun = applyOp(viaRun, otherPrime);
+		let viaOther = applyOp(doc, other);
+		for (const op of runPrime) viaOther = applyOp(viaOther, op);
+
+		expect(viaRun).toBe(viaOther);
+		expect(viaRun).toBe("Big Headline!\n\nBody. More.");
+	});
+});
+
+describe("transformIndex", () => {
+	const cases: { name: string; index: number; op: TextOp; expected: number }[] =
+		[
+			{ name: "insert before the caret", index: 3, op: ["ab", 5], expected: 5 },
+			{
+				name: "insert after the caret",
+				index: 2,
+				op: [4, "ab", 1],
+				expected: 2,
+			},
+			{ name: "delete before the caret", index: 4, op: [-2, 3], expected: 2 },
+			{
+				name: "delete around the caret",
+				index: 3,
+				op: [1, -4, 1],
+				expected: 1,
+			},
+		];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(transformIndex(c.index, c.op)).toBe(c.expected);
+		});
+	}
+});
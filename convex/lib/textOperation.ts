@@ -0,0 +1,212 @@
+import { v } from "convex/values";
+
+/**
+ * Plain-text operational transform, after ot.js. An operation walks the whole
+ * document: a positive number retains that many characters, a negative number
+ * deletes that many, and a string inserts it. Shared by the Convex functions
+ * and the draft editor so both sides transform edits identically.
+ */
+export const textOpValidator = v.array(v.union(v.number(), v.string()));
+
+export type OpComponent = number | string;
+export type TextOp = OpComponent[];
+
+function isRetain(c: OpComponent | undefined): c is number {
+	return typeof c === "number" && c > 0;
+}
+
+function isDelete(c: OpComponent | undefined): c is number {
+	return typeof c === "number" && c < 0;
+}
+
+function isInsert(c: OpComponent | undefined): c is string {
+	return typeof c === "string";
+}
+
+/** Appends components while keeping the operation canonical. */
+class OpBuilder {
+	readonly ops: TextOp = [];
+
+	retain(n: number): this {
+		if (n === 0) return this;
+		const last = this.ops.length - 1;
+		if (isRetain(this.ops[last]))
+			this.ops[last] = (this.ops[last] as number) + n;
+		else this.ops.push(n);
+		return this;
+	}
+
+	insert(s: string): this {
+		if (s === "") return this;
+		const last = this.ops.length - 1;
+		if (isInsert(this.ops[last])) {
+			this.ops[last] = (this.ops[last] as string) + s;
+		} else if (isDelete(this.ops[last])) {
+			// Inserts go before deletes so equal edits have one representation.
+			if (isInsert(this.ops[last - 1])) {
+				this.ops[last - 1] = (this.ops[last - 1] as string) + s;
+			} else {
+				this.ops.splice(last, 0, s);
+			}
+		} else {
+			this.ops.push(s);
+		}
+		return this;
+	}
+
+	delete(n: number): this {
+		if (n === 0) return this;
+		const last = this.ops.length - 1;
+		if (isDelete(this.ops[last]))
+			this.ops[last] = (this.ops[last] as number) - n;
+		else this.ops.push(-n);
+		return this;
+	}
+}
+
+export function isValidOp(op: unknown): op is TextOp {
+	return (
+		Array.isArray(op) &&
+		op.every(
+			(c) =>
+				(typeof c === "string" && c.length > 0) ||
+				(typeof c === "number" && Number.isInteger(c) && c !== 0),
+		)
+	);
+}
+
+/** Length of the document the operation applies to. */
+export function baseLength(op: TextOp): number {
+	let n = 0;
+	for (const c of op) {
+		if (typeof c === "number") n += Math.abs(c);
+	}
+	return n;
+}
+
+export function isNoop(op: TextOp): boolean {
+	return op.every(isRetain);
+}
+
+export function applyOp(doc: string, op: TextOp): string {
+	if (baseLength(op) !== doc.length) {
+		throw new Error(
+			`Operation expects a ${baseLength(op)}-character document, got ${doc.length}`,
+		);
+	}
+	let out = "";
+	let pos = 0;
+	for (const c of op) {
+		if (isInsert(c)) {
+			out += c;
+		} else if (isRetain(c)) {
+			out += doc.slice(pos, pos + c);
+			pos += c;
+		} else {
+			pos -= c;
+		}
+	}
+	return out;
+}
+
+/**
+ * Given `a` and `b` made against the same document, returns `[a', b']` so
+ * that applying `a` then `b'` equals applying `b` then `a'`. When both insert
+ * at the same spot, `a`'s text comes first.
+ */
+export function transform(a: TextOp, b: TextOp): [TextOp, TextOp] {
+	if (baseLength(a) !== baseLength(b)) {
+		throw new Error("Both operations must apply to the same document");
+	}
+	const aPrime = new OpBuilder();
+	const bPrime = new OpBuilder();
+	let i = 0;
+	let j = 0;
+	let ca: OpComponent | undefined = a[i++];
+	let cb: OpComponent | undefined = b[j++];
+	while (ca !== undefined || cb !== undefined) {
+		if (isInsert(ca)) {
+			aPrime.insert(ca);
+			bPrime.retain(ca.length);
+			ca = a[i++];
+			continue;
+		}
+		if (isInsert(cb)) {
+			aPrime.retain(cb.length);
+			bPrime.insert(cb);
+			cb = b[j++];
+			continue;
+		}
+		if (ca === undefined || cb === undefined) {
+			throw new Error("Operations have different lengths");
+		}
+		// Both components are now retains or deletes; consume the shorter
+		// one entirely and the same number of characters from the other.
+		const n = Math.min(Math.abs(ca), Math.abs(cb));
+		if (isRetain(ca) && isRetain(cb)) {
+			aPrime.retain(n);
+			bPrime.retain(n);
+		} else if (isDelete(ca) && isRetain(cb)) {
+			aPrime.delete(n);
+		} else if (isRetain(ca) && isDelete(cb)) {
+			bPrime.delete(n);
+		}
+		// Two deletes of the same text cancel out.
+		ca = Math.abs(ca) > n ? ca - Math.sign(ca) * n : a[i++];
+		cb = Math.abs(cb) > n ? cb - Math.sign(cb) * n : b[j++];
+	}
+	return [aPrime.ops, bPrime.ops];
+}
+
+/** Where a caret at `index` ends up once `op` is applied. */
+export function transformIndex(index: number, op: TextOp): number {
+	let remaining = index;
+	let moved = index;
+	for (const c of op) {
+		if (isRetain(c)) {
+			remaining -= c;
+		} else if (isInsert(c)) {
+			moved += c.length;
+		} else {
+			moved -= Math.min(remaining, -c);
+			remaining += c;
+		}
+		if (remaining < 0) break;
+	}
+	return moved;
+}
+
+/** The smallest single-splice operation turning `before` into `after`. */
+export function diffOp(before: string, after: string): TextOp {
+	let head = 0;
+	const max = Math.min(before.length, after.length);
+	while (head < max && before[head] === after[head]) head++;
+	let tail = 0;
+	while (
+		tail < max - head &&
+		before[before.length - 1 - tail] === after[after.length - 1 - tail]
+	) {
+		tail++;
+	}
+	return new OpBuilder()
+		.retain(head)
+		.insert(after.slice(head, after.length - tail))
+		.delete(before.length - head - tail)
+		.retain(tail).ops;
+}
+
+/**
+ * Rebases a run of consecutive operations over `op`, which was made against
+ * the document the run starts from and wins insert ties. Returns `op` moved
+ * past the whole run, and the run moved past `op`.
+ */
+export function transformRun(op: TextOp, run: TextOp[]): [TextOp, TextOp[]] {
+	let moved = op;
+	const rebased: TextOp[] = [];
+	for (const next of run) {
+		const [movedOp, rebasedNext] = transform(moved, next);
+		moved = movedOp;
+		rebased.push(rebasedNext);
+	}
+	return [moved, rebased];
+}
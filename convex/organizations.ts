@@ -222,6 +222,7 @@ export const getBySlug = query({
 			slug: org.slug,
 			description: org.description,
 			clerkOrgId: org.clerkOrgId,
+			trackingParams: org.trackingParams ?? [],
 			role: membership.role,
 		};
 	},
@@ -433,17 +434,41 @@ export const revokeInvite = action({
 	},
 });
 
+const MAX_TRACKING_PARAMS = 50;
+
+function normalizeTrackingParams(params: string[]): string[] {
+	const out = new Set<string>();
+	for (const raw of params) {
+		const param = raw.trim().toLowerCase();
+		if (!param) continue;
+		if (!/^[\w.\-[\]]+$/.test(param)) {
+			throw new ConvexError(`Invalid query parameter name: ${raw.trim()}`);
+		}
+		out.add(param);
+	}
+	if (out.size > MAX_TRACKING_PARAMS) {
+		throw new ConvexError(
+			`At most ${MAX_TRACKING_PARAMS} tracking parameters are allowed`,
+		);
+	}
+	return [...out];
+}
+
 export const update = mutation({
 	args: {
 		orgId: v.id("organizations"),
 		name: v.optional(v.string()),
 		description: v.optional(v.string()),
+		trackingParams: v.optional(v.array(v.string())),
 	},
-	handler: async (ctx, { orgId, name, description }) => {
+	handler: async (ctx, { orgId, name, description, trackingParams }) => {
 		await requireOrgMember(ctx, orgId, "admin");
 		const patch: Partial<Doc<"organizations">> = { updatedAt: Date.now() };
 		if (name !== undefined) patch.name = name;
 		if (description !== undefined) patch.description = description;
+		if (trackingParams !== undefined) {
+			patch.trackingParams = normalizeTrackingParams(trackingParams);
+		}
 		await ctx.db.patch(orgId, patch);
 	},
 });
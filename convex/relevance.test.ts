@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+	SIMILARITY_CEILING,
+	SIMILARITY_FLOOR,
+	blendRelevance,
+	cosineSimilarity,
+	parseClassification,
+	similarityToRelevance,
+} from "./relevance";
+
+describe("cosineSimilarity", () => {
+	it("is 1 for parallel vectors and 0 for orthogonal ones", () => {
+		expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+	});
+
+	it("is 0 for an empty vector", () => {
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe("similarityToRelevance", () => {
+	const cases: { name: string; input: number; expected: number }[] = [
+		{ name: "clamps below the floor", input: 0.05, expected: 0 },
+		{ name: "maps the floor to 0", input: SIMILARITY_FLOOR, expected: 0 },
+		{
+			name: "maps the midpoint to 0.5",
+			input: (SIMILARITY_FLOOR + SIMILARITY_CEILING) / 2,
+			expected: 0.5,
+		},
+		{ name: "maps the ceiling to 1", input: SIMILARITY_CEILING, expected: 1 },
+		{ name: "clamps above the ceiling", input: 0.95, expected: 1 },
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(similarityToRelevance(c.input)).toBeCloseTo(c.expected);
+		});
+	}
+});
+
+describe("blendRelevance", () => {
+	it("uses the embedding score alone without a classification", () => {
+		expect(blendRelevance(0.4, undefined)).toBe(0.4);
+	});
+
+	it("weights the classifier above the embedding score", () => {
+		expect(blendRelevance(0, 1)).toBeGreaterThan(0.5);
+		expect(blendRelevance(1, 0)).toBeLessThan(0.5);
+	});
+});
+
+describe("parseClassification", () => {
+	const cases: {
+		name: string;
+		input: string;
+		expected: { score: number; reason?: string } | null;
+	}[] = [
+		{
+			name: "reads bare JSON",
+			input: '{"score": 8, "reason": "Covers chip export rules."}',
+			expected: { score: 0.8, reason: "Covers chip export rules." },
+		},
+		{
+			name: "ignores prose around the JSON",
+			input: 'Sure! {"score": "3", "reason": " Tangential. "} Hope that helps.',
+			expected: { score: 0.3, reason: "Tangential." },
+		},
+		{
+			name: "clamps out-of-range scores and drops empty reasons",
+			input: '{"score": 14, "reason": ""}',
+			expected: { score: 1, reason: undefined },
+		},
+		{
+			name: "rejects a missing score",
+			input: '{"reason": "no idea"}',
+			expected: null,
+		},
+		{
+			name: "rejects non-JSON replies",
+			input: "Very relevant.",
+			expected: null,
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(parseClassification(c.input)).toEqual(c.expected);
+		});
+	}
+});
@@ -0,0 +1,391 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+	type MutationCtx,
+	internalAction,
+	internalMutation,
+	internalQuery,
+	mutation,
+	query,
+} from "./_generated/server";
+import {
+	CLASSIFY_MODEL,
+	getAnthropicClient,
+	isAnthropicConfigured,
+} from "./lib/anthropic";
+import { embed } from "./lib/voyage";
+import { requireOrgMember } from "./orgAuth";
+
+// Voyage similarity between a brief and an on-topic article rarely exceeds
+// the ceiling, and unrelated text sits near the floor; the band in between is
+// stretched onto 0–1.
+export const SIMILARITY_FLOOR = 0.2;
+export const SIMILARITY_CEILING = 0.7;
+// With classification enabled, Claude's rating outweighs raw similarity.
+const CLASSIFIER_WEIGHT = 0.7;
+const MAX_BRIEF_CHARS = 4000;
+const CLASSIFY_CONTENT_CHARS = 1500;
+// Entries rescored when the brief changes, newest first.
+const RESCORE_LIMIT = 100;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	if (normA === 0 || normB === 0) return 0;
+	return dot / Math.sqrt(normA * normB);
+}
+
+export function similarityToRelevance(similarity: number): number {
+	const scaled =
+		(similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR);
+	return Math.min(1, Math.max(0, scaled));
+}
+
+export function blendRelevance(
+	embeddingScore: number,
+	classifierScore: number | undefined,
+): number {
+	if (classifierScore === undefined) return embeddingScore;
+	return (
+		CLASSIFIER_WEIGHT * classifierScore +
+		(1 - CLASSIFIER_WEIGHT) * embeddingScore
+	);
+}
+
+/**
+ * Reads `{"score": 0-10, "reason": "..."}` out of the classifier's reply,
+ * tolerating prose around the JSON. Returns the score on a 0–1 scale.
+ */
+export function parseClassification(
+	text: string,
+): { score: number; reason?: string } | null {
+	const match = /\{[\s\S]*\}/.exec(text);
+	if (!match) return null;
+	try {
+		const parsed = JSON.parse(match[0]) as {
+			score?: unknown;
+			reason?: unknown;
+		};
+		const score = Number(parsed.score);
+		if (!Number.isFinite(score)) return null;
+		const reason =
+			typeof parsed.reason === "string" && parsed.reason.trim()
+				? parsed.reason.trim()
+				: undefined;
+		return { score: Math.min(10, Math.max(0, score)) / 10, reason };
+	} catch {
+		return null;
+	}
+}
+
+export const getBrief = query({
+	args: { orgId: v.id("organizations") },
+	handler: async (ctx, { orgId }) => {
+		await requireOrgMember(ctx, orgId);
+		const row = await ctx.db
+			.query("topicBriefs")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.unique();
+		if (!row) return null;
+		return {
+			brief: row.brief,
+			classify: row.classify,
+			archiveBelow: row.archiveBelow,
+			embedded: row.embedding !== undefined,
+			updatedAt: row.updatedAt,
+		};
+	},
+});
+
+const embedBriefRef = makeFunctionReference<"action">(
+	"relevance:embedBrief",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ briefId: Id<"topicBriefs"> },
+	void
+>;
+
+export const upsertBrief = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		brief: v.string(),
+		classify: v.boolean(),
+		archiveBelow: v.optional(v.number()),
+	},
+	handler: async (ctx, { orgId, brief, classify, archiveBelow }) => {
+		const member = await requireOrgMember(ctx, orgId, "admin");
+		const text = brief.trim();
+		if (text.length > MAX_BRIEF_CHARS) {
+			throw new ConvexError(
+				`Topic brief must be at most ${MAX_BRIEF_CHARS} characters`,
+			);
+		}
+		if (
+			archiveBelow !== undefined &&
+			(!Number.isFinite(archiveBelow) || archiveBelow < 0 || archiveBelow > 1)
+		) {
+			throw new ConvexError("Archive threshold must be between 0 and 1");
+		}
+		const existing = await ctx.db
+			.query("topicBriefs")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.unique();
+		if (!text) {
+			// An empty brief turns scoring off; existing scores are left alone.
+			if (existing) await ctx.db.delete(existing._id);
+			return;
+		}
+		const now = Date.now();
+		const fields = {
+			brief: text,
+			classify,
+			archiveBelow,
+			updatedAt: now,
+			updatedByUserId: member.userId,
+		};
+		if (existing) {
+			const changed = existing.brief !== text;
+			await ctx.db.patch(existing._id, {
+				...fields,
+				...(changed ? { embedding: undefined } : {}),
+			});
+			if (changed || !existing.embedding) {
+				// Recent entries are rescored once the new embedding lands.
+				await ctx.scheduler.runAfter(0, embedBriefRef, {
+					briefId: existing._id,
+				});
+			} else if (existing.classify !== classify) {
+				await rescoreRecent(ctx, orgId);
+			} else if (existing.archiveBelow !== archiveBelow) {
+				// Scores stand; only which of them count as off-topic moved.
+				await applyArchiveThreshold(ctx, orgId, archiveBelow);
+			}
+			return;
+		}
+		const briefId = await ctx.db.insert("topicBriefs", { orgId, ...fields });
+		await ctx.scheduler.runAfter(0, embedBriefRef, { briefId });
+	},
+});
+
+export const _getBrief = internalQuery({
+	args: { briefId: v.id("topicBriefs") },
+	handler: async (ctx, { briefId }) => {
+		return await ctx.db.get(briefId);
+	},
+});
+
+const scoreEntryRef = makeFunctionReference<"action">(
+	"relevance:scoreEntry",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ entryId: Id<"entries"> },
+	void
+>;
+
+export const _storeBriefEmbedding = internalMutation({
+	args: {
+		briefId: v.id("topicBriefs"),
+		brief: v.string(),
+		embedding: v.array(v.float64()),
+	},
+	handler: async (ctx, { briefId, brief, embedding }) => {
+		const row = await ctx.db.get(briefId);
+		// Edited again while this embedding was in flight; a newer one is coming.
+		if (!row || row.brief !== brief) return;
+		await ctx.db.patch(briefId, { embedding });
+		await rescoreRecent(ctx, row.orgId);
+	},
+});
+
+async function recentEntries(ctx: MutationCtx, orgId: Id<"organizations">) {
+	return await ctx.db
+		.query("entries")
+		.withIndex("by_org_fetchedAt", (q) => q.eq("orgId", orgId))
+		.order("desc")
+		.take(RESCORE_LIMIT);
+}
+
+async function rescoreRecent(ctx: MutationCtx, orgId: Id<"organizations">) {
+	for (const entry of await recentEntries(ctx, orgId)) {
+		if (!entry.embedding || entry.used) continue;
+		await ctx.scheduler.runAfter(0, scoreEntryRef, { entryId: entry._id });
+	}
+}
+
+async function applyArchiveThreshold(
+	ctx: MutationCtx,
+	orgId: Id<"organizations">,
+	archiveBelow: number | undefined,
+) {
+	for (const entry of await recentEntries(ctx, orgId)) {
+		if (entry.relevance === undefined) continue;
+		const patch = archivePatch(entry, entry.relevance, archiveBelow);
+		if (Object.keys(patch).length > 0) await ctx.db.patch(entry._id, patch);
+	}
+}
+
+export const embedBrief = internalAction({
+	args: { briefId: v.id("topicBriefs") },
+	handler: async (ctx, { briefId }): Promise<void> => {
+		const getRef = makeFunctionReference<"query">(
+			"relevance:_getBrief",
+		) as unknown as FunctionReference<
+			"query",
+			"internal",
+			{ briefId: Id<"topicBriefs"> },
+			Doc<"topicBriefs"> | null
+		>;
+		const row = await ctx.runQuery(getRef, { briefId });
+		if (!row) return;
+		const vectors = await embed([row.brief]);
+		if (!vectors?.[0]) return;
+		const storeRef = makeFunctionReference<"mutation">(
+			"relevance:_storeBriefEmbedding",
+		) as unknown as FunctionReference<
+			"mutation",
+			"internal",
+			{ briefId: Id<"topicBriefs">; brief: string; embedding: number[] },
+			void
+		>;
+		await ctx.runMutation(storeRef, {
+			briefId,
+			brief: row.brief,
+			embedding: vectors[0],
+		});
+	},
+});
+
+export const _getScoringContext = internalQuery({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }) => {
+		const entry = await ctx.db.get(entryId);
+		if (!entry) return null;
+		const brief = await ctx.db
+			.query("topicBriefs")
+			.withIndex("by_org", (q) => q.eq("orgId", entry.orgId))
+			.unique();
+		return brief ? { entry, brief } : null;
+	},
+});
+
+export const _applyScore = internalMutation({
+	args: {
+		entryId: v.id("entries"),
+		relevance: v.number(),
+		reason: v.optional(v.string()),
+		archiveBelow: v.optional(v.number()),
+	},
+	handler: async (ctx, { entryId, relevance, reason, archiveBelow }) => {
+		const entry = await ctx.db.get(entryId);
+		if (!entry) return;
+		await ctx.db.patch(entryId, {
+			relevance,
+			relevanceReason: reason,
+			...archivePatch(entry, relevance, archiveBelow),
+		});
+	},
+});
+
+/** Archives or restores an entry for its score under `archiveBelow`. */
+function archivePatch(
+	entry: Doc<"entries">,
+	relevance: number,
+	archiveBelow: number | undefined,
+): Partial<Doc<"entries">> {
+	const below = archiveBelow !== undefined && relevance < archiveBelow;
+	if (below && !entry.archived && !entry.used) {
+		return { archived: true, autoArchived: true };
+	}
+	if (!below && entry.autoArchived) {
+		// A rescore against a new brief can bring an entry back.
+		return { archived: false, autoArchived: undefined };
+	}
+	return {};
+}
+
+async function classify(
+	brief: string,
+	entry: Doc<"entries">,
+): Promise<{ score: number; reason?: string } | null> {
+	const body = (entry.content ?? entry.snippet ?? "").slice(
+		0,
+		CLASSIFY_CONTENT_CHARS,
+	);
+	const lines = [`Topic brief:\n${brief}`, "", `Title: ${entry.title}`];
+	if (entry.siteName) lines.push(`Publication: ${entry.siteName}`);
+	if (body) lines.push("", body);
+	const res = await getAnthropicClient().messages.create({
+		model: CLASSIFY_MODEL,
+		max_tokens: 200,
+		system:
+			"You rate how relevant a news item is to a newsletter's topic brief. " +
+			'Reply with JSON only: {"score": <integer 0-10>, "reason": "<one short sentence>"}.',
+		messages: [{ role: "user", content: lines.join("\n") }],
+	});
+	const textPart = res.content.find((c) => c.type === "text");
+	return textPart && textPart.type === "text"
+		? parseClassification(textPart.text)
+		: null;
+}
+
+// Scheduled once an entry has its embedding, and for recent entries whenever
+// the brief is re-embedded.
+export const scoreEntry = internalAction({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }): Promise<void> => {
+		const contextRef = makeFunctionReference<"query">(
+			"relevance:_getScoringContext",
+		) as unknown as FunctionReference<
+			"query",
+			"internal",
+			{ entryId: Id<"entries"> },
+			{ entry: Doc<"entries">; brief: Doc<"topicBriefs"> } | null
+		>;
+		const scoring = await ctx.runQuery(contextRef, { entryId });
+		if (!scoring) return;
+		const { entry, brief } = scoring;
+		if (!entry.embedding || !brief.embedding) return;
+
+		const embeddingScore = similarityToRelevance(
+			cosineSimilarity(entry.embedding, brief.embedding),
+		);
+		let classified: { score: number; reason?: string } | null = null;
+		if (brief.classify && isAnthropicConfigured()) {
+			try {
+				classified = await classify(brief.brief, entry);
+			} catch (err) {
+				// Similarity alone still gives a usable score.
+				console.warn(`Relevance classification failed for ${entryId}:`, err);
+			}
+		}
+
+		const applyRef = makeFunctionReference<"mutation">(
+			"relevance:_applyScore",
+		) as unknown as FunctionReference<
+			"mutation",
+			"internal",
+			{
+				entryId: Id<"entries">;
+				relevance: number;
+				reason?: string;
+				archiveBelow?: number;
+			},
+			void
+		>;
+		await ctx.runMutation(applyRef, {
+			entryId,
+			relevance: blendRelevance(embeddingScore, classified?.score),
+			reason: classified?.reason,
+			archiveBelow: brief.archiveBelow,
+		});
+	},
+});
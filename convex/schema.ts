@@ -1,5 +1,12 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { generationUsageValidator } from "./lib/draftPrompt";
+import { entrySummaryValidator } from "./lib/summary";
+import { templateSectionValidator } from "./lib/templates";
+import { textOpValidator } from "./lib/textOperation";
+import { entryMetadataFields } from "./sources/adapter";
+import { filterSampleItemValidator } from "./sources/filters";
+import { sourceTypeValidator } from "./sources/registry";
 
 export default defineSchema({
 	users: defineTable({
@@ -19,6 +26,9 @@ export default defineSchema({
 		slug: v.string(),
 		description: v.optional(v.string()),
 		clerkOrgId: v.string(),
+		// Extra query parameters stripped from links before deduplication, on
+		// top of the built-in tracking list in `dedupe.ts`.
+		trackingParams: v.optional(v.array(v.string())),
 		createdAt: v.number(),
 		updatedAt: v.number(),
 	})
@@ -40,12 +50,7 @@ export default defineSchema({
 
 	sources: defineTable({
 		orgId: v.id("organizations"),
-		type: v.union(
-			v.literal("web_search"),
-			v.literal("rss"),
-			v.literal("website"),
-			v.literal("manual"),
-		),
+		type: sourceTypeValidator,
 		name: v.string(),
 		config: v.any(),
 		schedule: v.optional(v.string()),
@@ -62,6 +67,21 @@ export default defineSchema({
 		lastRunAt: v.optional(v.number()),
 		nextRunAt: v.optional(v.number()),
 		lastError: v.optional(v.string()),
+		consecutiveFailures: v.optional(v.number()),
+		autoPauseAfter: v.optional(v.number()),
+		pausedReason: v.optional(v.string()),
+		httpCache: v.optional(
+			v.object({
+				etag: v.optional(v.string()),
+				lastModified: v.optional(v.string()),
+			}),
+		),
+		ingestCursor: v.optional(
+			v.object({
+				latestPublishedAt: v.optional(v.number()),
+				recentItemKeys: v.array(v.string()),
+			}),
+		),
 		createdAt: v.number(),
 		updatedAt: v.number(),
 	})
@@ -78,13 +98,24 @@ export default defineSchema({
 		content: v.optional(v.string()),
 		fetchedAt: v.number(),
 		publishedAt: v.optional(v.number()),
+		...entryMetadataFields,
 		used: v.boolean(),
 		usedAt: v.optional(v.number()),
 		usedByUserId: v.optional(v.id("users")),
 		archived: v.boolean(),
 		embedding: v.optional(v.array(v.float64())),
+		clusterId: v.optional(v.id("storyClusters")),
+		// 0–1 fit with the org's topic brief; see `relevance.ts`.
+		relevance: v.optional(v.number()),
+		relevanceReason: v.optional(v.string()),
+		// Archived by the relevance threshold rather than by a person.
+		autoArchived: v.optional(v.boolean()),
+		// Cached digest the draft prompts use in place of `content`.
+		summary: v.optional(entrySummaryValidator),
 	})
 		.index("by_org_fetchedAt", ["orgId", "fetchedAt"])
+		.index("by_org_relevance", ["orgId", "relevance"])
+		.index("by_cluster", ["clusterId"])
 		.index("by_org_canonicalUrl", ["orgId", "canonicalUrl"])
 		.index("by_org_used", ["orgId", "used"])
 		.index("by_org_archived", ["orgId", "archived"])
@@ -94,6 +125,35 @@ export default defineSchema({
 			filterFields: ["orgId", "used", "archived"],
 		}),
 
+	// Org-managed taxonomy. Entries get tags from Claude on ingest (`ai`) or
+	// by hand (`manual`).
+	tags: defineTable({
+		orgId: v.id("organizations"),
+		name: v.string(),
+		description: v.optional(v.string()),
+		createdAt: v.number(),
+	}).index("by_org", ["orgId"]),
+
+	entryTags: defineTable({
+		entryId: v.id("entries"),
+		tagId: v.id("tags"),
+		orgId: v.id("organizations"),
+		assignedBy: v.union(v.literal("ai"), v.literal("manual")),
+		createdAt: v.number(),
+	})
+		.index("by_entry", ["entryId"])
+		.index("by_tag", ["tagId"]),
+
+	// Entries from different outlets covering the same story, matched by
+	// embedding similarity. The representative is the first entry seen.
+	storyClusters: defineTable({
+		orgId: v.id("organizations"),
+		representativeEntryId: v.id("entries"),
+		size: v.number(),
+		createdAt: v.number(),
+		updatedAt: v.number(),
+	}).index("by_org", ["orgId"]),
+
 	entrySources: defineTable({
 		entryId: v.id("entries"),
 		sourceId: v.id("sources"),
@@ -102,7 +162,7 @@ export default defineSchema({
 		foundAt: v.number(),
 	})
 		.index("by_entry", ["entryId"])
-		.index("by_source", ["sourceId"]),
+		.index("by_source_originalUrl", ["sourceId", "originalUrl"]),
 
 	drafts: defineTable({
 		orgId: v.id("organizations"),
@@ -118,18 +178,79 @@ export default defineSchema({
 		updatedAt: v.number(),
 		finalizedAt: v.optional(v.number()),
 		createdByUserId: v.id("users"),
+		// Number of steps applied to the body; missing means none yet.
+		version: v.optional(v.number()),
+		templateId: v.optional(v.id("draftTemplates")),
+		generation: v.optional(generationUsageValidator),
 	})
 		.index("by_org", ["orgId"])
-		.index("by_org_status", ["orgId", "status"]),
+		.index("by_org_status", ["orgId", "status"])
+		.index("by_status_updatedAt", ["status", "updatedAt"]),
+
+	// Log of body edits, one operation per version, that open editors replay
+	// and rebase their own unsent edits over. See `draftCollab.ts`.
+	draftSteps: defineTable({
+		draftId: v.id("drafts"),
+		orgId: v.id("organizations"),
+		version: v.number(),
+		clientId: v.string(),
+		userId: v.optional(v.id("users")),
+		op: textOpValidator,
+		createdAt: v.number(),
+	}).index("by_draft", ["draftId", "version"]),
+
+	// One row per open editor tab, refreshed by heartbeats.
+	draftPresence: defineTable({
+		draftId: v.id("drafts"),
+		orgId: v.id("organizations"),
+		userId: v.id("users"),
+		clientId: v.string(),
+		selection: v.optional(v.object({ start: v.number(), end: v.number() })),
+		version: v.number(),
+		lastSeenAt: v.number(),
+	})
+		.index("by_draft", ["draftId"])
+		.index("by_clientId", ["clientId"]),
+
+	// Snapshots of a draft's title and body. Autosaves within a few minutes
+	// of each other share one revision; see `draftRevisions.ts`.
+	draftRevisions: defineTable({
+		draftId: v.id("drafts"),
+		orgId: v.id("organizations"),
+		title: v.string(),
+		body: v.string(),
+		reason: v.union(
+			v.literal("generated"),
+			v.literal("autosave"),
+			v.literal("finalize"),
+			v.literal("reopen"),
+			v.literal("restore"),
+			v.literal("ai_rewrite"),
+		),
+		createdAt: v.number(),
+		createdByUserId: v.optional(v.id("users")),
+	}).index("by_draft", ["draftId", "createdAt"]),
 
 	draftEntries: defineTable({
 		draftId: v.id("drafts"),
 		entryId: v.id("entries"),
 		orgId: v.id("organizations"),
+		// Name of the template section the entry is covered in.
+		section: v.optional(v.string()),
 	})
 		.index("by_draft", ["draftId"])
 		.index("by_entry", ["entryId"]),
 
+	// Org-defined newsletter structure drafts can be written to.
+	draftTemplates: defineTable({
+		orgId: v.id("organizations"),
+		name: v.string(),
+		description: v.optional(v.string()),
+		sections: v.array(templateSectionValidator),
+		createdAt: v.number(),
+		updatedAt: v.number(),
+	}).index("by_org", ["orgId"]),
+
 	ghostWriterProfiles: defineTable({
 		orgId: v.id("organizations"),
 		summary: v.string(),
@@ -148,6 +269,17 @@ export default defineSchema({
 		createdAt: v.number(),
 	}).index("by_org", ["orgId"]),
 
+	topicBriefs: defineTable({
+		orgId: v.id("organizations"),
+		brief: v.string(),
+		// Cleared whenever the brief changes, until it is re-embedded.
+		embedding: v.optional(v.array(v.float64())),
+		classify: v.boolean(),
+		archiveBelow: v.optional(v.number()),
+		updatedAt: v.number(),
+		updatedByUserId: v.id("users"),
+	}).index("by_org", ["orgId"]),
+
 	sourceRuns: defineTable({
 		sourceId: v.id("sources"),
 		orgId: v.id("organizations"),
@@ -159,12 +291,40 @@ export default defineSchema({
 			v.literal("error"),
 		),
 		itemsAdded: v.optional(v.number()),
+		itemsFetched: v.optional(v.number()),
+		itemsDuplicate: v.optional(v.number()),
+		itemsRejected: v.optional(v.number()),
+		// The part of `itemsRejected` dropped by the source's keyword filters.
+		itemsFiltered: v.optional(v.number()),
+		fetchMs: v.optional(v.number()),
+		parseMs: v.optional(v.number()),
+		ingestMs: v.optional(v.number()),
+		unchanged: v.optional(v.boolean()),
 		error: v.optional(v.string()),
 		acknowledged: v.optional(v.boolean()),
 		acknowledgedAt: v.optional(v.number()),
 	})
 		.index("by_source_startedAt", ["sourceId", "startedAt"])
-		.index("by_org_startedAt", ["orgId", "startedAt"]),
+		.index("by_org_startedAt", ["orgId", "startedAt"])
+		.index("by_status_startedAt", ["status", "startedAt"]),
+
+	// The latest non-empty fetch per source, trimmed, for previewing filters.
+	sourceFetchSamples: defineTable({
+		sourceId: v.id("sources"),
+		orgId: v.id("organizations"),
+		fetchedAt: v.number(),
+		items: v.array(filterSampleItemValidator),
+	}).index("by_source", ["sourceId"]),
+
+	// Links a source's filters turned away, so listing pages don't read them
+	// again on every run. Dropped when the source's config changes.
+	sourceRejectedUrls: defineTable({
+		sourceId: v.id("sources"),
+		url: v.string(),
+		rejectedAt: v.number(),
+	})
+		.index("by_source_url", ["sourceId", "url"])
+		.index("by_source_rejectedAt", ["sourceId", "rejectedAt"]),
 
 	analyticsEvents: defineTable({
 		orgId: v.id("organizations"),
@@ -176,10 +336,57 @@ export default defineSchema({
 
 	autoDraftSchedules: defineTable({
 		orgId: v.id("organizations"),
+		// Unset on schedules saved before an org could have several.
+		name: v.optional(v.string()),
 		enabled: v.boolean(),
 		cron: v.string(),
 		timezone: v.optional(v.string()),
 		lastRunAt: v.optional(v.number()),
+		// Next time the cron fires in `timezone`; unset when it never does.
+		nextRunAt: v.optional(v.number()),
 		createdByUserId: v.id("users"),
+		templateId: v.optional(v.id("draftTemplates")),
+		// Only stories found by one of these sources / carrying one of these
+		// tags. Unset or empty means no filter.
+		sourceIds: v.optional(v.array(v.id("sources"))),
+		tagIds: v.optional(v.array(v.id("tags"))),
+		// How far back to look for unused stories; 7 days when unset.
+		lookbackHours: v.optional(v.number()),
+		// Most stories per draft; 20 when unset.
+		maxEntries: v.optional(v.number()),
 	}).index("by_org", ["orgId"]),
+
+	// One row per time an auto-draft schedule fires.
+	autoDraftRuns: defineTable({
+		orgId: v.id("organizations"),
+		scheduleId: v.id("autoDraftSchedules"),
+		// Copied so the history still reads right after a rename or delete.
+		scheduleName: v.string(),
+		startedAt: v.number(),
+		finishedAt: v.optional(v.number()),
+		// "running" lasts until the draft has been written.
+		status: v.union(
+			v.literal("running"),
+			v.literal("succeeded"),
+			v.literal("skipped"),
+			v.literal("failed"),
+			// The draft was stopped or deleted before it was finished.
+			v.literal("cancelled"),
+		),
+		// Why the run was skipped, failed or cancelled.
+		reason: v.optional(v.string()),
+		// Unused stories that passed the schedule's filters, up to its limit,
+		// and how many of them made it into the draft.
+		entriesConsidered: v.optional(v.number()),
+		entriesUsed: v.optional(v.number()),
+		draftId: v.optional(v.id("drafts")),
+		generation: v.optional(generationUsageValidator),
+		acknowledged: v.optional(v.boolean()),
+		acknowledgedAt: v.optional(v.number()),
+	})
+		.index("by_org_startedAt", ["orgId", "startedAt"])
+		.index("by_schedule_startedAt", ["scheduleId", "startedAt"])
+		.index("by_draft", ["draftId"])
+		.index("by_status_startedAt", ["status", "startedAt"])
+		.index("by_org_status_startedAt", ["orgId", "status", "startedAt"]),
 });
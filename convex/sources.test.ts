@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { sameConfig } from "./sources";
+
+describe("sameConfig", () => {
+	it("treats a resaved config as unchanged", () => {
+		expect(
+			sameConfig(
+				{ url: "https://example.com/feed", filters: { exclude: ["ad"] } },
+				{ filters: { exclude: ["ad"] }, url: "https://example.com/feed" },
+			),
+		).toBe(true);
+	});
+
+	it("ignores unset keys", () => {
+		expect(
+			sameConfig(
+				{ mode: "article", url: "https://example.com", maxItems: undefined },
+				{ mode: "article", url: "https://example.com" },
+			),
+		).toBe(true);
+		expect(sameConfig(undefined, {})).toBe(true);
+	});
+
+	it("notices a changed value, filter or list order", () => {
+		const stored = {
+			url: "https://example.com/feed",
+			filters: { exclude: ["a", "b"] },
+		};
+		expect(
+			sameConfig({ ...stored, url: "https://example.com/other" }, stored),
+		).toBe(false);
+		expect(sameConfig({ url: stored.url }, stored)).toBe(false);
+		expect(
+			sameConfig({ ...stored, filters: { exclude: ["b", "a"] } }, stored),
+		).toBe(false);
+	});
+});
@@ -5,19 +5,26 @@ import {
 import { ConvexError, v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import {
+	type MutationCtx,
 	internalMutation,
 	internalQuery,
 	mutation,
 	query,
 } from "./_generated/server";
 import { requireOrgMember } from "./orgAuth";
-
-const sourceTypeValidator = v.union(
-	v.literal("web_search"),
-	v.literal("rss"),
-	v.literal("website"),
-	v.literal("manual"),
-);
+import {
+	FILTER_REJECTION_LABELS,
+	applySourceFilters,
+	filterSampleItemValidator,
+	validateSourceFilters,
+} from "./sources/filters";
+import {
+	type SourceType,
+	getSourceAdapter,
+	isSchedulable,
+	listSourceTypeForms,
+	sourceTypeValidator,
+} from "./sources/registry";
 
 const scheduleValidator = v.union(
 	v.literal("15m"),
@@ -29,6 +36,11 @@ const scheduleValidator = v.union(
 
 type Schedule = "15m" | "1h" | "6h" | "daily" | "weekly";
 
+// Failing sources back off exponentially, up to this multiple of their
+// normal cadence, and are paused after `autoPauseAfter` failures in a row.
+const MAX_BACKOFF_MULTIPLIER = 8;
+const DEFAULT_AUTO_PAUSE_AFTER = 5;
+
 function cadenceMs(schedule: Schedule): number {
 	switch (schedule) {
 		case "15m":
@@ -44,32 +56,59 @@ function cadenceMs(schedule: Schedule): number {
 	}
 }
 
-function validateConfigForType(
-	type: Doc<"sources">["type"],
-	config: Record<string, unknown>,
-) {
-	switch (type) {
-		case "rss":
-		case "website": {
-			const url = (config.url as string | undefined)?.trim();
-			if (!url) throw new ConvexError(`URL is required for ${type} source`);
-			try {
-				new URL(url);
-			} catch {
-				throw new ConvexError("URL is invalid");
-			}
-			break;
-		}
-		case "web_search": {
-			const query = (config.query as string | undefined)?.trim();
-			if (!query) throw new ConvexError("Search query is required");
-			break;
-		}
-		case "manual":
-			break;
+function backoffMs(cadence: number, consecutiveFailures: number): number {
+	if (consecutiveFailures <= 0) return cadence;
+	const multiplier = Math.min(
+		2 ** (consecutiveFailures - 1),
+		MAX_BACKOFF_MULTIPLIER,
+	);
+	return cadence * multiplier;
+}
+
+function validateAutoPauseAfter(value: number) {
+	if (!Number.isInteger(value) || value < 0) {
+		throw new ConvexError(
+			"Auto-pause threshold must be a whole number (0 disables it)",
+		);
 	}
 }
 
+/**
+ * Runs the adapter's validation on its own keys and keeps the shared
+ * `filters` key, which every source type supports.
+ */
+function normalizeConfig(type: SourceType, config: unknown) {
+	const { filters, ...rest } = (config ?? {}) as Record<string, unknown>;
+	const normalized = getSourceAdapter(type).validate(rest);
+	const validFilters = validateSourceFilters(filters);
+	return validFilters ? { ...normalized, filters: validFilters } : normalized;
+}
+
+function stableJson(value: unknown): string {
+	return JSON.stringify(value, (_key, v: unknown) =>
+		v && typeof v === "object" && !Array.isArray(v)
+			? Object.fromEntries(
+					Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+				)
+			: v,
+	);
+}
+
+/**
+ * Whether two stored configs are the same, ignoring key order and unset
+ * keys. The edit page sends the config with every save, changed or not.
+ */
+export function sameConfig(a: unknown, b: unknown): boolean {
+	return stableJson(a ?? {}) === stableJson(b ?? {});
+}
+
+export const listTypes = query({
+	args: {},
+	handler: async () => {
+		return listSourceTypeForms();
+	},
+});
+
 export const list = query({
 	args: { orgId: v.id("organizations") },
 	handler: async (ctx, { orgId }) => {
@@ -106,13 +145,13 @@ export const create = mutation({
 	},
 	handler: async (ctx, { orgId, type, name, schedule, config }) => {
 		await requireOrgMember(ctx, orgId, "admin");
-		if (type === "manual") {
+		const adapter = getSourceAdapter(type);
+		if (!adapter.creatable) {
 			throw new ConvexError(
-				"Manual source is built-in and cannot be created directly",
+				`${adapter.label} source is built-in and cannot be created directly`,
 			);
 		}
-		const normalized = (config ?? {}) as Record<string, unknown>;
-		validateConfigForType(type, normalized);
+		const normalized = normalizeConfig(type, config);
 		const now = Date.now();
 		const sourceId = await ctx.db.insert("sources", {
 			orgId,
@@ -137,8 +176,13 @@ export const update = mutation({
 		name: v.optional(v.string()),
 		schedule: v.optional(scheduleValidator),
 		config: v.optional(v.any()),
+		// `null` goes back to the default threshold.
+		autoPauseAfter: v.optional(v.union(v.number(), v.null())),
 	},
-	handler: async (ctx, { orgId, sourceId, name, schedule, config }) => {
+	handler: async (
+		ctx,
+		{ orgId, sourceId, name, schedule, config, autoPauseAfter },
+	) => {
 		await requireOrgMember(ctx, orgId, "admin");
 		const source = await ctx.db.get(sourceId);
 		if (!source || source.orgId !== orgId || source.status === "deleted") {
@@ -147,10 +191,21 @@ export const update = mutation({
 		const patch: Partial<Doc<"sources">> = { updatedAt: Date.now() };
 		if (name !== undefined) patch.name = name.trim();
 		if (schedule !== undefined) patch.schedule = schedule;
-		if (config !== undefined) {
-			const normalized = (config ?? {}) as Record<string, unknown>;
-			validateConfigForType(source.type, normalized);
+		const normalized =
+			config !== undefined ? normalizeConfig(source.type, config) : undefined;
+		if (normalized !== undefined && !sameConfig(normalized, source.config)) {
 			patch.config = normalized;
+			// Validators and cursor belong to the old config; start fresh.
+			patch.httpCache = undefined;
+			patch.ingestCursor = undefined;
+			// The new filters may let these through.
+			await clearRejectedUrls(ctx, sourceId);
+		}
+		if (autoPauseAfter === null) {
+			patch.autoPauseAfter = undefined;
+		} else if (autoPauseAfter !== undefined) {
+			validateAutoPauseAfter(autoPauseAfter);
+			patch.autoPauseAfter = autoPauseAfter;
 		}
 		await ctx.db.patch(sourceId, patch);
 	},
@@ -170,10 +225,13 @@ export const setStatus = mutation({
 		}
 		const patch: Partial<Doc<"sources">> = {
 			status,
+			pausedReason: undefined,
 			updatedAt: Date.now(),
 		};
 		if (status === "active" && source.status === "paused") {
+			// Resuming gives the source a clean slate, including after an auto-pause.
 			patch.nextRunAt = Date.now();
+			patch.consecutiveFailures = 0;
 		}
 		await ctx.db.patch(sourceId, patch);
 	},
@@ -202,53 +260,305 @@ export const _getSource = internalQuery({
 	},
 });
 
+const runStatsValidator = v.object({
+	itemsFetched: v.number(),
+	itemsDuplicate: v.number(),
+	itemsRejected: v.number(),
+	itemsFiltered: v.optional(v.number()),
+	fetchMs: v.optional(v.number()),
+	parseMs: v.optional(v.number()),
+	ingestMs: v.optional(v.number()),
+});
+
+/**
+ * Updates health, failure count and the next run time after a run ends,
+ * backing off or auto-pausing when it failed.
+ */
+async function recordRunOutcome(
+	ctx: MutationCtx,
+	source: Doc<"sources">,
+	outcome: { success: boolean; error?: string; now: number },
+	extra: Partial<Doc<"sources">> = {},
+) {
+	const { success, error, now } = outcome;
+	const cadence = source.schedule
+		? cadenceMs(source.schedule as Schedule)
+		: 60 * 60 * 1000;
+	let health: Doc<"sources">["health"];
+	if (success) {
+		health = "healthy";
+	} else {
+		health = source.health === "warning" ? "failing" : "warning";
+	}
+	const consecutiveFailures = success
+		? 0
+		: (source.consecutiveFailures ?? 0) + 1;
+	const autoPauseAfter = source.autoPauseAfter ?? DEFAULT_AUTO_PAUSE_AFTER;
+	const autoPause =
+		!success &&
+		source.status === "active" &&
+		autoPauseAfter > 0 &&
+		consecutiveFailures >= autoPauseAfter;
+	await ctx.db.patch(source._id, {
+		lastRunAt: now,
+		nextRunAt:
+			source.status === "active" && !autoPause
+				? now + backoffMs(cadence, consecutiveFailures)
+				: undefined,
+		lastError: error,
+		health,
+		consecutiveFailures,
+		...(autoPause
+			? {
+					status: "paused" as const,
+					pausedReason: `Auto-paused after ${consecutiveFailures} consecutive failures${error ? `: ${error}` : ""}`,
+				}
+			: {}),
+		updatedAt: now,
+		...extra,
+	});
+}
+
+// Cap the run history to a reasonable size per source (keep newest 50).
+async function capRunHistory(ctx: MutationCtx, sourceId: Id<"sources">) {
+	const old = await ctx.db
+		.query("sourceRuns")
+		.withIndex("by_source_startedAt", (q) => q.eq("sourceId", sourceId))
+		.order("desc")
+		.collect();
+	for (let i = 50; i < old.length; i++) {
+		await ctx.db.delete(old[i]._id);
+	}
+}
+
 export const _finishRun = internalMutation({
 	args: {
 		sourceId: v.id("sources"),
+		runId: v.optional(v.id("sourceRuns")),
+		startedAt: v.optional(v.number()),
 		success: v.boolean(),
 		itemsAdded: v.number(),
+		stats: v.optional(runStatsValidator),
+		notModified: v.optional(v.boolean()),
+		ingestCursor: v.optional(
+			v.object({
+				latestPublishedAt: v.optional(v.number()),
+				recentItemKeys: v.array(v.string()),
+			}),
+		),
+		httpCache: v.optional(
+			v.object({
+				etag: v.optional(v.string()),
+				lastModified: v.optional(v.string()),
+			}),
+		),
 		error: v.optional(v.string()),
+		sample: v.optional(v.array(filterSampleItemValidator)),
+		rejectedUrls: v.optional(v.array(v.string())),
 	},
-	handler: async (ctx, { sourceId, success, itemsAdded, error }) => {
+	handler: async (
+		ctx,
+		{
+			sourceId,
+			runId,
+			startedAt,
+			success,
+			itemsAdded,
+			stats,
+			notModified,
+			ingestCursor,
+			httpCache,
+			error,
+			sample,
+			rejectedUrls,
+		},
+	) => {
 		const source = await ctx.db.get(sourceId);
 		if (!source) return;
+		const run = runId ? await ctx.db.get(runId) : null;
+		// The watchdog already closed this run as timed out and rescheduled the
+		// source; a late finish must not count the run a second time.
+		if (run && run.status !== "running") return;
+
 		const now = Date.now();
-		const cadence = source.schedule
-			? cadenceMs(source.schedule as Schedule)
-			: 60 * 60 * 1000;
-		let health: Doc<"sources">["health"];
-		if (success) {
-			health = "healthy";
-		} else {
-			health = source.health === "warning" ? "failing" : "warning";
-		}
-		await ctx.db.patch(sourceId, {
-			lastRunAt: now,
-			nextRunAt: source.status === "active" ? now + cadence : undefined,
-			lastError: error,
-			health,
-			updatedAt: now,
-		});
+		await recordRunOutcome(
+			ctx,
+			source,
+			{ success, error, now },
+			{
+				// A 304 leaves the stored validators valid; only replace them when
+				// the upstream sent a fresh pair with a full response.
+				...(httpCache !== undefined ? { httpCache } : {}),
+				...(ingestCursor !== undefined ? { ingestCursor } : {}),
+			},
+		);
 
-		const runStarted = now - 1;
-		await ctx.db.insert("sourceRuns", {
-			sourceId,
-			orgId: source.orgId,
-			startedAt: runStarted,
+		const result = {
 			finishedAt: now,
-			status: success ? "success" : "error",
+			status: success ? ("success" as const) : ("error" as const),
 			itemsAdded,
+			...stats,
+			...(notModified ? { unchanged: true } : {}),
 			error,
+		};
+		if (run) {
+			await ctx.db.patch(run._id, result);
+		} else {
+			await ctx.db.insert("sourceRuns", {
+				sourceId,
+				orgId: source.orgId,
+				startedAt: startedAt ?? now,
+				...result,
+			});
+		}
+		await capRunHistory(ctx, sourceId);
+		if (sample && sample.length > 0) {
+			await saveFetchSample(ctx, source, sample, now);
+		}
+		if (rejectedUrls && rejectedUrls.length > 0) {
+			await recordRejectedUrls(ctx, sourceId, rejectedUrls, now);
+		}
+	},
+});
+
+// For a dispatch that never fetched: the source was deleted in the meantime,
+// or its type has no fetcher. Dropping the `running` row keeps the watchdog
+// from closing it later as a timed-out failure.
+export const _discardRun = internalMutation({
+	args: { runId: v.id("sourceRuns") },
+	handler: async (ctx, { runId }) => {
+		const run = await ctx.db.get(runId);
+		if (run?.status === "running") await ctx.db.delete(runId);
+	},
+});
+
+const MAX_REJECTED_URLS = 500;
+
+async function recordRejectedUrls(
+	ctx: MutationCtx,
+	sourceId: Id<"sources">,
+	urls: string[],
+	rejectedAt: number,
+) {
+	for (const url of new Set(urls)) {
+		const existing = await ctx.db
+			.query("sourceRejectedUrls")
+			.withIndex("by_source_url", (q) =>
+				q.eq("sourceId", sourceId).eq("url", url),
+			)
+			.first();
+		if (existing) {
+			await ctx.db.patch(existing._id, { rejectedAt });
+		} else {
+			await ctx.db.insert("sourceRejectedUrls", { sourceId, url, rejectedAt });
+		}
+	}
+	const all = await ctx.db
+		.query("sourceRejectedUrls")
+		.withIndex("by_source_rejectedAt", (q) => q.eq("sourceId", sourceId))
+		.order("desc")
+		.collect();
+	for (let i = MAX_REJECTED_URLS; i < all.length; i++) {
+		await ctx.db.delete(all[i]._id);
+	}
+}
+
+async function clearRejectedUrls(ctx: MutationCtx, sourceId: Id<"sources">) {
+	const rows = await ctx.db
+		.query("sourceRejectedUrls")
+		.withIndex("by_source_rejectedAt", (q) => q.eq("sourceId", sourceId))
+		.collect();
+	for (const row of rows) await ctx.db.delete(row._id);
+}
+
+async function saveFetchSample(
+	ctx: MutationCtx,
+	source: Doc<"sources">,
+	items: Doc<"sourceFetchSamples">["items"],
+	fetchedAt: number,
+) {
+	const existing = await ctx.db
+		.query("sourceFetchSamples")
+		.withIndex("by_source", (q) => q.eq("sourceId", source._id))
+		.unique();
+	if (existing) {
+		await ctx.db.patch(existing._id, { items, fetchedAt });
+	} else {
+		await ctx.db.insert("sourceFetchSamples", {
+			sourceId: source._id,
+			orgId: source.orgId,
+			fetchedAt,
+			items,
 		});
+	}
+}
 
-		// Cap the run history to a reasonable size per source (keep newest 50).
-		const old = await ctx.db
+/**
+ * Applies unsaved filter settings to the items of the source's latest fetch,
+ * so admins can see what a change would keep before saving it.
+ */
+export const previewFilters = query({
+	args: {
+		orgId: v.id("organizations"),
+		sourceId: v.id("sources"),
+		filters: v.any(),
+	},
+	handler: async (ctx, { orgId, sourceId, filters }) => {
+		await requireOrgMember(ctx, orgId);
+		const source = await ctx.db.get(sourceId);
+		if (!source || source.orgId !== orgId) {
+			throw new ConvexError("Source not found");
+		}
+		const sample = await ctx.db
+			.query("sourceFetchSamples")
+			.withIndex("by_source", (q) => q.eq("sourceId", sourceId))
+			.unique();
+		if (!sample) return null;
+		let valid: ReturnType<typeof validateSourceFilters>;
+		try {
+			valid = validateSourceFilters(filters);
+		} catch (err) {
+			// Shown next to the form rather than thrown, since this runs on
+			// every edit while the admin is still typing.
+			if (err instanceof ConvexError && typeof err.data === "string") {
+				return { error: err.data };
+			}
+			throw err;
+		}
+		const { kept, rejected } = applySourceFilters(sample.items, valid);
+		return {
+			fetchedAt: sample.fetchedAt,
+			total: sample.items.length,
+			kept: kept.map((i) => ({ title: i.title, url: i.url })),
+			rejected: rejected.map(({ item, reason }) => ({
+				title: item.title,
+				url: item.url,
+				reason: FILTER_REJECTION_LABELS[reason],
+			})),
+		};
+	},
+});
+
+// Convex actions are killed after 10 minutes; anything still `running` well
+// past that crashed without reaching `_finishRun`.
+const RUN_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const reapStuckRuns = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const now = Date.now();
+		const stuck = await ctx.db
 			.query("sourceRuns")
-			.withIndex("by_source_startedAt", (q) => q.eq("sourceId", sourceId))
-			.order("desc")
-			.collect();
-		for (let i = 50; i < old.length; i++) {
-			await ctx.db.delete(old[i]._id);
+			.withIndex("by_status_startedAt", (q) =>
+				q.eq("status", "running").lt("startedAt", now - RUN_TIMEOUT_MS),
+			)
+			.take(100);
+		for (const run of stuck) {
+			const error = "timed out";
+			await ctx.db.patch(run._id, { status: "error", finishedAt: now, error });
+			const source = await ctx.db.get(run.sourceId);
+			if (!source || source.status === "deleted") continue;
+			await recordRunOutcome(ctx, source, { success: false, error, now });
 		}
 	},
 });
@@ -258,7 +568,7 @@ const runOneRef = makeFunctionReference<"action">(
 ) as unknown as FunctionReference<
 	"action",
 	"internal",
-	{ sourceId: Id<"sources"> },
+	{ sourceId: Id<"sources">; runId?: Id<"sourceRuns"> },
 	null
 >;
 
@@ -273,18 +583,26 @@ export const tick = internalMutation({
 		for (const source of due) {
 			if (
 				source.status !== "active" ||
-				source.type === "manual" ||
+				!isSchedulable(source.type) ||
 				source.nextRunAt === undefined
 			) {
 				continue;
 			}
-			// Mark in-flight by clearing nextRunAt so the next tick doesn't double-fire.
+			// Mark in-flight by clearing nextRunAt so the next tick doesn't double-fire,
+			// and open a `running` row the watchdog can time out if the action dies.
 			await ctx.db.patch(source._id, {
 				nextRunAt: undefined,
 				updatedAt: now,
 			});
+			const runId = await ctx.db.insert("sourceRuns", {
+				sourceId: source._id,
+				orgId: source.orgId,
+				startedAt: now,
+				status: "running",
+			});
 			await ctx.scheduler.runAfter(0, runOneRef, {
 				sourceId: source._id,
+				runId,
 			});
 		}
 	},
@@ -0,0 +1,146 @@
+import { ConvexError, v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import type { ActionCtx } from "../_generated/server";
+import type { IngestCursor } from "./cursor";
+
+/** Article metadata stored on entries alongside the extracted text. */
+export type EntryMetadata = {
+	imageUrl?: string;
+	author?: string;
+	siteName?: string;
+	/** BCP 47 tag as declared by the publisher, e.g. "en" or "pt-BR". */
+	language?: string;
+};
+
+export const entryMetadataFields = {
+	imageUrl: v.optional(v.string()),
+	author: v.optional(v.string()),
+	siteName: v.optional(v.string()),
+	language: v.optional(v.string()),
+};
+
+export interface FetchedItem extends EntryMetadata {
+	title: string;
+	url: string;
+	/** Stable upstream identity (RSS `guid`, Atom `id`), when the feed has one. */
+	guid?: string;
+	snippet?: string;
+	content?: string;
+	publishedAt?: number;
+	/**
+	 * The page's declared canonical URL (`og:url`, `rel=canonical`), used in
+	 * place of `url` for deduplication when present.
+	 */
+	canonicalUrl?: string;
+}
+
+/** Response validators remembered between runs for conditional GETs. */
+export interface HttpCache {
+	etag?: string;
+	lastModified?: string;
+}
+
+export interface FetchResult {
+	items: FetchedItem[];
+	/** The upstream answered 304 Not Modified; nothing was downloaded. */
+	notModified?: boolean;
+	/** Validators to send on the next run, when the upstream provided any. */
+	httpCache?: HttpCache;
+	/** Download vs. parse split, for adapters that can measure it. */
+	timings?: { fetchMs: number; parseMs: number };
+}
+
+/** What a source remembers between runs, handed to its adapter's fetch. */
+export interface SourceFetchState {
+	sourceId: Id<"sources">;
+	httpCache?: HttpCache;
+	cursor?: IngestCursor;
+}
+
+export type SourceConfig = Record<string, unknown>;
+
+/**
+ * One input on the create/edit source forms. The UI renders these generically
+ * (via `sources:listTypes`), so an adapter never needs its own form component.
+ */
+export interface SourceConfigField {
+	key: string;
+	label: string;
+	kind: "url" | "text" | "number" | "select";
+	/** Choices for `select` fields; the first is the default. */
+	options?: { value: string; label: string }[];
+	placeholder?: string;
+	required?: boolean;
+}
+
+export interface SourceAdapter<TConfig extends SourceConfig = SourceConfig> {
+	label: string;
+	description: string;
+	fields: SourceConfigField[];
+	/** Config key whose value is used as the display name when none is given. */
+	nameField?: string;
+	/** Whether admins can create this source type from the sources page. */
+	creatable: boolean;
+	/**
+	 * Keep a per-source cursor and skip items seen on earlier runs before they
+	 * reach the database. Only sensible for chronological feeds.
+	 */
+	incremental?: boolean;
+	/** Throws a `ConvexError` for invalid input; returns the normalized config. */
+	validate: (config: SourceConfig) => TConfig;
+	/** `null` for sources that are never scheduled (e.g. manual paste). */
+	fetch:
+		| ((
+				ctx: ActionCtx,
+				config: TConfig,
+				state: SourceFetchState,
+		  ) => Promise<FetchResult>)
+		| null;
+}
+
+export function defineSourceAdapter<TConfig extends SourceConfig>(
+	adapter: SourceAdapter<TConfig>,
+): SourceAdapter<TConfig> {
+	return adapter;
+}
+
+export function requireUrl(config: SourceConfig, label: string): string {
+	const url = (config.url as string | undefined)?.trim();
+	if (!url) throw new ConvexError(`URL is required for ${label} source`);
+	try {
+		new URL(url);
+	} catch {
+		throw new ConvexError("URL is invalid");
+	}
+	return url;
+}
+
+export function optionalPositiveInt(
+	config: SourceConfig,
+	key: string,
+	label: string,
+): number | undefined {
+	const raw = config[key];
+	if (raw === undefined || raw === null || raw === "") return undefined;
+	const n = Number(raw);
+	if (!Number.isInteger(n) || n <= 0) {
+		throw new ConvexError(`${label} must be a positive whole number`);
+	}
+	return n;
+}
+
+export function conditionalHeaders(
+	cache: HttpCache | undefined,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (cache?.etag) headers["if-none-match"] = cache.etag;
+	if (cache?.lastModified) headers["if-modified-since"] = cache.lastModified;
+	return headers;
+}
+
+export function httpCacheFrom(res: Response): HttpCache | undefined {
+	const etag = res.headers.get("etag") ?? undefined;
+	const lastModified = res.headers.get("last-modified") ?? undefined;
+	if (!etag && !lastModified) return undefined;
+	return { etag, lastModified };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { FetchedItem } from "./adapter";
+import { MAX_CURSOR_KEYS, advanceCursor, selectUnseenItems } from "./cursor";
+
+function item(url: string, extra: Partial<FetchedItem> = {}): FetchedItem {
+	return { title: url, url, ...extra };
+}
+
+describe("selectUnseenItems", () => {
+	it("passes everything through without a cursor", () => {
+		const items = [item("https://a.test/1"), item("https://a.test/2")];
+		expect(selectUnseenItems(items, undefined)).toEqual(items);
+	});
+
+	it("drops items whose guid was seen on the previous run", () => {
+		const items = [
+			item("https://a.test/1", { guid: "g1" }),
+			item("https://a.test/2", { guid: "g2" }),
+		];
+		const out = selectUnseenItems(items, { recentItemKeys: ["g1"] });
+		expect(out.map((i) => i.guid)).toEqual(["g2"]);
+	});
+
+	it("falls back to the URL when there is no guid", () => {
+		const items = [item("https://a.test/1"), item("https://a.test/2")];
+		const out = selectUnseenItems(items, {
+			recentItemKeys: ["https://a.test/1"],
+		});
+		expect(out.map((i) => i.url)).toEqual(["https://a.test/2"]);
+	});
+
+	it("drops unseen items published before the high-water mark", () => {
+		const items = [
+			item("https://a.test/old", { publishedAt: 100 }),
+			item("https://a.test/same", { publishedAt: 200 }),
+			item("https://a.test/new", { publishedAt: 300 }),
+			item("https://a.test/undated"),
+		];
+		const out = selectUnseenItems(items, {
+			latestPublishedAt: 200,
+			recentItemKeys: [],
+		});
+		expect(out.map((i) => i.url)).toEqual([
+			"https://a.test/same",
+			"https://a.test/new",
+			"https://a.test/undated",
+		]);
+	});
+});
+
+describe("advanceCursor", () => {
+	it("records the newest publish date and the keys of the fetch", () => {
+		const cursor = advanceCursor(
+			[
+				item("https://a.test/1", { guid: "g1", publishedAt: 300 }),
+				item("https://a.test/2", { publishedAt: 100 }),
+			],
+			{ latestPublishedAt: 200, recentItemKeys: ["stale"] },
+		);
+		expect(cursor).toEqual({
+			latestPublishedAt: 300,
+			recentItemKeys: ["g1", "https://a.test/2"],
+		});
+	});
+
+	it("never moves the high-water mark backwards", () => {
+		const cursor = advanceCursor(
+			[item("https://a.test/1", { publishedAt: 50 })],
+			{
+				latestPublishedAt: 200,
+				recentItemKeys: [],
+			},
+		);
+		expect(cursor.latestPublishedAt).toBe(200);
+	});
+
+	it("caps the number of remembered keys", () => {
+		const items = Array.from({ length: MAX_CURSOR_KEYS + 10 }, (_, i) =>
+			item(`https://a.test/${i}`),
+		);
+		expect(advanceCursor(items, undefined).recentItemKeys).toHaveLength(
+			MAX_CURSOR_KEYS,
+		);
+	});
+});
@@ -0,0 +1,61 @@
+import type { FetchedItem } from "./adapter";
+
+/** Identity keys of the most recent fetch are kept so reruns can skip them. */
+export const MAX_CURSOR_KEYS = 500;
+
+export interface IngestCursor {
+	latestPublishedAt?: number;
+	recentItemKeys: string[];
+}
+
+export function itemKey(item: FetchedItem): string {
+	return item.guid ?? item.url;
+}
+
+/**
+ * Drops items already seen on an earlier run: anything whose key is in the
+ * cursor, or whose publish date is older than the newest one we ingested.
+ * Undated items fall back to key matching only.
+ */
+export function selectUnseenItems(
+	items: FetchedItem[],
+	cursor: IngestCursor | undefined,
+): FetchedItem[] {
+	if (!cursor) return items;
+	const seen = new Set(cursor.recentItemKeys);
+	const latest = cursor.latestPublishedAt;
+	return items.filter((item) => {
+		if (seen.has(itemKey(item))) return false;
+		if (
+			latest !== undefined &&
+			item.publishedAt !== undefined &&
+			item.publishedAt < latest
+		) {
+			return false;
+		}
+		return true;
+	});
+}
+
+/** Cursor to store after a successful run over `items` (the full fetch). */
+export function advanceCursor(
+	items: FetchedItem[],
+	cursor: IngestCursor | undefined,
+): IngestCursor {
+	let latestPublishedAt = cursor?.latestPublishedAt;
+	for (const item of items) {
+		if (
+			item.publishedAt !== undefined &&
+			(latestPublishedAt === undefined || item.publishedAt > latestPublishedAt)
+		) {
+			latestPublishedAt = item.publishedAt;
+		}
+	}
+	const keys = Array.from(new Set(items.map(itemKey))).slice(
+		0,
+		MAX_CURSOR_KEYS,
+	);
+	return latestPublishedAt === undefined
+		? { recentItemKeys: keys }
+		: { latestPublishedAt, recentItemKeys: keys };
+}
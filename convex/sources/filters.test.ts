@@ -0,0 +1,136 @@
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+import {
+	type FilterRejection,
+	type FilterableItem,
+	type SourceFilters,
+	filterRejection,
+	filterSampleOf,
+	validateSourceFilters,
+} from "./filters";
+
+describe("filterRejection", () => {
+	const item: FilterableItem = {
+		title: "Acme raises Series B for AI chips",
+		url: "https://news.example.com/acme-series-b",
+		snippet: "The startup will expand its fab partnerships.",
+		content: "<p>Acme, the chip startup, raised $40M.</p>",
+	};
+	const cases: {
+		name: string;
+		filters: SourceFilters;
+		input?: Partial<FilterableItem>;
+		expected: FilterRejection | null;
+	}[] = [
+		{
+			name: "keeps everything without rules",
+			filters: {},
+			expected: null,
+		},
+		{
+			name: "keeps items mentioning an include keyword, case-insensitively",
+			filters: { include: ["crypto", "ai chips"] },
+			expected: null,
+		},
+		{
+			name: "rejects items matching no include rule",
+			filters: { include: ["crypto"], includePatterns: ["\\bquantum\\b"] },
+			expected: "not_included",
+		},
+		{
+			name: "keeps items matching an include pattern",
+			filters: { include: ["crypto"], includePatterns: ["series [a-c]\\b"] },
+			expected: null,
+		},
+		{
+			name: "looks inside HTML content",
+			filters: { include: ["$40M"] },
+			expected: null,
+		},
+		{
+			name: "exclude rules win over include rules",
+			filters: { include: ["acme"], exclude: ["startup"] },
+			expected: "excluded",
+		},
+		{
+			name: "rejects items matching an exclude pattern",
+			filters: { excludePatterns: ["^acme raises"] },
+			expected: "excluded",
+		},
+		{
+			name: "rejects blocked domains and their subdomains",
+			filters: { blockedDomains: ["example.com"] },
+			expected: "blocked_domain",
+		},
+		{
+			name: "doesn't treat a lookalike domain as blocked",
+			filters: { blockedDomains: ["ample.com"] },
+			expected: null,
+		},
+		{
+			name: "rejects items shorter than the minimum, ignoring markup",
+			filters: { minContentLength: 50 },
+			expected: "too_short",
+		},
+		{
+			name: "falls back to the snippet for length when there is no content",
+			filters: { minContentLength: 40 },
+			input: { content: undefined },
+			expected: null,
+		},
+		{
+			name: "uses the recorded full length for truncated sample content",
+			filters: { minContentLength: 500 },
+			input: { contentLength: 1200 },
+			expected: null,
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(filterRejection({ ...item, ...c.input }, c.filters)).toBe(
+				c.expected,
+			);
+		});
+	}
+});
+
+describe("validateSourceFilters", () => {
+	it("trims, dedupes and drops empty rules", () => {
+		expect(
+			validateSourceFilters({
+				include: [" ai ", "ai", ""],
+				exclude: [],
+				blockedDomains: ["https://www.Spam.example/path", "WWW.junk.test"],
+				minContentLength: "0",
+			}),
+		).toEqual({
+			include: ["ai"],
+			blockedDomains: ["spam.example", "junk.test"],
+		});
+	});
+
+	it("returns undefined when nothing is set", () => {
+		expect(validateSourceFilters({ include: [" "] })).toBeUndefined();
+	});
+
+	it("rejects invalid patterns and lengths", () => {
+		expect(() => validateSourceFilters({ includePatterns: ["("] })).toThrow(
+			ConvexError,
+		);
+		expect(() => validateSourceFilters({ minContentLength: -1 })).toThrow(
+			ConvexError,
+		);
+	});
+});
+
+describe("filterSampleOf", () => {
+	it("keeps plain-text content and its full length", () => {
+		const content = `<p>${"word ".repeat(1000)}</p>`;
+		const [sample] = filterSampleOf([
+			{ title: "Long", url: "https://example.com/long", content },
+		]);
+		expect(sample.contentLength).toBe(4999);
+		expect(sample.content).toHaveLength(2000);
+	});
+});
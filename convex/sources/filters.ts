@@ -0,0 +1,215 @@
+import { ConvexError, type Infer, v } from "convex/values";
+import type { FetchedItem } from "./adapter";
+
+/**
+ * Keyword and domain rules applied to every fetched item before it reaches
+ * the inbox. Stored under `filters` in a source's config, next to the
+ * adapter's own keys. Keywords and patterns match case-insensitively against
+ * the title, snippet and content.
+ */
+export type SourceFilters = {
+	/** Keep only items mentioning at least one of these (with `includePatterns`). */
+	include?: string[];
+	/** Drop items mentioning any of these. */
+	exclude?: string[];
+	includePatterns?: string[];
+	excludePatterns?: string[];
+	/** Drop items whose text (content, else snippet) is shorter than this. */
+	minContentLength?: number;
+	/** Drop items from these domains or their subdomains. */
+	blockedDomains?: string[];
+};
+
+export type FilterRejection =
+	| "blocked_domain"
+	| "too_short"
+	| "excluded"
+	| "not_included";
+
+export const FILTER_REJECTION_LABELS: Record<FilterRejection, string> = {
+	blocked_domain: "Blocked domain",
+	too_short: "Too short",
+	excluded: "Matched an exclude rule",
+	not_included: "Matched no include rule",
+};
+
+/** The parts of an item the filters look at. */
+export type FilterableItem = Pick<
+	FetchedItem,
+	"title" | "url" | "snippet" | "content"
+> & {
+	/** Full text length, when `content` has been truncated (e.g. samples). */
+	contentLength?: number;
+};
+
+const MAX_RULES = 100;
+
+function stringList(raw: unknown, label: string): string[] | undefined {
+	if (raw === undefined || raw === null) return undefined;
+	if (!Array.isArray(raw)) throw new ConvexError(`${label} must be a list`);
+	const out = [
+		...new Set(raw.map((s) => String(s).trim()).filter((s) => s !== "")),
+	];
+	if (out.length > MAX_RULES) {
+		throw new ConvexError(`${label} allows at most ${MAX_RULES} entries`);
+	}
+	return out.length > 0 ? out : undefined;
+}
+
+function domainOf(raw: string): string {
+	let host = raw.toLowerCase();
+	try {
+		if (/^https?:\/\//.test(host)) host = new URL(host).hostname;
+	} catch {
+		// not a URL; treat as a bare domain
+	}
+	return host.replace(/^www\./, "").replace(/\/.*$/, "");
+}
+
+/** Throws a `ConvexError` for invalid input; `undefined` when no rules are set. */
+export function validateSourceFilters(raw: unknown): SourceFilters | undefined {
+	if (raw === undefined || raw === null) return undefined;
+	if (typeof raw !== "object" || Array.isArray(raw)) {
+		throw new ConvexError("Filters must be an object");
+	}
+	const input = raw as Record<string, unknown>;
+	const filters: SourceFilters = {
+		include: stringList(input.include, "Include keywords"),
+		exclude: stringList(input.exclude, "Exclude keywords"),
+		includePatterns: stringList(input.includePatterns, "Include patterns"),
+		excludePatterns: stringList(input.excludePatterns, "Exclude patterns"),
+		blockedDomains: stringList(input.blockedDomains, "Blocked domains")?.map(
+			domainOf,
+		),
+	};
+	for (const pattern of [
+		...(filters.includePatterns ?? []),
+		...(filters.excludePatterns ?? []),
+	]) {
+		try {
+			new RegExp(pattern, "i");
+		} catch {
+			throw new ConvexError(`Invalid filter pattern: ${pattern}`);
+		}
+	}
+	const min = input.minContentLength;
+	if (min !== undefined && min !== null && min !== "") {
+		const n = Number(min);
+		if (!Number.isInteger(n) || n < 0) {
+			throw new ConvexError(
+				"Minimum content length must be a whole number of characters",
+			);
+		}
+		if (n > 0) filters.minContentLength = n;
+	}
+	const defined = Object.fromEntries(
+		Object.entries(filters).filter(([, value]) => value !== undefined),
+	) as SourceFilters;
+	return Object.keys(defined).length > 0 ? defined : undefined;
+}
+
+/** `config.filters` of a stored source, which was validated on save. */
+export function sourceFiltersOf(config: unknown): SourceFilters | undefined {
+	const filters = (config as { filters?: unknown } | null | undefined)?.filters;
+	return validateSourceFilters(filters);
+}
+
+function plainText(html: string): string {
+	return html
+		.replace(/<[^>]+>/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function hostOf(url: string): string | undefined {
+	try {
+		return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+	} catch {
+		return undefined;
+	}
+}
+
+/** Why `item` should be dropped, or `null` when it passes every rule. */
+export function filterRejection(
+	item: FilterableItem,
+	filters: SourceFilters,
+): FilterRejection | null {
+	if (filters.blockedDomains) {
+		const host = hostOf(item.url);
+		if (
+			host &&
+			filters.blockedDomains.some((d) => host === d || host.endsWith(`.${d}`))
+		) {
+			return "blocked_domain";
+		}
+	}
+	const body = plainText(item.content ?? item.snippet ?? "");
+	if (
+		filters.minContentLength !== undefined &&
+		(item.contentLength ?? body.length) < filters.minContentLength
+	) {
+		return "too_short";
+	}
+	const text = [item.title, item.snippet ?? "", body].join("\n");
+	const lower = text.toLowerCase();
+	const mentions = (keyword: string) => lower.includes(keyword.toLowerCase());
+	const matches = (pattern: string) => new RegExp(pattern, "i").test(text);
+	if (
+		filters.exclude?.some(mentions) ||
+		filters.excludePatterns?.some(matches)
+	) {
+		return "excluded";
+	}
+	const hasIncludeRules =
+		(filters.include?.length ?? 0) + (filters.includePatterns?.length ?? 0) > 0;
+	if (
+		hasIncludeRules &&
+		!filters.include?.some(mentions) &&
+		!filters.includePatterns?.some(matches)
+	) {
+		return "not_included";
+	}
+	return null;
+}
+
+export function applySourceFilters<T extends FilterableItem>(
+	items: T[],
+	filters: SourceFilters | undefined,
+): { kept: T[]; rejected: { item: T; reason: FilterRejection }[] } {
+	if (!filters) return { kept: items, rejected: [] };
+	const kept: T[] = [];
+	const rejected: { item: T; reason: FilterRejection }[] = [];
+	for (const item of items) {
+		const reason = filterRejection(item, filters);
+		if (reason) rejected.push({ item, reason });
+		else kept.push(item);
+	}
+	return { kept, rejected };
+}
+
+/** Items kept from the latest fetch so filter edits can be previewed. */
+export const MAX_SAMPLE_ITEMS = 50;
+const SAMPLE_CONTENT_CHARS = 2000;
+
+export const filterSampleItemValidator = v.object({
+	title: v.string(),
+	url: v.string(),
+	snippet: v.optional(v.string()),
+	content: v.optional(v.string()),
+	contentLength: v.number(),
+});
+
+export type FilterSampleItem = Infer<typeof filterSampleItemValidator>;
+
+export function filterSampleOf(items: FetchedItem[]): FilterSampleItem[] {
+	return items.slice(0, MAX_SAMPLE_ITEMS).map((item) => {
+		const body = plainText(item.content ?? item.snippet ?? "");
+		return {
+			title: item.title,
+			url: item.url,
+			snippet: item.snippet,
+			content: body ? body.slice(0, SAMPLE_CONTENT_CHARS) : undefined,
+			contentLength: body.length,
+		};
+	});
+}
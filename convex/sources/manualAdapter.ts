@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { internalAction } from "../_generated/server";
+import { type EntryMetadata, defineSourceAdapter } from "./adapter";
 import { jinaRead } from "./websiteAdapter";
 
 export const fetchUrl = internalAction({
@@ -7,18 +8,28 @@ export const fetchUrl = internalAction({
 	handler: async (
 		_ctx,
 		{ url },
-	): Promise<{
-		title: string;
-		snippet?: string;
-		content?: string;
-		publishedAt?: number;
-	}> => {
-		const extracted = await jinaRead(url);
-		return {
-			title: extracted.title,
-			snippet: extracted.snippet,
-			content: extracted.content,
-			publishedAt: extracted.publishedAt,
-		};
+	): Promise<
+		{
+			title: string;
+			snippet?: string;
+			content?: string;
+			publishedAt?: number;
+			canonicalUrl?: string;
+		} & EntryMetadata
+	> => {
+		const { url: resolved, canonicalUrl, ...extracted } = await jinaRead(url);
+		// Jina follows redirects, so a pasted short link resolves here.
+		return { ...extracted, canonicalUrl: canonicalUrl ?? resolved };
 	},
 });
+
+// Manual sources are created on demand by `entries:manualPaste` and never
+// scheduled, so there is nothing to configure or fetch.
+export const manualSource = defineSourceAdapter({
+	label: "Manual paste",
+	description: "Links pasted into the inbox by hand.",
+	fields: [],
+	creatable: false,
+	validate: () => ({}),
+	fetch: null,
+});
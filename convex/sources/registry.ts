@@ -0,0 +1,83 @@
+import { v } from "convex/values";
+import type { SourceAdapter, SourceConfig, SourceConfigField } from "./adapter";
+import { manualSource } from "./manualAdapter";
+import { rssSource } from "./rssAdapter";
+import { sitemapSource } from "./sitemapAdapter";
+import { webSearchSource } from "./webSearchAdapter";
+import { websiteSource } from "./websiteAdapter";
+
+// Registering a new source type means adding its adapter here; the schema
+// union, config validation, runner dispatch and the create/edit forms all
+// derive from this map.
+
+export const SOURCE_TYPES = [
+	"web_search",
+	"rss",
+	"sitemap",
+	"website",
+	"manual",
+] as const;
+
+export type SourceType = (typeof SOURCE_TYPES)[number];
+
+export const sourceTypeValidator = v.union(
+	...SOURCE_TYPES.map((type) => v.literal(type)),
+);
+
+/**
+ * Forgets an adapter's config type so adapters can share one map. The erased
+ * `fetch` takes the stored config as-is and validates it before handing it on,
+ * so a config can never reach a fetch it wasn't normalized for.
+ */
+function eraseConfig<TConfig extends SourceConfig>(
+	adapter: SourceAdapter<TConfig>,
+): SourceAdapter {
+	const { fetch, validate } = adapter;
+	return {
+		...adapter,
+		fetch:
+			fetch && ((ctx, config, state) => fetch(ctx, validate(config), state)),
+	};
+}
+
+const adapters: Record<SourceType, SourceAdapter> = {
+	web_search: eraseConfig(webSearchSource),
+	rss: eraseConfig(rssSource),
+	sitemap: eraseConfig(sitemapSource),
+	website: eraseConfig(websiteSource),
+	manual: eraseConfig(manualSource),
+};
+
+export function getSourceAdapter(type: SourceType): SourceAdapter {
+	return adapters[type];
+}
+
+export interface SourceTypeForm {
+	type: SourceType;
+	label: string;
+	description: string;
+	fields: SourceConfigField[];
+	nameField?: string;
+	creatable: boolean;
+	/** Fetched on a schedule; `false` for types filled by hand. */
+	schedulable: boolean;
+}
+
+export function isSchedulable(type: SourceType): boolean {
+	return adapters[type].fetch !== null;
+}
+
+export function listSourceTypeForms(): SourceTypeForm[] {
+	return SOURCE_TYPES.map((type) => {
+		const { label, description, fields, nameField, creatable } = adapters[type];
+		return {
+			type,
+			label,
+			description,
+			fields,
+			nameField,
+			creatable,
+			schedulable: isSchedulable(type),
+		};
+	});
+}
@@ -0,0 +1,281 @@
+import { describe, expect, it } from "vitest";
+import { type RssItem, parseFeed } from "./rssAdapter";
+
+describe("parseFeed", () => {
+	const cases: { name: string; input: string; expected: RssItem[] }[] = [
+		{
+			name: "RSS 2.0 with content:encoded, media:content and dc:creator",
+			input: `<?xml version="1.0"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/"
+     xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>Example</title>
+    <language>en-us</language>
+    <item>
+      <title>Launch day</title>
+      <link>https://example.com/launch</link>
+      <guid isPermaLink="false">example-1234</guid>
+      <description><![CDATA[<p>We <b>launched</b>.</p>]]></description>
+      <content:encoded><![CDATA[<p>We launched. Full story.</p>]]></content:encoded>
+      <pubDate>Thu, 01 Oct 2026 08:00:00 GMT</pubDate>
+      <dc:creator>Jane Doe</dc:creator>
+      <media:content url="https://cdn.example.com/video.mp4" medium="video" />
+      <media:content url="https://cdn.example.com/launch.jpg" medium="image" />
+    </item>
+  </channel>
+</rss>`,
+			expected: [
+				{
+					title: "Launch day",
+					url: "https://example.com/launch",
+					guid: "example-1234",
+					snippet: "We launched .",
+					content: "<p>We launched. Full story.</p>",
+					publishedAt: Date.parse("2026-10-01T08:00:00Z"),
+					imageUrl: "https://cdn.example.com/launch.jpg",
+					author: "Jane Doe",
+					siteName: "Example",
+					language: "en-us",
+				},
+			],
+		},
+		{
+			name: "RSS 2.0 item whose only URL is a permalink guid",
+			input: `<rss version="2.0"><channel>
+  <item>
+    <title>Guid only</title>
+    <guid>https://example.com/guid-only</guid>
+  </item>
+  <item>
+    <title>Opaque guid, no link</title>
+    <guid isPermaLink="false">https://example.com/not-a-link</guid>
+  </item>
+</channel></rss>`,
+			expected: [
+				{
+					title: "Guid only",
+					url: "https://example.com/guid-only",
+					guid: "https://example.com/guid-only",
+				},
+			],
+		},
+		{
+			name: "RSS 2.0 email-style author, image enclosure and HTML entities",
+			input: `<rss version="2.0"><channel>
+  <item>
+    <title>It&#8217;s here &amp; live</title>
+    <link>https://example.com/here</link>
+    <author>jane@example.com (Jane Doe)</author>
+    <enclosure url="https://example.com/episode.mp3" type="audio/mpeg" length="1" />
+    <enclosure url="https://example.com/cover.png" type="image/png" length="1" />
+  </item>
+</channel></rss>`,
+			expected: [
+				{
+					title: "It’s here & live",
+					url: "https://example.com/here",
+					imageUrl: "https://example.com/cover.png",
+					author: "Jane Doe",
+				},
+			],
+		},
+		{
+			name: "RSS 2.0 title-less item falls back to its description",
+			input: `<rss version="2.0"><channel>
+  <item>
+    <link>https://example.com/status/1</link>
+    <description>Shipping a small fix today &lt;img src="https://example.com/fix.gif"&gt;</description>
+  </item>
+</channel></rss>`,
+			expected: [
+				{
+					title: "Shipping a small fix today",
+					url: "https://example.com/status/1",
+					snippet: "Shipping a small fix today",
+					content:
+						'Shipping a small fix today <img src="https://example.com/fix.gif">',
+					imageUrl: "https://example.com/fix.gif",
+				},
+			],
+		},
+		{
+			name: "RSS 1.0 (RDF) items beside the channel",
+			input: `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://example.org/">
+    <title>Example RDF</title>
+  </channel>
+  <item rdf:about="https://example.org/a">
+    <title>First</title>
+    <link>https://example.org/a</link>
+    <description>First item</description>
+    <dc:date>2026-09-30T12:00:00Z</dc:date>
+    <dc:creator>Sam Roe</dc:creator>
+  </item>
+  <item rdf:about="https://example.org/b">
+    <title>Second</title>
+    <link>https://example.org/b</link>
+  </item>
+</rdf:RDF>`,
+			expected: [
+				{
+					title: "First",
+					url: "https://example.org/a",
+					guid: "https://example.org/a",
+					snippet: "First item",
+					content: "First item",
+					publishedAt: Date.parse("2026-09-30T12:00:00Z"),
+					author: "Sam Roe",
+					siteName: "Example RDF",
+				},
+				{
+					title: "Second",
+					url: "https://example.org/b",
+					guid: "https://example.org/b",
+					siteName: "Example RDF",
+				},
+			],
+		},
+		{
+			name: "Atom with self/alternate links, feed author and image enclosure",
+			input: `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en" xmlns:media="http://search.yahoo.com/mrss/">
+  <title>Example Atom</title>
+  <author><name>Example Staff</name></author>
+  <entry>
+    <id>tag:example.com,2026:1</id>
+    <title type="html">Hello &lt;em&gt;world&lt;/em&gt;</title>
+    <link rel="self" href="https://example.com/api/1" />
+    <link rel="alternate" type="text/html" href="https://example.com/hello" />
+    <link rel="enclosure" type="image/jpeg" href="https://example.com/hello.jpg" />
+    <updated>2026-10-02T09:00:00Z</updated>
+    <summary>Short summary</summary>
+    <content type="html">&lt;p&gt;Long body&lt;/p&gt;</content>
+  </entry>
+  <entry>
+    <id>tag:example.com,2026:2</id>
+    <title>Thumbnailed</title>
+    <link href="https://example.com/thumb" />
+    <published>2026-10-03T09:00:00Z</published>
+    <author><name>Alex Poe</name></author>
+    <media:thumbnail url="https://example.com/thumb.jpg" />
+  </entry>
+</feed>`,
+			expected: [
+				{
+					title: "Hello world",
+					url: "https://example.com/hello",
+					guid: "tag:example.com,2026:1",
+					snippet: "Short summary",
+					content: "<p>Long body</p>",
+					publishedAt: Date.parse("2026-10-02T09:00:00Z"),
+					imageUrl: "https://example.com/hello.jpg",
+					author: "Example Staff",
+					siteName: "Example Atom",
+					language: "en",
+				},
+				{
+					title: "Thumbnailed",
+					url: "https://example.com/thumb",
+					guid: "tag:example.com,2026:2",
+					publishedAt: Date.parse("2026-10-03T09:00:00Z"),
+					imageUrl: "https://example.com/thumb.jpg",
+					author: "Alex Poe",
+					siteName: "Example Atom",
+					language: "en",
+				},
+			],
+		},
+		{
+			name: "JSON Feed 1.1 with authors, images and id-only URLs",
+			input: JSON.stringify({
+				version: "https://jsonfeed.org/version/1.1",
+				title: "Example JSON",
+				language: "en-GB",
+				authors: [{ name: "Feed Author" }],
+				items: [
+					{
+						id: "1",
+						url: "https://example.com/json/1",
+						title: "JSON post",
+						content_html: "<p>Hello from JSON</p>",
+						summary: "Hello",
+						image: "https://example.com/json/1.png",
+						date_published: "2026-10-04T10:00:00Z",
+						authors: [{ name: "Ann" }, { name: "Ben" }],
+					},
+					{
+						id: "https://example.com/json/2",
+						content_text: "Untitled micro post",
+						date_modified: "2026-10-05T10:00:00Z",
+					},
+					{ id: "3", title: "No URL anywhere" },
+				],
+			}),
+			expected: [
+				{
+					title: "JSON post",
+					url: "https://example.com/json/1",
+					guid: "1",
+					snippet: "Hello",
+					content: "<p>Hello from JSON</p>",
+					publishedAt: Date.parse("2026-10-04T10:00:00Z"),
+					imageUrl: "https://example.com/json/1.png",
+					author: "Ann, Ben",
+					siteName: "Example JSON",
+					language: "en-GB",
+				},
+				{
+					title: "Untitled micro post",
+					url: "https://example.com/json/2",
+					guid: "https://example.com/json/2",
+					snippet: "Untitled micro post",
+					content: "Untitled micro post",
+					publishedAt: Date.parse("2026-10-05T10:00:00Z"),
+					author: "Feed Author",
+					siteName: "Example JSON",
+					language: "en-GB",
+				},
+			],
+		},
+		{
+			name: "JSON Feed 1.0 single author and external_url",
+			input: JSON.stringify({
+				version: "https://jsonfeed.org/version/1",
+				items: [
+					{
+						id: 42,
+						external_url: "https://other.example.com/linked",
+						title: "Linked post",
+						author: { name: "Old Style" },
+					},
+				],
+			}),
+			expected: [
+				{
+					title: "Linked post",
+					url: "https://other.example.com/linked",
+					guid: "42",
+					author: "Old Style",
+				},
+			],
+		},
+		{
+			name: "JSON that isn't a JSON Feed",
+			input: JSON.stringify({ items: [{ url: "https://example.com" }] }),
+			expected: [],
+		},
+		{
+			name: "unrecognized XML",
+			input: "<html><body>Not a feed</body></html>",
+			expected: [],
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(parseFeed(c.input)).toEqual(c.expected);
+		});
+	}
+});
@@ -1,15 +1,30 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
 import { XMLParser } from "fast-xml-parser";
 import { v } from "convex/values";
 import { internalAction } from "../_generated/server";
+import {
+	type EntryMetadata,
+	type FetchResult,
+	conditionalHeaders,
+	defineSourceAdapter,
+	httpCacheFrom,
+	requireUrl,
+} from "./adapter";
 
-export interface RssItem {
+export interface RssItem extends EntryMetadata {
 	title: string;
 	url: string;
+	guid?: string;
 	snippet?: string;
 	content?: string;
 	publishedAt?: number;
 }
 
+type XmlNode = Record<string, unknown>;
+
+/** Feed-level metadata stamped onto every item. */
+type FeedMetadata = Pick<EntryMetadata, "siteName" | "language">;
+
 function asArray<T>(v: T | T[] | undefined): T[] {
 	if (v === undefined || v === null) return [];
 	return Array.isArray(v) ? v : [v];
@@ -68,64 +83,256 @@ function truncate(s: string, n: number): string {
 	return s.length <= n ? s : `${s.slice(0, n - 1).trim()}…`;
 }
 
-export function parseFeed(xml: string): RssItem[] {
+function isHttpUrl(s: string | undefined): s is string {
+	return !!s && /^https?:\/\//i.test(s);
+}
+
+function snippetOf(html: string | undefined): string | undefined {
+	return html ? truncate(stripHtml(html), 400) || undefined : undefined;
+}
+
+// Microblog-style items often have no title; fall back to the start of the
+// text so they still show up in the inbox.
+function titleOr(title: string | undefined, body: string | undefined) {
+	if (title) return stripHtml(title);
+	return body ? truncate(stripHtml(body), 80) || undefined : undefined;
+}
+
+/** "jane@example.com (Jane Doe)" is the RSS 2.0 convention for `author`. */
+function authorOf(node: unknown): string | undefined {
+	for (const n of asArray(node)) {
+		const name =
+			n && typeof n === "object" && "name" in (n as XmlNode)
+				? textOf((n as XmlNode).name)
+				: textOf(n);
+		if (!name) continue;
+		const paren = /^\S+@\S+\s*\((.+)\)$/.exec(name);
+		return paren ? paren[1].trim() : name;
+	}
+	return undefined;
+}
+
+function isImage(node: XmlNode): boolean {
+	const medium = node["@_medium"];
+	const type = node["@_type"];
+	if (typeof medium === "string") return medium === "image";
+	if (typeof type === "string") return type.startsWith("image/");
+	return true;
+}
+
+function firstImageInHtml(html: string | undefined): string | undefined {
+	const match = html ? /<img\b[^>]*\bsrc=["']([^"']+)["']/i.exec(html) : null;
+	return match && isHttpUrl(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * Best-effort lead image: Media RSS first (including inside `media:group`),
+ * then image enclosures, then the first `<img>` in the content.
+ */
+function imageOf(item: XmlNode, html: string | undefined): string | undefined {
+	const group = item["media:group"] as XmlNode | undefined;
+	const candidates = [
+		...asArray(item["media:content"] as XmlNode | XmlNode[] | undefined),
+		...asArray(group?.["media:content"] as XmlNode | XmlNode[] | undefined),
+	].filter(isImage);
+	for (const node of [
+		...candidates,
+		...asArray(item["media:thumbnail"] as XmlNode | XmlNode[] | undefined),
+		...asArray(group?.["media:thumbnail"] as XmlNode | XmlNode[] | undefined),
+	]) {
+		const url = node["@_url"];
+		if (typeof url === "string" && isHttpUrl(url)) return url;
+	}
+	for (const enc of asArray(
+		item.enclosure as XmlNode | XmlNode[] | undefined,
+	)) {
+		const type = enc["@_type"];
+		if (typeof type === "string" && type.startsWith("image/")) {
+			const url = enc["@_url"];
+			if (typeof url === "string" && isHttpUrl(url)) return url;
+		}
+	}
+	const itunes = item["itunes:image"] as XmlNode | undefined;
+	if (typeof itunes?.["@_href"] === "string") return itunes["@_href"] as string;
+	return firstImageInHtml(html);
+}
+
+function parseRssItem(item: XmlNode, feed: FeedMetadata): RssItem | null {
+	const guidNode = item.guid;
+	const guid = textOf(guidNode);
+	const permalink =
+		!(guidNode && typeof guidNode === "object") ||
+		(guidNode as XmlNode)["@_isPermaLink"] !== "false";
+	// Some feeds only carry the article URL in a permalink guid.
+	const url =
+		linkOf(item.link) ?? (permalink && isHttpUrl(guid) ? guid : undefined);
+	const contentEncoded = textOf(item["content:encoded"]);
+	const description = textOf(item.description);
+	const content = contentEncoded ?? description;
+	const title = titleOr(textOf(item.title), description ?? contentEncoded);
+	if (!url || !title) return null;
+	return {
+		title,
+		url,
+		guid: guid ?? textOf(item["@_rdf:about"]),
+		snippet: snippetOf(description ?? contentEncoded),
+		content,
+		publishedAt: parseDate(item.pubDate ?? item["dc:date"]),
+		imageUrl: imageOf(item, content),
+		author: authorOf(item.author) ?? authorOf(item["dc:creator"]),
+		...feed,
+	};
+}
+
+function parseAtomEntry(
+	entry: XmlNode,
+	feedAuthor: unknown,
+	feed: FeedMetadata,
+): RssItem | null {
+	const links = asArray(entry.link as XmlNode | XmlNode[] | undefined);
+	const url = linkOf(
+		links.filter((l) => typeof l !== "object" || l["@_rel"] !== "enclosure"),
+	);
+	const summary = textOf(entry.summary);
+	const content = textOf(entry.content) ?? summary;
+	const title = titleOr(textOf(entry.title), summary ?? content);
+	if (!url || !title) return null;
+	const enclosures = links
+		.filter((l) => typeof l === "object" && l["@_rel"] === "enclosure")
+		.map((l) => ({ "@_url": l["@_href"], "@_type": l["@_type"] }));
+	return {
+		title,
+		url,
+		guid: textOf(entry.id),
+		snippet: snippetOf(summary ?? content),
+		content,
+		publishedAt: parseDate(entry.published ?? entry.updated),
+		imageUrl: imageOf({ ...entry, enclosure: enclosures }, content),
+		author: authorOf(entry.author) ?? authorOf(feedAuthor),
+		...feed,
+	};
+}
+
+interface JsonFeedAuthor {
+	name?: string;
+}
+
+interface JsonFeedItem {
+	id?: string | number;
+	url?: string;
+	external_url?: string;
+	title?: string;
+	content_html?: string;
+	content_text?: string;
+	summary?: string;
+	image?: string;
+	banner_image?: string;
+	date_published?: string;
+	date_modified?: string;
+	authors?: JsonFeedAuthor[];
+	/** JSON Feed 1.0; replaced by `authors` in 1.1. */
+	author?: JsonFeedAuthor;
+}
+
+function jsonAuthorOf(
+	authors: JsonFeedAuthor[] | undefined,
+	author: JsonFeedAuthor | undefined,
+): string | undefined {
+	const names = [...(authors ?? []), ...(author ? [author] : [])]
+		.map((a) => a.name?.trim())
+		.filter((n): n is string => !!n);
+	return names.length > 0 ? names.join(", ") : undefined;
+}
+
+function parseJsonFeed(doc: Record<string, unknown>): RssItem[] {
+	if (
+		typeof doc.version !== "string" ||
+		!doc.version.includes("jsonfeed.org")
+	) {
+		return [];
+	}
+	const feedAuthor = jsonAuthorOf(
+		doc.authors as JsonFeedAuthor[] | undefined,
+		doc.author as JsonFeedAuthor | undefined,
+	);
+	const feed: FeedMetadata = {
+		siteName:
+			typeof doc.title === "string" ? doc.title.trim() || undefined : undefined,
+		language: typeof doc.language === "string" ? doc.language : undefined,
+	};
+	return asArray(doc.items as JsonFeedItem[] | undefined)
+		.map((item): RssItem | null => {
+			const id = item.id === undefined ? undefined : String(item.id);
+			const url = [item.url, item.external_url, id].find(isHttpUrl);
+			const content = item.content_html ?? item.content_text;
+			const title = titleOr(item.title, item.summary ?? content);
+			if (!url || !title) return null;
+			return {
+				title,
+				url,
+				guid: id,
+				snippet: snippetOf(item.summary ?? content),
+				content,
+				publishedAt: parseDate(item.date_published ?? item.date_modified),
+				imageUrl:
+					[item.image, item.banner_image].find(isHttpUrl) ??
+					firstImageInHtml(item.content_html),
+				author: jsonAuthorOf(item.authors, item.author) ?? feedAuthor,
+				...feed,
+			};
+		})
+		.filter((x): x is RssItem => x !== null);
+}
+
+function channelMetadata(channel: XmlNode): FeedMetadata {
+	return {
+		siteName: textOf(channel.title),
+		language: textOf(channel.language ?? channel["dc:language"]),
+	};
+}
+
+/** Parses RSS 2.0, RSS 1.0 (RDF), Atom and JSON Feed documents. */
+export function parseFeed(text: string): RssItem[] {
+	const trimmed = text.trimStart();
+	if (trimmed.startsWith("{")) {
+		return parseJsonFeed(JSON.parse(trimmed) as Record<string, unknown>);
+	}
+
 	const parser = new XMLParser({
 		ignoreAttributes: false,
 		attributeNamePrefix: "@_",
 		trimValues: true,
 		processEntities: true,
+		htmlEntities: true,
 	});
-	const root = parser.parse(xml) as Record<string, unknown>;
+	const root = parser.parse(trimmed) as XmlNode;
 
-	const rssChannel =
-		(root.rss as Record<string, unknown> | undefined)?.channel ?? null;
+	const rssChannel = (root.rss as XmlNode | undefined)?.channel ?? null;
 	if (rssChannel) {
-		const channel = rssChannel as Record<string, unknown>;
-		return asArray(channel.item as unknown)
-			.map((raw): RssItem | null => {
-				const item = raw as Record<string, unknown>;
-				const url = linkOf(item.link);
-				const title = textOf(item.title);
-				if (!url || !title) return null;
-				const contentEncoded = textOf(item["content:encoded"]);
-				const description = textOf(item.description);
-				const content = contentEncoded ?? description;
-				const snippetSrc = description ?? contentEncoded;
-				return {
-					title,
-					url,
-					snippet: snippetSrc
-						? truncate(stripHtml(snippetSrc), 400)
-						: undefined,
-					content,
-					publishedAt: parseDate(item.pubDate ?? item["dc:date"]),
-				};
-			})
+		const channel = rssChannel as XmlNode;
+		const meta = channelMetadata(channel);
+		return asArray(channel.item as XmlNode | XmlNode[] | undefined)
+			.map((item) => parseRssItem(item, meta))
+			.filter((x): x is RssItem => x !== null);
+	}
+
+	// RSS 1.0 keeps items beside the channel rather than inside it.
+	const rdf = root["rdf:RDF"] as XmlNode | undefined;
+	if (rdf) {
+		const meta = channelMetadata((rdf.channel ?? {}) as XmlNode);
+		return asArray(rdf.item as XmlNode | XmlNode[] | undefined)
+			.map((item) => parseRssItem(item, meta))
 			.filter((x): x is RssItem => x !== null);
 	}
 
-	const feed = root.feed as Record<string, unknown> | undefined;
+	const feed = root.feed as XmlNode | undefined;
 	if (feed) {
-		return asArray(feed.entry as unknown)
-			.map((raw): RssItem | null => {
-				const entry = raw as Record<string, unknown>;
-				const url = linkOf(entry.link);
-				const title = textOf(entry.title);
-				if (!url || !title) return null;
-				const summary = textOf(entry.summary);
-				const content = textOf(entry.content) ?? summary;
-				return {
-					title,
-					url,
-					snippet: summary
-						? truncate(stripHtml(summary), 400)
-						: content
-							? truncate(stripHtml(content), 400)
-							: undefined,
-					content,
-					publishedAt: parseDate(entry.published ?? entry.updated),
-				};
-			})
+		const meta: FeedMetadata = {
+			siteName: textOf(feed.title),
+			language: textOf(feed["@_xml:lang"]),
+		};
+		return asArray(feed.entry as XmlNode | XmlNode[] | undefined)
+			.map((entry) => parseAtomEntry(entry, feed.author, meta))
 			.filter((x): x is RssItem => x !== null);
 	}
 
@@ -133,15 +340,63 @@ export function parseFeed(xml: string): RssItem[] {
 }
 
 export const fetchFeed = internalAction({
-	args: { url: v.string() },
-	handler: async (_ctx, { url }): Promise<RssItem[]> => {
+	args: {
+		url: v.string(),
+		etag: v.optional(v.string()),
+		lastModified: v.optional(v.string()),
+	},
+	handler: async (_ctx, { url, etag, lastModified }): Promise<FetchResult> => {
+		const started = Date.now();
 		const res = await fetch(url, {
-			headers: { "user-agent": "NewsGator/0.1 (+https://newsgator.app)" },
+			headers: {
+				"user-agent": "NewsGator/0.1 (+https://newsgator.app)",
+				accept:
+					"application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8",
+				...conditionalHeaders({ etag, lastModified }),
+			},
 		});
+		if (res.status === 304) {
+			return { items: [], notModified: true };
+		}
 		if (!res.ok) {
 			throw new Error(`RSS fetch failed: ${res.status} ${res.statusText}`);
 		}
 		const text = await res.text();
-		return parseFeed(text);
+		const fetched = Date.now();
+		const items = parseFeed(text);
+		return {
+			items,
+			httpCache: httpCacheFrom(res),
+			timings: { fetchMs: fetched - started, parseMs: Date.now() - fetched },
+		};
 	},
 });
+
+const fetchFeedRef = makeFunctionReference<"action">(
+	"sources/rssAdapter:fetchFeed",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ url: string; etag?: string; lastModified?: string },
+	FetchResult
+>;
+
+export const rssSource = defineSourceAdapter({
+	label: "RSS / Atom / JSON feed",
+	description: "Polls an RSS, Atom or JSON Feed for new items.",
+	fields: [
+		{
+			key: "url",
+			label: "URL",
+			kind: "url",
+			placeholder: "https://example.com/feed.xml",
+			required: true,
+		},
+	],
+	nameField: "url",
+	creatable: true,
+	incremental: true,
+	validate: (config) => ({ url: requireUrl(config, "rss") }),
+	fetch: (ctx, { url }, { httpCache }) =>
+		ctx.runAction(fetchFeedRef, { url, ...httpCache }),
+});
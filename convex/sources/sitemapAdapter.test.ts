@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { parseSitemap, selectNewUrls } from "./sitemapAdapter";
+
+const NEWS_SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  <url>
+    <loc>https://example.com/news/launch</loc>
+    <lastmod>2026-10-01T08:00:00Z</lastmod>
+    <news:news>
+      <news:publication>
+        <news:name>Example</news:name>
+        <news:language>en</news:language>
+      </news:publication>
+      <news:publication_date>2026-10-01T07:30:00Z</news:publication_date>
+      <news:title>Example launches a thing</news:title>
+    </news:news>
+  </url>
+  <url>
+    <loc>https://example.com/about</loc>
+  </url>
+</urlset>`;
+
+const SITEMAP_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap>
+    <loc>https://example.com/sitemap-posts.xml</loc>
+    <lastmod>2026-10-02</lastmod>
+  </sitemap>
+  <sitemap>
+    <loc>https://example.com/sitemap-pages.xml</loc>
+  </sitemap>
+</sitemapindex>`;
+
+describe("parseSitemap", () => {
+	it("reads urls with lastmod and the news: extension", () => {
+		const parsed = parseSitemap(NEWS_SITEMAP);
+		expect(parsed).toEqual({
+			kind: "urlset",
+			urls: [
+				{
+					loc: "https://example.com/news/launch",
+					lastmod: Date.parse("2026-10-01T08:00:00Z"),
+					title: "Example launches a thing",
+					publishedAt: Date.parse("2026-10-01T07:30:00Z"),
+				},
+				{
+					loc: "https://example.com/about",
+					lastmod: undefined,
+					title: undefined,
+					publishedAt: undefined,
+				},
+			],
+		});
+	});
+
+	it("reads sitemap indexes", () => {
+		expect(parseSitemap(SITEMAP_INDEX)).toEqual({
+			kind: "index",
+			sitemaps: [
+				{
+					loc: "https://example.com/sitemap-posts.xml",
+					lastmod: Date.parse("2026-10-02"),
+				},
+				{ loc: "https://example.com/sitemap-pages.xml", lastmod: undefined },
+			],
+		});
+	});
+});
+
+describe("selectNewUrls", () => {
+	const urls = [
+		{ loc: "https://example.com/a", lastmod: 100 },
+		{ loc: "https://example.com/b", publishedAt: 300 },
+		{ loc: "https://example.com/c", lastmod: 200 },
+		{ loc: "https://example.com/undated" },
+	];
+
+	it("takes everything newest first on the first run", () => {
+		expect(
+			selectNewUrls(urls, undefined, new Set(), 10).map((u) => u.loc),
+		).toEqual([
+			"https://example.com/b",
+			"https://example.com/c",
+			"https://example.com/a",
+			"https://example.com/undated",
+		]);
+	});
+
+	it("keeps only dated urls newer than the high-water mark, oldest first", () => {
+		expect(selectNewUrls(urls, 150, new Set(), 10).map((u) => u.loc)).toEqual([
+			"https://example.com/c",
+			"https://example.com/b",
+		]);
+	});
+
+	it("leaves the newest urls for the next run when more than the cap are new", () => {
+		const many = Array.from({ length: 5 }, (_, i) => ({
+			loc: `https://example.com/new-${i}`,
+			lastmod: 1000 + i,
+		}));
+		const first = selectNewUrls(many, 500, new Set(), 2);
+		expect(first.map((u) => u.loc)).toEqual([
+			"https://example.com/new-0",
+			"https://example.com/new-1",
+		]);
+		// The cursor moves to the newest url read; the rest are still ahead.
+		const since = 1001;
+		expect(selectNewUrls(many, since, new Set(), 10).map((u) => u.loc)).toEqual(
+			[
+				"https://example.com/new-2",
+				"https://example.com/new-3",
+				"https://example.com/new-4",
+			],
+		);
+	});
+
+	it("skips seen urls and respects the cap", () => {
+		const seen = new Set(["https://example.com/b"]);
+		expect(selectNewUrls(urls, undefined, seen, 1).map((u) => u.loc)).toEqual([
+			"https://example.com/c",
+		]);
+	});
+});
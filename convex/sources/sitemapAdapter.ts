@@ -0,0 +1,277 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { v } from "convex/values";
+import { XMLParser } from "fast-xml-parser";
+import { internalAction } from "../_generated/server";
+import {
+	type FetchResult,
+	type FetchedItem,
+	conditionalHeaders,
+	defineSourceAdapter,
+	httpCacheFrom,
+	optionalPositiveInt,
+	requireUrl,
+} from "./adapter";
+import { jinaRead } from "./websiteAdapter";
+
+const DEFAULT_MAX_ITEMS = 20;
+const MAX_CHILD_SITEMAPS = 5;
+
+export interface SitemapUrl {
+	loc: string;
+	lastmod?: number;
+	/** From the `news:` extension, when present. */
+	title?: string;
+	publishedAt?: number;
+}
+
+interface SitemapRef {
+	loc: string;
+	lastmod?: number;
+}
+
+export type ParsedSitemap =
+	| { kind: "urlset"; urls: SitemapUrl[] }
+	| { kind: "index"; sitemaps: SitemapRef[] };
+
+function asArray<T>(v: T | T[] | undefined): T[] {
+	if (v === undefined || v === null) return [];
+	return Array.isArray(v) ? v : [v];
+}
+
+function textOf(node: unknown): string | undefined {
+	if (typeof node === "string") return node.trim() || undefined;
+	if (typeof node === "number") return String(node);
+	if (node && typeof node === "object") {
+		const text = (node as Record<string, unknown>)["#text"];
+		if (typeof text === "string") return text.trim() || undefined;
+	}
+	return undefined;
+}
+
+function parseDate(node: unknown): number | undefined {
+	const s = textOf(node);
+	if (!s) return undefined;
+	const t = Date.parse(s);
+	return Number.isFinite(t) ? t : undefined;
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+	// Namespace prefixes vary between publishers (`news:`, `n:`), so drop them.
+	const parser = new XMLParser({
+		ignoreAttributes: true,
+		removeNSPrefix: true,
+		trimValues: true,
+	});
+	const root = parser.parse(xml) as Record<string, unknown>;
+
+	const index = root.sitemapindex as Record<string, unknown> | undefined;
+	if (index) {
+		const sitemaps = asArray(index.sitemap as unknown)
+			.map((raw): SitemapRef | null => {
+				const node = raw as Record<string, unknown>;
+				const loc = textOf(node.loc);
+				return loc ? { loc, lastmod: parseDate(node.lastmod) } : null;
+			})
+			.filter((x): x is SitemapRef => x !== null);
+		return { kind: "index", sitemaps };
+	}
+
+	const urlset = root.urlset as Record<string, unknown> | undefined;
+	const urls = asArray(urlset?.url as unknown)
+		.map((raw): SitemapUrl | null => {
+			const node = raw as Record<string, unknown>;
+			const loc = textOf(node.loc);
+			if (!loc) return null;
+			const news = node.news as Record<string, unknown> | undefined;
+			return {
+				loc,
+				lastmod: parseDate(node.lastmod),
+				title: textOf(news?.title),
+				publishedAt: parseDate(news?.publication_date),
+			};
+		})
+		.filter((x): x is SitemapUrl => x !== null);
+	return { kind: "urlset", urls };
+}
+
+function dateOf(url: SitemapUrl): number | undefined {
+	return url.publishedAt ?? url.lastmod;
+}
+
+/**
+ * URLs worth enriching this run. The first run takes the newest `maxItems`.
+ * After that the source has a publish high-water mark, and the oldest
+ * `maxItems` URLs past it are taken, oldest first: the cursor then only moves
+ * up to what was read, and the rest are picked up on the next run. Undated
+ * URLs are ignored once there is a mark: without a date there is no way to
+ * tell them apart from the thousands of old pages most sitemaps list.
+ */
+export function selectNewUrls(
+	urls: SitemapUrl[],
+	since: number | undefined,
+	seen: Set<string>,
+	maxItems: number,
+): SitemapUrl[] {
+	const unseen = urls.filter((u) => !seen.has(u.loc));
+	if (since === undefined) {
+		return unseen
+			.sort((a, b) => (dateOf(b) ?? 0) - (dateOf(a) ?? 0))
+			.slice(0, maxItems);
+	}
+	return unseen
+		.filter((u) => {
+			const date = dateOf(u);
+			return date !== undefined && date > since;
+		})
+		.sort((a, b) => (dateOf(a) ?? 0) - (dateOf(b) ?? 0))
+		.slice(0, maxItems);
+}
+
+async function fetchXml(
+	url: string,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	const res = await fetch(url, {
+		headers: {
+			"user-agent": "NewsGator/0.1 (+https://newsgator.app)",
+			...headers,
+		},
+	});
+	if (res.status !== 304 && !res.ok) {
+		throw new Error(`Sitemap fetch failed: ${res.status} ${res.statusText}`);
+	}
+	return res;
+}
+
+export const fetchSitemap = internalAction({
+	args: {
+		url: v.string(),
+		since: v.optional(v.number()),
+		seenUrls: v.optional(v.array(v.string())),
+		maxItems: v.optional(v.number()),
+		etag: v.optional(v.string()),
+		lastModified: v.optional(v.string()),
+	},
+	handler: async (
+		_ctx,
+		{ url, since, seenUrls, maxItems, etag, lastModified },
+	): Promise<FetchResult> => {
+		const started = Date.now();
+		const res = await fetchXml(url, conditionalHeaders({ etag, lastModified }));
+		if (res.status === 304) return { items: [], notModified: true };
+		const httpCache = httpCacheFrom(res);
+
+		const parsed = parseSitemap(await res.text());
+		const urls: SitemapUrl[] = [];
+		if (parsed.kind === "index") {
+			// Only descend into child sitemaps that may have changed since the
+			// last run; undated children are always worth a look.
+			const children = parsed.sitemaps
+				.filter(
+					(s) =>
+						since === undefined || s.lastmod === undefined || s.lastmod > since,
+				)
+				.sort((a, b) => (b.lastmod ?? 0) - (a.lastmod ?? 0))
+				.slice(0, MAX_CHILD_SITEMAPS);
+			for (const child of children) {
+				const childRes = await fetchXml(child.loc);
+				const childParsed = parseSitemap(await childRes.text());
+				if (childParsed.kind === "urlset") urls.push(...childParsed.urls);
+			}
+		} else {
+			urls.push(...parsed.urls);
+		}
+		const fetched = Date.now();
+
+		const limit = maxItems ?? DEFAULT_MAX_ITEMS;
+		const picks = selectNewUrls(urls, since, new Set(seenUrls ?? []), limit);
+		// With more new URLs than one run reads, or a read cut short, the
+		// sitemap must not answer 304 next time and hide the rest.
+		let complete = picks.length < limit;
+		const items: FetchedItem[] = [];
+		for (const pick of picks) {
+			try {
+				const extraction = await jinaRead(pick.loc);
+				items.push({
+					...extraction,
+					url: pick.loc,
+					title: pick.title ?? extraction.title,
+					publishedAt: dateOf(pick) ?? extraction.publishedAt,
+				});
+			} catch (err) {
+				// One unreadable article shouldn't fail the whole run.
+				console.warn(`Sitemap enrichment failed for ${pick.loc}:`, err);
+				// Picks after the first run are oldest first, so stopping here
+				// keeps the cursor below this URL and it's retried next run.
+				// When nothing has been read yet it is skipped instead, so one
+				// broken page can't hold the source back for good.
+				if (since !== undefined && items.length > 0) {
+					complete = false;
+					break;
+				}
+			}
+		}
+		return {
+			items,
+			httpCache: complete ? httpCache : undefined,
+			timings: { fetchMs: fetched - started, parseMs: Date.now() - fetched },
+		};
+	},
+});
+
+const fetchSitemapRef = makeFunctionReference<"action">(
+	"sources/sitemapAdapter:fetchSitemap",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{
+		url: string;
+		since?: number;
+		seenUrls?: string[];
+		maxItems?: number;
+		etag?: string;
+		lastModified?: string;
+	},
+	FetchResult
+>;
+
+export const sitemapSource = defineSourceAdapter({
+	label: "Sitemap",
+	description:
+		"Watches a sitemap.xml (or sitemap index) and reads each newly listed article.",
+	fields: [
+		{
+			key: "url",
+			label: "Sitemap URL",
+			kind: "url",
+			placeholder: "https://example.com/sitemap.xml",
+			required: true,
+		},
+		{
+			key: "maxItems",
+			label: "Max articles per run",
+			kind: "number",
+			placeholder: String(DEFAULT_MAX_ITEMS),
+		},
+	],
+	nameField: "url",
+	creatable: true,
+	incremental: true,
+	validate: (config): { url: string; maxItems?: number } => {
+		const url = requireUrl(config, "sitemap");
+		const maxItems = optionalPositiveInt(
+			config,
+			"maxItems",
+			"Max articles per run",
+		);
+		return maxItems === undefined ? { url } : { url, maxItems };
+	},
+	fetch: (ctx, { url, maxItems }, { httpCache, cursor }) =>
+		ctx.runAction(fetchSitemapRef, {
+			url,
+			maxItems,
+			since: cursor?.latestPublishedAt,
+			seenUrls: cursor?.recentItemKeys,
+			...httpCache,
+		}),
+});
@@ -1,7 +1,13 @@
-import { v } from "convex/values";
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
 import { internalAction } from "../_generated/server";
+import {
+	type EntryMetadata,
+	defineSourceAdapter,
+	optionalPositiveInt,
+} from "./adapter";
 
-export interface WebSearchHit {
+export interface WebSearchHit extends EntryMetadata {
 	title: string;
 	url: string;
 	snippet?: string;
@@ -21,6 +27,14 @@ interface TavilyResponse {
 	results?: TavilyResult[];
 }
 
+function hostnameOf(url: string): string | undefined {
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return undefined;
+	}
+}
+
 export const search = internalAction({
 	args: {
 		query: v.string(),
@@ -67,8 +81,51 @@ export const search = internalAction({
 					snippet: r.content?.slice(0, 400),
 					content: r.content,
 					publishedAt,
+					// Tavily doesn't return publisher metadata; the host is the
+					// closest thing to a site name it gives us.
+					siteName: hostnameOf(r.url),
 				};
 			})
 			.filter((x): x is WebSearchHit => x !== null);
 	},
 });
+
+const searchRef = makeFunctionReference<"action">(
+	"sources/webSearchAdapter:search",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ query: string; maxResults?: number },
+	WebSearchHit[]
+>;
+
+export const webSearchSource = defineSourceAdapter({
+	label: "Web search query",
+	description: "Runs a scheduled web search and ingests the top results.",
+	fields: [
+		{
+			key: "query",
+			label: "Search query",
+			kind: "text",
+			placeholder: "latest AI safety policy",
+			required: true,
+		},
+		{
+			key: "maxResults",
+			label: "Max results",
+			kind: "number",
+			placeholder: "10",
+		},
+	],
+	nameField: "query",
+	creatable: true,
+	validate: (config): { query: string; maxResults?: number } => {
+		const query = (config.query as string | undefined)?.trim();
+		if (!query) throw new ConvexError("Search query is required");
+		const maxResults = optionalPositiveInt(config, "maxResults", "Max results");
+		return maxResults === undefined ? { query } : { query, maxResults };
+	},
+	fetch: async (ctx, { query, maxResults }) => ({
+		items: await ctx.runAction(searchRef, { query, maxResults }),
+	}),
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { declaredCanonical, extractListingLinks } from "./websiteAdapter";
+
+const LISTING = `# Example Blog
+
+[Home](/) | [Blog](https://example.com/blog/) | [About](/about)
+
+![Hero](https://example.com/hero.png)
+
+## [Launching the thing](/blog/2026/launch)
+
+[![Cover](https://cdn.example.com/cover.jpg)](https://example.com/blog/2026/launch#top)
+
+## [Why we *rewrote* it](https://example.com/blog/2026/rewrite "Read more")
+
+[Partner post](https://partner.example.org/blog/2026/guest)
+[Email us](mailto:hi@example.com)
+`;
+
+describe("extractListingLinks", () => {
+	it("keeps same-host article links in page order", () => {
+		expect(extractListingLinks(LISTING, "https://example.com/blog")).toEqual([
+			{ url: "https://example.com/about", text: "About" },
+			{
+				url: "https://example.com/blog/2026/launch",
+				text: "Launching the thing",
+			},
+			{
+				url: "https://example.com/blog/2026/rewrite",
+				text: "Why we rewrote it",
+			},
+		]);
+	});
+
+	it("lets a pattern decide, across hosts", () => {
+		expect(
+			extractListingLinks(
+				LISTING,
+				"https://example.com/blog",
+				/\/blog\/\d{4}\//,
+			).map((l) => l.url),
+		).toEqual([
+			"https://example.com/blog/2026/launch",
+			"https://example.com/blog/2026/rewrite",
+			"https://partner.example.org/blog/2026/guest",
+		]);
+	});
+});
+
+describe("declaredCanonical", () => {
+	const page = "https://example.com/blog/2026/launch?utm_source=feed";
+
+	it("prefers rel=canonical over og:url", () => {
+		expect(
+			declaredCanonical(
+				{
+					external: {
+						canonical: { "https://example.com/blog/2026/launch": {} },
+					},
+					metadata: { "og:url": "https://example.com/og/launch" },
+				},
+				page,
+			),
+		).toBe("https://example.com/blog/2026/launch");
+	});
+
+	it("falls back to og:url, resolved against the page", () => {
+		expect(
+			declaredCanonical({ metadata: { "og:url": "/blog/launch" } }, page),
+		).toBe("https://example.com/blog/launch");
+	});
+
+	it("skips a canonical pointing at the site root", () => {
+		expect(
+			declaredCanonical(
+				{
+					external: { canonical: { "https://example.com/": {} } },
+					metadata: { "og:url": "https://example.com/blog/launch" },
+				},
+				page,
+			),
+		).toBe("https://example.com/blog/launch");
+	});
+
+	it("is undefined when the page declares none", () => {
+		expect(declaredCanonical({ metadata: {} }, page)).toBeUndefined();
+	});
+});
@@ -1,73 +1,420 @@
-import { v } from "convex/values";
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
 import { internalAction } from "../_generated/server";
+import { plausibleCanonical } from "../dedupe";
+import {
+	type EntryMetadata,
+	type FetchResult,
+	type FetchedItem,
+	type HttpCache,
+	type SourceConfig,
+	conditionalHeaders,
+	defineSourceAdapter,
+	httpCacheFrom,
+	optionalPositiveInt,
+	requireUrl,
+} from "./adapter";
 
-export interface WebsiteExtraction {
+const DEFAULT_MAX_ITEMS = 10;
+// Upper bound on links considered from one listing page, so a page full of
+// navigation can't turn into hundreds of lookups.
+const MAX_LISTING_LINKS = 200;
+
+export interface WebsiteExtraction extends EntryMetadata {
 	title: string;
 	url: string;
 	snippet?: string;
 	content?: string;
 	publishedAt?: number;
+	canonicalUrl?: string;
 }
 
 function truncate(s: string, n: number): string {
 	return s.length <= n ? s : `${s.slice(0, n - 1).trim()}…`;
 }
 
-function parseFrontMatter(md: string): {
-	meta: Record<string, string>;
-	body: string;
-} {
-	const meta: Record<string, string> = {};
-	const lines = md.split("\n");
-	let i = 0;
-	while (i < lines.length && /^[A-Za-z][\w-]*:\s/.test(lines[i])) {
-		const line = lines[i];
-		const idx = line.indexOf(":");
-		const key = line.slice(0, idx).trim().toLowerCase();
-		const val = line.slice(idx + 1).trim();
-		if (key && val) meta[key] = val;
-		i++;
+/** The subset of Jina Reader's `application/json` response we read. */
+interface JinaResponse {
+	data?: {
+		title?: string;
+		url?: string;
+		description?: string;
+		content?: string;
+		publishedTime?: string;
+		/** The page's `<meta>` tags plus `lang`, keyed by name/property. */
+		metadata?: Record<string, string | string[] | undefined>;
+		/** The page's `<link>` tags, keyed by `rel` and then by `href`. */
+		external?: Record<string, Record<string, unknown> | undefined>;
+	};
+}
+
+function metaOf(
+	metadata: Record<string, string | string[] | undefined> | undefined,
+	...keys: string[]
+): string | undefined {
+	for (const key of keys) {
+		const raw = metadata?.[key];
+		const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+		if (value) return value;
 	}
-	if (i > 0 && (lines[i] === "" || lines[i] === undefined)) i++;
-	return { meta, body: lines.slice(i).join("\n") };
+	return undefined;
+}
+
+function httpUrlOr(value: string | undefined): string | undefined {
+	return value && /^https?:\/\//i.test(value) ? value : undefined;
 }
 
+/**
+ * The canonical URL a page declares: `<link rel="canonical">`, else `og:url`.
+ * `undefined` when it declares neither, or only implausible ones, so callers
+ * can tell "no canonical" apart from "canonical is the page itself".
+ */
+export function declaredCanonical(
+	data: NonNullable<JinaResponse["data"]>,
+	pageUrl: string,
+): string | undefined {
+	const candidates = [
+		...Object.keys(data.external?.canonical ?? {}),
+		metaOf(data.metadata, "og:url"),
+	];
+	for (const raw of candidates) {
+		const resolved = raw && plausibleCanonical(raw, pageUrl);
+		if (resolved) return resolved;
+	}
+	return undefined;
+}
+
+type JinaResult =
+	| { notModified: true }
+	| {
+			notModified: false;
+			extraction: WebsiteExtraction;
+			httpCache?: HttpCache;
+	  };
+
 export async function jinaRead(url: string): Promise<WebsiteExtraction> {
+	const result = await jinaFetch(url, undefined);
+	if (result.notModified) {
+		throw new Error("Jina Reader returned 304 for an unconditional request");
+	}
+	return result.extraction;
+}
+
+async function jinaFetch(
+	url: string,
+	cache: HttpCache | undefined,
+	extraHeaders: Record<string, string> = {},
+): Promise<JinaResult> {
 	const apiKey = process.env.JINA_API_KEY;
 	const headers: Record<string, string> = {
+		accept: "application/json",
 		"x-return-format": "markdown",
+		...extraHeaders,
+		...conditionalHeaders(cache),
 	};
 	if (apiKey) headers.authorization = `Bearer ${apiKey}`;
 	const res = await fetch(`https://r.jina.ai/${url}`, { headers });
+	if (res.status === 304) return { notModified: true };
 	if (!res.ok) {
 		throw new Error(
 			`Jina Reader fetch failed: ${res.status} ${res.statusText}`,
 		);
 	}
-	const raw = await res.text();
-	const { meta, body } = parseFrontMatter(raw);
-	const title = meta.title ?? url;
-	const publishedAt = meta["published time"]
-		? Date.parse(meta["published time"])
-		: undefined;
-	const cleanBody = body.trim();
-	const snippet = cleanBody ? truncate(cleanBody.split("\n")[0], 400) : undefined;
+	const { data = {} } = (await res.json()) as JinaResponse;
+	const meta = data.metadata;
+	const pageUrl = data.url ?? url;
+	const publishedAt = Date.parse(
+		data.publishedTime ??
+			metaOf(meta, "article:published_time", "datePublished") ??
+			"",
+	);
+	const cleanBody = data.content?.trim() ?? "";
+	const description = data.description?.trim();
+	const snippet = description
+		? truncate(description, 400)
+		: cleanBody
+			? truncate(cleanBody.split("\n")[0], 400)
+			: undefined;
 	return {
-		title,
-		url: meta["url source"] ?? url,
-		snippet,
-		content: cleanBody || undefined,
-		publishedAt:
-			publishedAt !== undefined && Number.isFinite(publishedAt)
-				? publishedAt
-				: undefined,
+		notModified: false,
+		extraction: {
+			title: data.title?.trim() || url,
+			url: pageUrl,
+			canonicalUrl: declaredCanonical(data, pageUrl),
+			snippet,
+			content: cleanBody || undefined,
+			publishedAt: Number.isFinite(publishedAt) ? publishedAt : undefined,
+			imageUrl: httpUrlOr(metaOf(meta, "og:image", "twitter:image")),
+			// `article:author` is frequently a profile URL rather than a name.
+			author: [metaOf(meta, "author"), metaOf(meta, "article:author")].find(
+				(a) => a !== undefined && !httpUrlOr(a),
+			),
+			siteName: metaOf(meta, "og:site_name", "application-name"),
+			language: metaOf(meta, "lang", "og:locale")?.replace("_", "-"),
+		},
+		httpCache: httpCacheFrom(res),
 	};
 }
 
+export interface ListingLink {
+	url: string;
+	text?: string;
+}
+
+// `[text](href "title")`, where the text may itself be an image
+// (`[![alt](src)](href)`). Bare images are excluded by the lookbehind.
+const MARKDOWN_LINK =
+	/(?<!!)\[((?:[^[\]]|!\[[^\]]*\]\([^)]*\))*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+function linkText(raw: string): string | undefined {
+	const text = raw
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+		.replace(/[*_`#]/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+	return text || undefined;
+}
+
+/**
+ * Article links on a listing page rendered to markdown, in page order with
+ * fragments dropped and duplicates removed. Without a pattern, only links to
+ * other pages on the listing's own host are kept; with one, the pattern
+ * alone decides.
+ */
+export function extractListingLinks(
+	markdown: string,
+	pageUrl: string,
+	pattern?: RegExp,
+): ListingLink[] {
+	const page = new URL(pageUrl);
+	const links = new Map<string, ListingLink>();
+	for (const match of markdown.matchAll(MARKDOWN_LINK)) {
+		let target: URL;
+		try {
+			target = new URL(match[2], page);
+		} catch {
+			continue;
+		}
+		if (target.protocol !== "http:" && target.protocol !== "https:") continue;
+		target.hash = "";
+		const url = target.toString();
+		if (pattern) {
+			if (!pattern.test(url)) continue;
+		} else if (
+			target.host !== page.host ||
+			target.pathname === "/" ||
+			target.pathname.replace(/\/$/, "") === page.pathname.replace(/\/$/, "")
+		) {
+			continue;
+		}
+		const text = linkText(match[1]);
+		const existing = links.get(url);
+		if (!existing) links.set(url, { url, text });
+		else if (!existing.text && text) existing.text = text;
+	}
+	return [...links.values()];
+}
+
+const _knownSourceUrls = makeFunctionReference<"query">(
+	"entries:_knownSourceUrls",
+) as unknown as FunctionReference<
+	"query",
+	"internal",
+	{ sourceId: Id<"sources">; urls: string[] },
+	string[]
+>;
+
 export const fetchSite = internalAction({
-	args: { url: v.string() },
-	handler: async (_ctx, { url }): Promise<WebsiteExtraction[]> => {
-		const extraction = await jinaRead(url);
-		return [extraction];
+	args: {
+		url: v.string(),
+		etag: v.optional(v.string()),
+		lastModified: v.optional(v.string()),
+	},
+	handler: async (_ctx, { url, etag, lastModified }): Promise<FetchResult> => {
+		const result = await jinaFetch(url, { etag, lastModified });
+		if (result.notModified) return { items: [], notModified: true };
+		return { items: [result.extraction], httpCache: result.httpCache };
+	},
+});
+
+// The listing page is always fetched in full: an unchanged page can still
+// link to articles a previous run skipped (past `maxItems`, or unreadable at
+// the time), so a 304 must not stop the run from reaching them.
+export const fetchListing = internalAction({
+	args: {
+		sourceId: v.id("sources"),
+		url: v.string(),
+		linkSelector: v.optional(v.string()),
+		linkPattern: v.optional(v.string()),
+		maxItems: v.optional(v.number()),
+	},
+	handler: async (
+		ctx,
+		{ sourceId, url, linkSelector, linkPattern, maxItems },
+	): Promise<FetchResult> => {
+		const started = Date.now();
+		const page = await jinaFetch(
+			url,
+			undefined,
+			linkSelector ? { "x-target-selector": linkSelector } : {},
+		);
+		if (page.notModified) {
+			throw new Error("Jina Reader returned 304 for an unconditional request");
+		}
+		const fetched = Date.now();
+
+		const links = extractListingLinks(
+			page.extraction.content ?? "",
+			url,
+			linkPattern ? new RegExp(linkPattern) : undefined,
+		).slice(0, MAX_LISTING_LINKS);
+		const known = new Set(
+			await ctx.runQuery(_knownSourceUrls, {
+				sourceId,
+				urls: links.map((l) => l.url),
+			}),
+		);
+		const picks = links
+			.filter((l) => !known.has(l.url))
+			.slice(0, maxItems ?? DEFAULT_MAX_ITEMS);
+
+		const items: FetchedItem[] = [];
+		for (const pick of picks) {
+			try {
+				const extraction = await jinaRead(pick.url);
+				items.push({
+					...extraction,
+					// Keep the URL as linked so the next run recognizes it.
+					url: pick.url,
+					title:
+						extraction.title === pick.url && pick.text
+							? pick.text
+							: extraction.title,
+				});
+			} catch (err) {
+				// One unreadable article shouldn't fail the whole run.
+				console.warn(`Listing article fetch failed for ${pick.url}:`, err);
+			}
+		}
+		return {
+			items,
+			timings: { fetchMs: fetched - started, parseMs: Date.now() - fetched },
+		};
+	},
+});
+
+const fetchSiteRef = makeFunctionReference<"action">(
+	"sources/websiteAdapter:fetchSite",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{ url: string; etag?: string; lastModified?: string },
+	FetchResult
+>;
+
+const fetchListingRef = makeFunctionReference<"action">(
+	"sources/websiteAdapter:fetchListing",
+) as unknown as FunctionReference<
+	"action",
+	"internal",
+	{
+		sourceId: Id<"sources">;
+		url: string;
+		linkSelector?: string;
+		linkPattern?: string;
+		maxItems?: number;
+	},
+	FetchResult
+>;
+
+type WebsiteConfig = {
+	mode: "article" | "listing";
+	url: string;
+	/** Listing mode only; narrows link extraction to part of the page. */
+	linkSelector?: string;
+	/** Listing mode only; a regex article URLs must match. */
+	linkPattern?: string;
+	maxItems?: number;
+};
+
+function optionalText(config: SourceConfig, key: string): string | undefined {
+	const raw = config[key];
+	return typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+}
+
+export const websiteSource = defineSourceAdapter({
+	label: "Website (scrape)",
+	description:
+		"Extracts the article at a specific URL, or follows a blog or news index page and reads each new article it links to.",
+	fields: [
+		{
+			key: "url",
+			label: "URL",
+			kind: "url",
+			placeholder: "https://example.com/blog",
+			required: true,
+		},
+		{
+			key: "mode",
+			label: "Mode",
+			kind: "select",
+			options: [
+				{ value: "article", label: "Single article" },
+				{ value: "listing", label: "Listing page (follow article links)" },
+			],
+		},
+		{
+			key: "linkSelector",
+			label: "Link area CSS selector (listing only)",
+			kind: "text",
+			placeholder: "main article",
+		},
+		{
+			key: "linkPattern",
+			label: "Article URL pattern (listing only, regex)",
+			kind: "text",
+			placeholder: "/blog/\\d{4}/",
+		},
+		{
+			key: "maxItems",
+			label: "Max articles per run (listing only)",
+			kind: "number",
+			placeholder: String(DEFAULT_MAX_ITEMS),
+		},
+	],
+	nameField: "url",
+	creatable: true,
+	validate: (config): WebsiteConfig => {
+		const url = requireUrl(config, "website");
+		const mode = config.mode ?? "article";
+		if (mode === "article") return { mode, url };
+		if (mode !== "listing") throw new ConvexError("Unknown website mode");
+		const linkPattern = optionalText(config, "linkPattern");
+		if (linkPattern) {
+			try {
+				new RegExp(linkPattern);
+			} catch {
+				throw new ConvexError("Article URL pattern is not a valid regex");
+			}
+		}
+		const normalized: WebsiteConfig = { mode, url };
+		const linkSelector = optionalText(config, "linkSelector");
+		if (linkSelector) normalized.linkSelector = linkSelector;
+		if (linkPattern) normalized.linkPattern = linkPattern;
+		const maxItems = optionalPositiveInt(
+			config,
+			"maxItems",
+			"Max articles per run",
+		);
+		if (maxItems !== undefined) normalized.maxItems = maxItems;
+		return normalized;
+	},
+	fetch: (ctx, config, { sourceId, httpCache }) => {
+		if (config.mode === "article") {
+			return ctx.runAction(fetchSiteRef, { url: config.url, ...httpCache });
+		}
+		const { mode: _mode, ...listing } = config;
+		return ctx.runAction(fetchListingRef, { sourceId, ...listing });
 	},
 });
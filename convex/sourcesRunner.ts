@@ -5,14 +5,24 @@ import {
 import { v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
 import { internalAction } from "./_generated/server";
-
-interface FetchedItem {
-	title: string;
-	url: string;
-	snippet?: string;
-	content?: string;
-	publishedAt?: number;
-}
+import { needsResolution, resolveUrl } from "./lib/resolveUrl";
+import type {
+	EntryMetadata,
+	FetchResult,
+	HttpCache,
+} from "./sources/adapter";
+import {
+	type IngestCursor,
+	advanceCursor,
+	selectUnseenItems,
+} from "./sources/cursor";
+import {
+	type FilterSampleItem,
+	applySourceFilters,
+	filterSampleOf,
+	sourceFiltersOf,
+} from "./sources/filters";
+import { getSourceAdapter } from "./sources/registry";
 
 // All internal refs go through `makeFunctionReference` to avoid pulling
 // the entire generated `internal` type tree into this file (which causes
@@ -34,108 +44,155 @@ const _finishRun = makeFunctionReference<"mutation">(
 	"internal",
 	{
 		sourceId: Id<"sources">;
+		runId?: Id<"sourceRuns">;
+		startedAt?: number;
 		success: boolean;
 		itemsAdded: number;
+		stats?: RunStats;
+		notModified?: boolean;
+		ingestCursor?: IngestCursor;
+		httpCache?: HttpCache;
 		error?: string;
+		sample?: FilterSampleItem[];
+		rejectedUrls?: string[];
 	},
 	null
 >;
 
-const _ingestOne = makeFunctionReference<"mutation">(
-	"entries:_ingestOne",
+const _discardRun = makeFunctionReference<"mutation">(
+	"sources:_discardRun",
+) as unknown as FunctionReference<
+	"mutation",
+	"internal",
+	{ runId: Id<"sourceRuns"> },
+	null
+>;
+
+const _ingestBatch = makeFunctionReference<"mutation">(
+	"entries:_ingestBatch",
 ) as unknown as FunctionReference<
 	"mutation",
 	"internal",
 	{
 		orgId: Id<"organizations">;
 		sourceId: Id<"sources">;
-		originalUrl: string;
-		title: string;
-		snippet?: string;
-		content?: string;
-		publishedAt?: number;
+		items: ({
+			originalUrl: string;
+			canonicalUrl?: string;
+			title: string;
+			snippet?: string;
+			content?: string;
+			publishedAt?: number;
+		} & EntryMetadata)[];
 	},
-	{ entryId: Id<"entries">; created: boolean }
+	{ created: number; duplicates: number }
 >;
 
-const rssFetch = makeFunctionReference<"action">(
-	"sources/rssAdapter:fetchFeed",
-) as unknown as FunctionReference<
-	"action",
-	"internal",
-	{ url: string },
-	FetchedItem[]
->;
+interface RunStats {
+	itemsFetched: number;
+	itemsDuplicate: number;
+	itemsRejected: number;
+	itemsFiltered?: number;
+	fetchMs?: number;
+	parseMs?: number;
+	ingestMs?: number;
+}
 
-const siteFetch = makeFunctionReference<"action">(
-	"sources/websiteAdapter:fetchSite",
-) as unknown as FunctionReference<
-	"action",
-	"internal",
-	{ url: string },
-	FetchedItem[]
->;
+function isHttpUrl(url: string): boolean {
+	try {
+		const { protocol } = new URL(url);
+		return protocol === "http:" || protocol === "https:";
+	} catch {
+		return false;
+	}
+}
 
-const search = makeFunctionReference<"action">(
-	"sources/webSearchAdapter:search",
-) as unknown as FunctionReference<
-	"action",
-	"internal",
-	{ query: string; maxResults?: number },
-	FetchedItem[]
->;
+// Items are ingested in chunks so a large feed stays well under the
+// per-mutation argument and write limits.
+const INGEST_BATCH_SIZE = 20;
 
 export const runOne = internalAction({
-	args: { sourceId: v.id("sources") },
-	handler: async (ctx, { sourceId }): Promise<void> => {
+	args: {
+		sourceId: v.id("sources"),
+		// The `running` row opened by `sources:tick`; its start time is the
+		// dispatch time, so queue delay counts towards the run duration.
+		runId: v.optional(v.id("sourceRuns")),
+	},
+	handler: async (ctx, { sourceId, runId }): Promise<void> => {
+		const startedAt = Date.now();
 		const source = await ctx.runQuery(_getSource, { sourceId });
-		if (!source) return;
+		const adapter = source ? getSourceAdapter(source.type) : null;
+		if (!source || !adapter?.fetch) {
+			if (runId) await ctx.runMutation(_discardRun, { runId });
+			return;
+		}
 
-		let items: FetchedItem[] = [];
+		let result: FetchResult = { items: [] };
+		let ingestCursor: IngestCursor | undefined;
 		let itemsAdded = 0;
+		let stats: RunStats | undefined;
 		let error: string | undefined;
 		let success = true;
+		let sample: FilterSampleItem[] | undefined;
+		let rejectedUrls: string[] | undefined;
 
 		try {
-			switch (source.type) {
-				case "rss": {
-					const url = (source.config as { url?: string } | undefined)?.url;
-					if (!url) throw new Error("RSS source missing config.url");
-					items = await ctx.runAction(rssFetch, { url });
-					break;
-				}
-				case "website": {
-					const url = (source.config as { url?: string } | undefined)?.url;
-					if (!url) throw new Error("Website source missing config.url");
-					items = await ctx.runAction(siteFetch, { url });
-					break;
-				}
-				case "web_search": {
-					const query = (source.config as { query?: string } | undefined)
-						?.query;
-					if (!query) throw new Error("Web search source missing config.query");
-					const maxResults = (
-						source.config as { maxResults?: number } | undefined
-					)?.maxResults;
-					items = await ctx.runAction(search, { query, maxResults });
-					break;
-				}
-				case "manual":
-					return;
-			}
+			const fetchStarted = Date.now();
+			result = await adapter.fetch(ctx, source.config ?? {}, {
+				sourceId,
+				httpCache: source.httpCache,
+				cursor: source.ingestCursor,
+			});
+			const fetchFinished = Date.now();
 
-			for (const item of items) {
-				const result = await ctx.runMutation(_ingestOne, {
+			const valid = result.items.filter((item) => isHttpUrl(item.url));
+			const fresh = adapter.incremental
+				? selectUnseenItems(valid, source.ingestCursor)
+				: valid;
+			const { kept, rejected } = applySourceFilters(
+				fresh,
+				sourceFiltersOf(source.config),
+			);
+			sample = filterSampleOf(valid);
+			rejectedUrls = rejected.map((r) => r.item.url);
+			for (let i = 0; i < kept.length; i += INGEST_BATCH_SIZE) {
+				const batch = kept.slice(i, i + INGEST_BATCH_SIZE);
+				const ingested = await ctx.runMutation(_ingestBatch, {
 					orgId: source.orgId,
 					sourceId,
-					originalUrl: item.url,
-					title: item.title,
-					snippet: item.snippet,
-					content: item.content,
-					publishedAt: item.publishedAt,
+					items: await Promise.all(
+						batch.map(async (item) => ({
+							originalUrl: item.url,
+							canonicalUrl:
+								item.canonicalUrl ??
+								(needsResolution(item.url)
+									? await resolveUrl(item.url)
+									: undefined),
+							title: item.title,
+							snippet: item.snippet,
+							content: item.content,
+							publishedAt: item.publishedAt,
+							imageUrl: item.imageUrl,
+							author: item.author,
+							siteName: item.siteName,
+							language: item.language,
+						})),
+					),
 				});
-				if (result.created) itemsAdded++;
+				itemsAdded += ingested.created;
+			}
+			if (adapter.incremental && !result.notModified) {
+				ingestCursor = advanceCursor(valid, source.ingestCursor);
 			}
+			stats = {
+				itemsFetched: result.items.length,
+				itemsDuplicate: valid.length - rejected.length - itemsAdded,
+				itemsRejected: result.items.length - valid.length + rejected.length,
+				itemsFiltered: rejected.length,
+				fetchMs: result.timings?.fetchMs ?? fetchFinished - fetchStarted,
+				parseMs: result.timings?.parseMs,
+				ingestMs: Date.now() - fetchFinished,
+			};
 		} catch (err) {
 			success = false;
 			error = err instanceof Error ? err.message : String(err);
@@ -143,9 +200,17 @@ export const runOne = internalAction({
 
 		await ctx.runMutation(_finishRun, {
 			sourceId,
+			runId,
+			startedAt,
 			success,
 			itemsAdded,
+			stats,
+			notModified: success ? result.notModified : undefined,
+			ingestCursor,
+			httpCache: success ? result.httpCache : undefined,
 			error,
+			sample,
+			rejectedUrls,
 		});
 	},
 });
@@ -0,0 +1,55 @@
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+import { normalizeTagName, parseTagSuggestions } from "./tags";
+
+describe("normalizeTagName", () => {
+	it("trims and collapses whitespace", () => {
+		expect(normalizeTagName("  Climate   policy ")).toBe("Climate policy");
+	});
+
+	it("rejects empty and overlong names", () => {
+		expect(() => normalizeTagName("   ")).toThrow(ConvexError);
+		expect(() => normalizeTagName("x".repeat(41))).toThrow(ConvexError);
+	});
+});
+
+describe("parseTagSuggestions", () => {
+	const tags = [
+		{ id: 1, name: "Policy" },
+		{ id: 2, name: "Funding" },
+		{ id: 3, name: "Hardware" },
+		{ id: 4, name: "Research" },
+	];
+	const cases: { name: string; input: string; expected: number[] }[] = [
+		{
+			name: "reads a bare JSON array",
+			input: '["Funding", "Hardware"]',
+			expected: [2, 3],
+		},
+		{
+			name: "matches case-insensitively and ignores prose",
+			input: 'Here you go: [" policy "] — hope that helps.',
+			expected: [1],
+		},
+		{
+			name: "drops unknown names and duplicates",
+			input: '["Sports", "Funding", "funding"]',
+			expected: [2],
+		},
+		{
+			name: "keeps at most three",
+			input: '["Policy", "Funding", "Hardware", "Research"]',
+			expected: [1, 2, 3],
+		},
+		{ name: "accepts an empty array", input: "[]", expected: [] },
+		{ name: "rejects non-JSON replies", input: "Policy", expected: [] },
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(parseTagSuggestions(c.input, tags).map((t) => t.id)).toEqual(
+				c.expected,
+			);
+		});
+	}
+});
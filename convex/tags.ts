@@ -0,0 +1,344 @@
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+	type QueryCtx,
+	internalAction,
+	internalMutation,
+	internalQuery,
+	mutation,
+	query,
+} from "./_generated/server";
+import {
+	CLASSIFY_MODEL,
+	getAnthropicClient,
+	isAnthropicConfigured,
+} from "./lib/anthropic";
+import { requireOrgMember } from "./orgAuth";
+
+const MAX_TAG_NAME = 40;
+const MAX_TAGS_PER_ORG = 100;
+const MAX_SUGGESTED_TAGS = 3;
+const SUGGEST_CONTENT_CHARS = 1500;
+
+export interface EntryTag {
+	_id: Id<"tags">;
+	name: string;
+}
+
+export function normalizeTagName(name: string): string {
+	const trimmed = name.trim().replace(/\s+/g, " ");
+	if (!trimmed) throw new ConvexError("Tag name is required");
+	if (trimmed.length > MAX_TAG_NAME) {
+		throw new ConvexError(
+			`Tag names must be at most ${MAX_TAG_NAME} characters`,
+		);
+	}
+	return trimmed;
+}
+
+/**
+ * Maps the classifier's reply (a JSON array of tag names, possibly wrapped
+ * in prose) onto the org's tags. Unknown names are dropped; matching ignores
+ * case.
+ */
+export function parseTagSuggestions<T extends { name: string }>(
+	text: string,
+	tags: T[],
+): T[] {
+	const match = /\[[\s\S]*\]/.exec(text);
+	if (!match) return [];
+	let names: unknown;
+	try {
+		names = JSON.parse(match[0]);
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(names)) return [];
+	const byName = new Map(tags.map((t) => [t.name.toLowerCase(), t]));
+	const picked = new Set<T>();
+	for (const name of names) {
+		if (typeof name !== "string") continue;
+		const tag = byName.get(name.trim().toLowerCase());
+		if (tag) picked.add(tag);
+		if (picked.size >= MAX_SUGGESTED_TAGS) break;
+	}
+	return [...picked];
+}
+
+export async function tagsForEntry(
+	ctx: QueryCtx,
+	entryId: Id<"entries">,
+): Promise<EntryTag[]> {
+	const links = await ctx.db
+		.query("entryTags")
+		.withIndex("by_entry", (q) => q.eq("entryId", entryId))
+		.collect();
+	const tags = await Promise.all(links.map((l) => ctx.db.get(l.tagId)));
+	return tags
+		.filter((t): t is Doc<"tags"> => t !== null)
+		.map((t) => ({ _id: t._id, name: t.name }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function requireTag(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	tagId: Id<"tags">,
+): Promise<Doc<"tags">> {
+	const tag = await ctx.db.get(tagId);
+	if (!tag || tag.orgId !== orgId) throw new ConvexError("Tag not found");
+	return tag;
+}
+
+async function assertNameFree(
+	ctx: QueryCtx,
+	orgId: Id<"organizations">,
+	name: string,
+	exceptId?: Id<"tags">,
+) {
+	const existing = await ctx.db
+		.query("tags")
+		.withIndex("by_org", (q) => q.eq("orgId", orgId))
+		.collect();
+	if (
+		existing.some(
+			(t) => t._id !== exceptId && t.name.toLowerCase() === name.toLowerCase(),
+		)
+	) {
+		throw new ConvexError(`A tag named "${name}" already exists`);
+	}
+	return existing.length;
+}
+
+export const list = query({
+	args: { orgId: v.id("organizations") },
+	handler: async (ctx, { orgId }) => {
+		await requireOrgMember(ctx, orgId);
+		const rows = await ctx.db
+			.query("tags")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.collect();
+		return rows.sort((a, b) => a.name.localeCompare(b.name));
+	},
+});
+
+export const create = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		name: v.string(),
+		description: v.optional(v.string()),
+	},
+	handler: async (ctx, { orgId, name, description }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		const normalized = normalizeTagName(name);
+		const count = await assertNameFree(ctx, orgId, normalized);
+		if (count >= MAX_TAGS_PER_ORG) {
+			throw new ConvexError(`At most ${MAX_TAGS_PER_ORG} tags are allowed`);
+		}
+		return await ctx.db.insert("tags", {
+			orgId,
+			name: normalized,
+			description: description?.trim() || undefined,
+			createdAt: Date.now(),
+		});
+	},
+});
+
+export const update = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		tagId: v.id("tags"),
+		name: v.optional(v.string()),
+		description: v.optional(v.string()),
+	},
+	handler: async (ctx, { orgId, tagId, name, description }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		await requireTag(ctx, orgId, tagId);
+		const patch: Partial<Doc<"tags">> = {};
+		if (name !== undefined) {
+			patch.name = normalizeTagName(name);
+			await assertNameFree(ctx, orgId, patch.name, tagId);
+		}
+		if (description !== undefined) {
+			patch.description = description.trim() || undefined;
+		}
+		await ctx.db.patch(tagId, patch);
+	},
+});
+
+export const remove = mutation({
+	args: { orgId: v.id("organizations"), tagId: v.id("tags") },
+	handler: async (ctx, { orgId, tagId }) => {
+		await requireOrgMember(ctx, orgId, "admin");
+		await requireTag(ctx, orgId, tagId);
+		const links = await ctx.db
+			.query("entryTags")
+			.withIndex("by_tag", (q) => q.eq("tagId", tagId))
+			.collect();
+		for (const link of links) {
+			await ctx.db.delete(link._id);
+		}
+		const schedules = await ctx.db
+			.query("autoDraftSchedules")
+			.withIndex("by_org", (q) => q.eq("orgId", orgId))
+			.collect();
+		for (const schedule of schedules) {
+			if (schedule.tagIds?.includes(tagId)) {
+				await ctx.db.patch(schedule._id, {
+					tagIds: schedule.tagIds.filter((id) => id !== tagId),
+				});
+			}
+		}
+		await ctx.db.delete(tagId);
+	},
+});
+
+/** Replaces an entry's tags with `tagIds`, as edited by a person. */
+export const setEntryTags = mutation({
+	args: {
+		orgId: v.id("organizations"),
+		entryId: v.id("entries"),
+		tagIds: v.array(v.id("tags")),
+	},
+	handler: async (ctx, { orgId, entryId, tagIds }) => {
+		await requireOrgMember(ctx, orgId);
+		const entry = await ctx.db.get(entryId);
+		if (!entry || entry.orgId !== orgId) {
+			throw new ConvexError("Entry not found");
+		}
+		const wanted = new Set(tagIds);
+		for (const tagId of wanted) {
+			await requireTag(ctx, orgId, tagId);
+		}
+		const links = await ctx.db
+			.query("entryTags")
+			.withIndex("by_entry", (q) => q.eq("entryId", entryId))
+			.collect();
+		const now = Date.now();
+		for (const link of links) {
+			if (!wanted.delete(link.tagId)) await ctx.db.delete(link._id);
+		}
+		for (const tagId of wanted) {
+			await ctx.db.insert("entryTags", {
+				entryId,
+				tagId,
+				orgId,
+				assignedBy: "manual",
+				createdAt: now,
+			});
+		}
+	},
+});
+
+interface SuggestionContext {
+	entry: Doc<"entries">;
+	tags: { _id: Id<"tags">; name: string; description?: string }[];
+}
+
+export const _suggestionContext = internalQuery({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }): Promise<SuggestionContext | null> => {
+		const entry = await ctx.db.get(entryId);
+		if (!entry) return null;
+		const tags = await ctx.db
+			.query("tags")
+			.withIndex("by_org", (q) => q.eq("orgId", entry.orgId))
+			.collect();
+		return {
+			entry,
+			tags: tags.map((t) => ({
+				_id: t._id,
+				name: t.name,
+				description: t.description,
+			})),
+		};
+	},
+});
+
+export const _applySuggestedTags = internalMutation({
+	args: {
+		entryId: v.id("entries"),
+		tagIds: v.array(v.id("tags")),
+	},
+	handler: async (ctx, { entryId, tagIds }) => {
+		const entry = await ctx.db.get(entryId);
+		if (!entry) return;
+		const existing = await ctx.db
+			.query("entryTags")
+			.withIndex("by_entry", (q) => q.eq("entryId", entryId))
+			.first();
+		// Someone tagged it by hand while Claude was thinking; theirs stands.
+		if (existing) return;
+		const now = Date.now();
+		for (const tagId of tagIds) {
+			const tag = await ctx.db.get(tagId);
+			if (!tag || tag.orgId !== entry.orgId) continue;
+			await ctx.db.insert("entryTags", {
+				entryId,
+				tagId,
+				orgId: entry.orgId,
+				assignedBy: "ai",
+				createdAt: now,
+			});
+		}
+	},
+});
+
+// Scheduled for every new entry. Does nothing until the org has defined
+// tags or when no Anthropic key is configured.
+export const suggestTags = internalAction({
+	args: { entryId: v.id("entries") },
+	handler: async (ctx, { entryId }): Promise<void> => {
+		if (!isAnthropicConfigured()) return;
+		const contextRef = makeFunctionReference<"query">(
+			"tags:_suggestionContext",
+		) as unknown as FunctionReference<
+			"query",
+			"internal",
+			{ entryId: Id<"entries"> },
+			SuggestionContext | null
+		>;
+		const context = await ctx.runQuery(contextRef, { entryId });
+		if (!context || context.tags.length === 0) return;
+		const { entry, tags } = context;
+
+		const taxonomy = tags
+			.map((t) =>
+				t.description ? `- ${t.name}: ${t.description}` : `- ${t.name}`,
+			)
+			.join("\n");
+		const body = (entry.content ?? entry.snippet ?? "").slice(
+			0,
+			SUGGEST_CONTENT_CHARS,
+		);
+		const res = await getAnthropicClient().messages.create({
+			model: CLASSIFY_MODEL,
+			max_tokens: 200,
+			system: `You file news items under a newsletter's tags. Pick up to ${MAX_SUGGESTED_TAGS} tags from the list that clearly apply, best first. Reply with a JSON array of tag names only, e.g. ["Policy"]; use [] when none fit.`,
+			messages: [
+				{
+					role: "user",
+					content: `Tags:\n${taxonomy}\n\nTitle: ${entry.title}${body ? `\n\n${body}` : ""}`,
+				},
+			],
+		});
+		const textPart = res.content.find((c) => c.type === "text");
+		if (!textPart || textPart.type !== "text") return;
+		const picked = parseTagSuggestions(textPart.text, tags);
+		if (picked.length === 0) return;
+
+		const applyRef = makeFunctionReference<"mutation">(
+			"tags:_applySuggestedTags",
+		) as unknown as FunctionReference<
+			"mutation",
+			"internal",
+			{ entryId: Id<"entries">; tagIds: Id<"tags">[] },
+			void
+		>;
+		await ctx.runMutation(applyRef, {
+			entryId,
+			tagIds: picked.map((t) => t._id),
+		});
+	},
+});
@@ -0,0 +1,129 @@
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useOrg } from "@/contexts/org-context";
+import { Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+const STATUS_CLASS: Record<Doc<"autoDraftRuns">["status"], string> = {
+	running: "text-muted-foreground",
+	succeeded: "text-green-700 dark:text-green-400 font-medium",
+	skipped: "text-muted-foreground font-medium",
+	failed: "text-destructive font-medium",
+	cancelled: "text-muted-foreground font-medium",
+};
+
+/** Recent runs of every auto-draft schedule, newest first. */
+export function AutoDraftRunsCard() {
+	const org = useOrg();
+	const runs = useQuery(api.autoDraftRuns.listForOrg, {
+		orgId: org.orgId,
+		limit: 30,
+	});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Recent runs</CardTitle>
+				<CardDescription>
+					Each time a schedule fires: whether it wrote a draft, and why not when
+					it didn't.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{runs === undefined ? (
+					<p className="text-sm text-muted-foreground">Loading…</p>
+				) : runs.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No runs yet.</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Status</TableHead>
+								<TableHead>Schedule</TableHead>
+								<TableHead>Started</TableHead>
+								<TableHead className="text-right">Stories</TableHead>
+								<TableHead className="text-right">Tokens in / out</TableHead>
+								<TableHead>Draft</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{runs.map((r) => (
+								<TableRow key={r._id}>
+									<TableCell>
+										<span className={STATUS_CLASS[r.status]}>{r.status}</span>
+										{r.reason && (
+											<div
+												className={
+													r.status === "failed"
+														? "text-xs text-destructive truncate max-w-xs"
+														: "text-xs text-muted-foreground truncate max-w-xs"
+												}
+												title={r.reason}
+											>
+												{r.reason}
+											</div>
+										)}
+									</TableCell>
+									<TableCell>{r.scheduleName}</TableCell>
+									<TableCell className="text-muted-foreground">
+										{formatDistanceToNow(new Date(r.startedAt), {
+											addSuffix: true,
+										})}
+									</TableCell>
+									<TableCell
+										className="text-right text-muted-foreground"
+										title={
+											r.entriesConsidered === undefined
+												? undefined
+												: `${r.entriesUsed ?? 0} of ${r.entriesConsidered} matching stories used`
+										}
+									>
+										{r.entriesConsidered === undefined
+											? "—"
+											: `${r.entriesUsed ?? 0} / ${r.entriesConsidered}`}
+									</TableCell>
+									<TableCell className="text-right text-muted-foreground">
+										{r.generation
+											? `${r.generation.inputTokens.toLocaleString()} / ${r.generation.outputTokens.toLocaleString()}`
+											: "—"}
+									</TableCell>
+									<TableCell>
+										{r.draftId && r.draftTitle !== null ? (
+											<Link
+												to="/org/$slug/drafts/$draftId"
+												params={{ slug: org.slug, draftId: r.draftId }}
+												className="hover:underline line-clamp-1"
+											>
+												{r.draftTitle}
+											</Link>
+										) : r.draftId ? (
+											<span className="text-muted-foreground">Deleted</span>
+										) : (
+											<span className="text-muted-foreground">—</span>
+										)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,76 @@
+import { Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export function ClusterMembers({
+	orgId,
+	orgSlug,
+	clusterId,
+	entryId,
+	size,
+}: {
+	orgId: Id<"organizations">;
+	orgSlug: string;
+	clusterId: Id<"storyClusters">;
+	/** The entry shown in the row; left out of the expanded list. */
+	entryId: Id<"entries">;
+	size: number;
+}) {
+	const [open, setOpen] = useState(false);
+	const members = useQuery(
+		api.entries.listClusterMembers,
+		open ? { orgId, clusterId } : "skip",
+	);
+	const others = size - 1;
+	if (others < 1) return null;
+
+	return (
+		<div className="mt-1.5">
+			<button
+				type="button"
+				onClick={() => setOpen((o) => !o)}
+				className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+				aria-expanded={open}
+			>
+				{open ? (
+					<ChevronDown className="size-3" />
+				) : (
+					<ChevronRight className="size-3" />
+				)}
+				{others} other {others === 1 ? "source" : "sources"} covered this
+			</button>
+			{open && (
+				<ul className="mt-1.5 ml-4 space-y-1 border-l pl-3">
+					{members === undefined ? (
+						<li className="text-xs text-muted-foreground">Loading…</li>
+					) : (
+						members
+							.filter((m) => m._id !== entryId)
+							.map((m) => (
+								<li key={m._id} className="text-xs">
+									<Link
+										to="/org/$slug/inbox/$entryId"
+										params={{ slug: orgSlug, entryId: m._id }}
+										className="hover:underline"
+									>
+										{m.title}
+									</Link>
+									<span className="text-muted-foreground">
+										{" "}
+										· {m.siteName ?? m.primarySourceName} ·{" "}
+										{formatDistanceToNow(new Date(m.fetchedAt), {
+											addSuffix: true,
+										})}
+									</span>
+								</li>
+							))
+					)}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -1,12 +1,25 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useMutation } from "convex/react";
 import { Link } from "@tanstack/react-router";
 import { ConvexError } from "convex/values";
 import { useTheme } from "next-themes";
-import { AlertTriangle, ArrowLeft, CheckCircle2, Loader2 } from "lucide-react";
+import {
+	AlertTriangle,
+	ArrowLeft,
+	CheckCircle2,
+	Loader2,
+	Square,
+} from "lucide-react";
 import { api } from "../../convex/_generated/api";
 import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { GENERATION_ERROR_MARKER } from "../../convex/lib/draftPrompt";
+import type { TemplateSection } from "../../convex/lib/templates";
 import { useOrg } from "@/contexts/org-context";
+import {
+	type CollabSyncState,
+	useDraftCollab,
+	useDraftPresence,
+} from "@/hooks/use-draft-collab";
 import { draftStatusLabel, draftStatusVariant } from "@/lib/draft-status";
 import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -27,53 +40,107 @@ import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Spinner } from "@/components/ui/spinner";
-import { SourcePanel } from "@/components/source-panel";
+import { type SourceEntry, SourcePanel } from "@/components/source-panel";
+import { DraftHistory } from "@/components/draft-history";
+import { PresenceAvatars, RemoteCursors } from "@/components/draft-presence";
+import { RewriteMenu } from "@/components/draft-rewrite";
 
-type DraftWithEntries = Doc<"drafts"> & { entries: Doc<"entries">[] };
+type DraftWithEntries = Doc<"drafts"> & {
+	entries: SourceEntry[];
+	template: { name: string; sections: TemplateSection[] } | null;
+};
 
 const AUTOSAVE_DELAY_MS = 1000;
-const GENERATION_ERROR_MARKER = "GENERATION ERROR:";
 
 type SaveState = "idle" | "saving" | "saved" | "error" | "dirty";
 
+const SAVE_STATE_PRIORITY: SaveState[] = [
+	"error",
+	"saving",
+	"dirty",
+	"saved",
+	"idle",
+];
+
+// The title autosaves on its own while the body syncs through
+// `useDraftCollab`; the indicator shows whichever is further from saved.
+function combinedSaveState(title: SaveState, body: CollabSyncState): SaveState {
+	return (
+		SAVE_STATE_PRIORITY.find((state) => state === title || state === body) ??
+		"idle"
+	);
+}
+
 export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 	const org = useOrg();
 	const update = useMutation(api.drafts.update);
 	const finalize = useMutation(api.drafts.finalize);
 	const reopen = useMutation(api.drafts.reopen);
+	const cancelGeneration = useMutation(api.drafts.cancelGeneration);
 	const { resolvedTheme } = useTheme();
 
-	const [body, setBody] = useState(draft.body);
 	const [title, setTitle] = useState(draft.title);
 	const [saveState, setSaveState] = useState<SaveState>("idle");
 	const [errorMessage, setErrorMessage] = useState<string | null>(null);
 	const [finalizing, setFinalizing] = useState(false);
 	const [reopening, setReopening] = useState(false);
+	const [cancelling, setCancelling] = useState(false);
+	const [sidePanel, setSidePanel] = useState<"sources" | "history">("sources");
 	const [finalizeDialogOpen, setFinalizeDialogOpen] = useState(false);
 	const [mounted, setMounted] = useState(false);
 	const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-	const lastSyncedBody = useRef(draft.body);
 	const lastSyncedTitle = useRef(draft.title);
+	const editorRef = useRef<HTMLDivElement>(null);
 	const draftId = draft._id as Id<"drafts">;
 	const isFinalized = draft.status === "finalized";
 	const isGenerating = draft.status === "generating";
 	const editable = !isFinalized && !isGenerating;
 
+	const getTextarea = useCallback(
+		() => editorRef.current?.querySelector("textarea") ?? null,
+		[],
+	);
+	const collab = useDraftCollab({
+		orgId: org.orgId,
+		draftId,
+		serverBody: draft.body,
+		serverVersion: draft.version ?? 0,
+		getTextarea,
+	});
+	const others = useDraftPresence({
+		orgId: org.orgId,
+		draftId,
+		session: collab.session,
+		getTextarea,
+	});
+	const body = collab.text;
+	const displayState = combinedSaveState(saveState, collab.syncState);
+	const displayMessage =
+		saveState === "error" ? errorMessage : (collab.errorMessage ?? errorMessage);
+	const remoteCursors = others.flatMap((p) =>
+		p.selection
+			? [
+					{
+						clientId: p.clientId,
+						userId: p.userId,
+						name: p.name,
+						index: collab.session.mapIndex(p.selection.end, p.version),
+					},
+				]
+			: [],
+	);
+
 	useEffect(() => setMounted(true), []);
 
-	// Reconcile remote updates that happen while we're not editing.
+	// Reconcile title changes made elsewhere while we're not editing it.
 	useEffect(() => {
 		if (saveState === "idle" || saveState === "saved") {
-			if (draft.body !== lastSyncedBody.current) {
-				setBody(draft.body);
-				lastSyncedBody.current = draft.body;
-			}
 			if (draft.title !== lastSyncedTitle.current) {
 				setTitle(draft.title);
 				lastSyncedTitle.current = draft.title;
 			}
 		}
-	}, [draft.body, draft.title, saveState]);
+	}, [draft.title, saveState]);
 
 	useEffect(() => {
 		return () => {
@@ -81,20 +148,15 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 		};
 	}, []);
 
-	const scheduleSave = (next: { body?: string; title?: string }) => {
+	const scheduleTitleSave = (next: string) => {
 		if (!editable) return;
 		setSaveState("dirty");
 		if (saveTimer.current) clearTimeout(saveTimer.current);
 		saveTimer.current = setTimeout(async () => {
 			setSaveState("saving");
 			try {
-				await update({
-					orgId: org.orgId,
-					draftId,
-					...next,
-				});
-				if (next.body !== undefined) lastSyncedBody.current = next.body;
-				if (next.title !== undefined) lastSyncedTitle.current = next.title;
+				await update({ orgId: org.orgId, draftId, title: next });
+				lastSyncedTitle.current = next;
 				setSaveState("saved");
 				setErrorMessage(null);
 			} catch (err) {
@@ -113,8 +175,8 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 	};
 
 	const onBodyChange = (next: string) => {
-		setBody(next);
-		scheduleSave({ body: next });
+		if (!editable) return;
+		collab.onChange(next);
 	};
 
 	const onTitleChange = (next: string) => {
@@ -123,7 +185,7 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 			setSaveState("dirty");
 			return;
 		}
-		scheduleSave({ title: next });
+		scheduleTitleSave(next);
 	};
 
 	const onFinalize = async () => {
@@ -133,10 +195,10 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 			if (saveTimer.current) {
 				clearTimeout(saveTimer.current);
 				saveTimer.current = null;
-				await update({ orgId: org.orgId, draftId, body, title });
-				lastSyncedBody.current = body;
+				await update({ orgId: org.orgId, draftId, title });
 				lastSyncedTitle.current = title;
 			}
+			await collab.flush();
 			await finalize({ orgId: org.orgId, draftId });
 			setSaveState("saved");
 			setErrorMessage(null);
@@ -163,9 +225,11 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 		}
 		setSaveState("saving");
 		try {
-			await update({ orgId: org.orgId, draftId, body, title });
-			lastSyncedBody.current = body;
-			lastSyncedTitle.current = title;
+			if (title.trim().length > 0 && title !== lastSyncedTitle.current) {
+				await update({ orgId: org.orgId, draftId, title });
+				lastSyncedTitle.current = title;
+			}
+			await collab.flush();
 			setSaveState("saved");
 			setErrorMessage(null);
 		} catch (err) {
@@ -208,6 +272,25 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 		}
 	};
 
+	const onCancelGeneration = async () => {
+		setCancelling(true);
+		try {
+			await cancelGeneration({ orgId: org.orgId, draftId });
+		} catch (err) {
+			setErrorMessage(
+				err instanceof ConvexError
+					? typeof err.data === "string"
+						? err.data
+						: "Failed to stop generation"
+					: err instanceof Error
+						? err.message
+						: "Failed to stop generation",
+			);
+		} finally {
+			setCancelling(false);
+		}
+	};
+
 	const hasGenerationError =
 		!isGenerating && body.includes(GENERATION_ERROR_MARKER);
 
@@ -221,18 +304,37 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 					</Link>
 				</Button>
 				<div className="flex items-center gap-2">
-					<SaveIndicator state={saveState} message={errorMessage} />
+					<PresenceAvatars people={others} />
+					<SaveIndicator state={displayState} message={displayMessage} />
 					<Badge variant={draftStatusVariant(draft.status)} className="gap-1">
 						{isGenerating && <Spinner className="size-3" />}
 						{draftStatusLabel(draft.status)}
 					</Badge>
+					{isGenerating && (
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={onCancelGeneration}
+							disabled={cancelling}
+						>
+							{cancelling ? (
+								<Loader2 className="size-4 mr-1 animate-spin" />
+							) : (
+								<Square className="size-4 mr-1" />
+							)}
+							Stop generating
+						</Button>
+					)}
 					{editable && (
 						<AlertDialog
 							open={finalizeDialogOpen}
 							onOpenChange={setFinalizeDialogOpen}
 						>
 							<AlertDialogTrigger asChild>
-								<Button size="sm" disabled={finalizing || saveState === "saving"}>
+								<Button
+									size="sm"
+									disabled={finalizing || displayState === "saving"}
+								>
 									{finalizing ? (
 										<Loader2 className="size-4 mr-1 animate-spin" />
 									) : (
@@ -296,7 +398,7 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 
 			<div className="grid grid-cols-1 lg:grid-cols-[1fr_22rem] gap-4">
 				<div className="min-w-0">
-					{isGenerating ? (
+					{isGenerating && body.length === 0 ? (
 						<div className="space-y-2">
 							<Skeleton className="h-6 w-1/3" />
 							<Skeleton className="h-4 w-full" />
@@ -305,25 +407,80 @@ export function DraftEditor({ draft }: { draft: DraftWithEntries }) {
 							<Skeleton className="h-64 w-full" />
 						</div>
 					) : mounted ? (
-						<MarkdownEditor
-							value={body}
-							onChange={onBodyChange}
-							readOnly={!editable}
-							theme={resolvedTheme === "dark" ? "dark" : "light"}
-						/>
+						<div className="space-y-2">
+							{editable && (
+								<div className="flex justify-end">
+									<RewriteMenu
+										orgId={org.orgId}
+										draftId={draftId}
+										text={body}
+										getTextarea={getTextarea}
+										onBeforeApply={collab.flush}
+										disabled={finalizing}
+									/>
+								</div>
+							)}
+							<div ref={editorRef} className="relative">
+								<MarkdownEditor
+									value={body}
+									onChange={onBodyChange}
+									readOnly={!editable}
+									theme={resolvedTheme === "dark" ? "dark" : "light"}
+								/>
+								{editable && (
+									<RemoteCursors
+										containerRef={editorRef}
+										cursors={remoteCursors}
+										text={body}
+									/>
+								)}
+							</div>
+						</div>
 					) : (
 						<Skeleton className="h-96 w-full" />
 					)}
 				</div>
 				<aside className="space-y-3">
-					<div className="flex items-center justify-between">
-						<h2 className="text-sm font-semibold">Source stories</h2>
-						<span className="text-xs text-muted-foreground">
-							{draft.entries.length}
-						</span>
+					<div className="flex items-center gap-1">
+						<Button
+							size="sm"
+							variant={sidePanel === "sources" ? "secondary" : "ghost"}
+							onClick={() => setSidePanel("sources")}
+						>
+							Source stories
+							<span className="text-xs text-muted-foreground">
+								{draft.entries.length}
+							</span>
+						</Button>
+						<Button
+							size="sm"
+							variant={sidePanel === "history" ? "secondary" : "ghost"}
+							onClick={() => setSidePanel("history")}
+						>
+							History
+						</Button>
 					</div>
 					<Separator />
-					<SourcePanel slug={org.slug} entries={draft.entries} />
+					{sidePanel === "sources" ? (
+						<SourcePanel
+							slug={org.slug}
+							draftId={draftId}
+							entries={draft.entries}
+							template={draft.template}
+							canMove={!isFinalized}
+						/>
+					) : (
+						<DraftHistory
+							orgId={org.orgId}
+							draftId={draftId}
+							currentTitle={title}
+							currentBody={body}
+							canRestore={
+								editable &&
+								(displayState === "idle" || displayState === "saved")
+							}
+						/>
+					)}
 				</aside>
 			</div>
 		</div>
@@ -0,0 +1,249 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import { type DiffRow, sideBySideDiff } from "@/lib/line-diff";
+import { cn } from "@/lib/utils";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { formatDistanceToNow } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { useMemo, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+type RevisionReason = Doc<"draftRevisions">["reason"];
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+	generated: "Generated",
+	autosave: "Edited",
+	finalize: "Finalized",
+	reopen: "Reopened",
+	restore: "Restored",
+	ai_rewrite: "AI rewrite",
+};
+
+export function DraftHistory({
+	orgId,
+	draftId,
+	currentTitle,
+	currentBody,
+	canRestore,
+}: {
+	orgId: Id<"organizations">;
+	draftId: Id<"drafts">;
+	currentTitle: string;
+	currentBody: string;
+	/** False while the draft is read-only or has unsaved edits. */
+	canRestore: boolean;
+}) {
+	const revisions = useQuery(api.draftRevisions.list, { orgId, draftId });
+	const [openId, setOpenId] = useState<Id<"draftRevisions"> | null>(null);
+
+	if (revisions === undefined) {
+		return <Spinner className="size-4" />;
+	}
+	if (revisions.length === 0) {
+		return (
+			<p className="text-sm text-muted-foreground">
+				No earlier versions yet. Snapshots are kept as you edit, finalize and
+				reopen.
+			</p>
+		);
+	}
+
+	return (
+		<>
+			<ul className="space-y-1">
+				{revisions.map((r, i) => (
+					<li key={r._id}>
+						<button
+							type="button"
+							onClick={() => setOpenId(r._id)}
+							className="w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span className="font-medium">{REASON_LABELS[r.reason]}</span>
+								{i === 0 && (
+									<Badge variant="outline" className="text-[10px] py-0">
+										Latest
+									</Badge>
+								)}
+							</div>
+							<div className="text-xs text-muted-foreground">
+								{formatDistanceToNow(r.createdAt, { addSuffix: true })}
+								{r.authorName && ` · ${r.authorName}`}
+							</div>
+						</button>
+					</li>
+				))}
+			</ul>
+			{openId && (
+				<RevisionDiffDialog
+					orgId={orgId}
+					revisionId={openId}
+					currentTitle={currentTitle}
+					currentBody={currentBody}
+					canRestore={canRestore}
+					onClose={() => setOpenId(null)}
+				/>
+			)}
+		</>
+	);
+}
+
+function RevisionDiffDialog({
+	orgId,
+	revisionId,
+	currentTitle,
+	currentBody,
+	canRestore,
+	onClose,
+}: {
+	orgId: Id<"organizations">;
+	revisionId: Id<"draftRevisions">;
+	currentTitle: string;
+	currentBody: string;
+	canRestore: boolean;
+	onClose: () => void;
+}) {
+	const revision = useQuery(api.draftRevisions.get, { orgId, revisionId });
+	const restore = useMutation(api.draftRevisions.restore);
+	const [restoring, setRestoring] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const rows = useMemo(
+		() => (revision ? sideBySideDiff(revision.body, currentBody) : []),
+		[revision, currentBody],
+	);
+	const unchanged =
+		revision !== undefined &&
+		revision !== null &&
+		revision.title === currentTitle &&
+		revision.body === currentBody;
+
+	const onRestore = async () => {
+		setRestoring(true);
+		setError(null);
+		try {
+			await restore({ orgId, revisionId });
+			onClose();
+		} catch (err) {
+			setError(
+				err instanceof ConvexError && typeof err.data === "string"
+					? err.data
+					: "Failed to restore",
+			);
+		} finally {
+			setRestoring(false);
+		}
+	};
+
+	return (
+		<Dialog open onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-5xl">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<History className="size-4" />
+						{revision ? REASON_LABELS[revision.reason] : "Version"}
+						{revision &&
+							` · ${formatDistanceToNow(revision.createdAt, { addSuffix: true })}`}
+					</DialogTitle>
+					<DialogDescription>
+						This version on the left, the current draft on the right.
+					</DialogDescription>
+				</DialogHeader>
+				{revision === undefined ? (
+					<Spinner />
+				) : revision === null ? (
+					<p className="text-sm text-muted-foreground">
+						This version no longer exists.
+					</p>
+				) : (
+					<div className="space-y-2">
+						{revision.title !== currentTitle && (
+							<p className="text-sm">
+								Title: <del className="text-destructive">{revision.title}</del>{" "}
+								→ {currentTitle}
+							</p>
+						)}
+						{unchanged ? (
+							<p className="text-sm text-muted-foreground">
+								Identical to the current draft.
+							</p>
+						) : (
+							<DiffTable rows={rows} />
+						)}
+					</div>
+				)}
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<DialogFooter>
+					<Button variant="outline" onClick={onClose}>
+						Close
+					</Button>
+					<Button
+						onClick={onRestore}
+						disabled={!revision || unchanged || !canRestore || restoring}
+						title={
+							canRestore
+								? undefined
+								: "Save or reopen the draft before restoring"
+						}
+					>
+						{restoring ? <Spinner /> : <RotateCcw className="size-4" />}
+						Restore this version
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+const CELL_STYLES: Record<DiffRow["kind"], [string, string]> = {
+	same: ["", ""],
+	changed: ["bg-red-500/10", "bg-green-500/10"],
+	removed: ["bg-red-500/10", "bg-muted/40"],
+	added: ["bg-muted/40", "bg-green-500/10"],
+};
+
+export function DiffTable({ rows }: { rows: DiffRow[] }) {
+	return (
+		<div className="max-h-[60vh] overflow-auto rounded-md border font-mono text-xs">
+			<div className="grid grid-cols-2">
+				{rows.map((row) => {
+					const [left, right] = CELL_STYLES[row.kind];
+					return (
+						<div
+							key={`${row.leftLine ?? ""}:${row.rightLine ?? ""}`}
+							className="contents"
+						>
+							<div
+								className={cn(
+									"whitespace-pre-wrap break-words border-r px-2 py-0.5",
+									left,
+								)}
+							>
+								{row.left ?? ""}
+							</div>
+							<div
+								className={cn(
+									"whitespace-pre-wrap break-words px-2 py-0.5",
+									right,
+								)}
+							>
+								{row.right ?? ""}
+							</div>
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,143 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { DraftPresence } from "@/hooks/use-draft-collab";
+import { presenceColor } from "@/lib/draft-collab";
+import { type CaretCoordinates, caretCoordinates } from "@/lib/textarea-caret";
+import { type RefObject, useEffect, useState } from "react";
+
+const MAX_AVATARS = 4;
+
+function initials(name: string): string {
+	return name
+		.split(/\s+/)
+		.filter(Boolean)
+		.slice(0, 2)
+		.map((part) => part[0]?.toUpperCase())
+		.join("");
+}
+
+/** Who else has the draft open, one avatar per person. */
+export function PresenceAvatars({ people }: { people: DraftPresence[] }) {
+	const unique = [...new Map(people.map((p) => [p.userId, p])).values()];
+	if (unique.length === 0) return null;
+	const shown = unique.slice(0, MAX_AVATARS);
+	const more = unique.length - shown.length;
+	return (
+		<div className="flex items-center -space-x-2">
+			{shown.map((p) => (
+				<Avatar
+					key={p.userId}
+					className="size-7 border-2"
+					style={{ borderColor: presenceColor(p.userId) }}
+					title={`${p.name} is viewing`}
+				>
+					{p.imageUrl && <AvatarImage src={p.imageUrl} alt={p.name} />}
+					<AvatarFallback className="text-[10px]">
+						{initials(p.name)}
+					</AvatarFallback>
+				</Avatar>
+			))}
+			{more > 0 && (
+				<span className="z-10 flex size-7 items-center justify-center rounded-full border-2 bg-muted text-[10px]">
+					+{more}
+				</span>
+			)}
+		</div>
+	);
+}
+
+export interface RemoteCursor {
+	clientId: string;
+	userId: string;
+	name: string;
+	/** Caret position in the local text. */
+	index: number;
+}
+
+/**
+ * Draws other editors' carets over the editor's textarea. Rendered inside a
+ * relatively positioned wrapper around the editor.
+ */
+export function RemoteCursors({
+	containerRef,
+	cursors,
+	text,
+}: {
+	containerRef: RefObject<HTMLDivElement | null>;
+	cursors: RemoteCursor[];
+	text: string;
+}) {
+	const [positions, setPositions] = useState<
+		(CaretCoordinates & { cursor: RemoteCursor })[]
+	>([]);
+
+	// Text edits move carets even when the cursor list is unchanged, so the
+	// layout is measured again whenever `text` changes.
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container) return;
+		const measure = () => {
+			const textarea = container.querySelector("textarea");
+			if (!textarea || cursors.length === 0) {
+				setPositions([]);
+				return;
+			}
+			const box = container.getBoundingClientRect();
+			const area = textarea.getBoundingClientRect();
+			const scroller = textarea.parentElement?.closest(
+				".w-md-editor-area",
+			) as HTMLElement | null;
+			const visible = (scroller ?? textarea).getBoundingClientRect();
+			const next = [];
+			for (const cursor of cursors) {
+				const at = caretCoordinates(
+					textarea,
+					Math.min(cursor.index, text.length),
+				);
+				const top = area.top - box.top + at.top - textarea.scrollTop;
+				const left = area.left - box.left + at.left - textarea.scrollLeft;
+				// Skip carets scrolled out of the editing area.
+				if (
+					top < visible.top - box.top ||
+					top + at.height > visible.bottom - box.top
+				) {
+					continue;
+				}
+				next.push({ top, left, height: at.height, cursor });
+			}
+			setPositions(next);
+		};
+		// The editor writes the new value into the textarea after rendering.
+		const frame = requestAnimationFrame(measure);
+		// Scroll events don't bubble, so listen in the capture phase.
+		container.addEventListener("scroll", measure, true);
+		window.addEventListener("resize", measure);
+		return () => {
+			cancelAnimationFrame(frame);
+			container.removeEventListener("scroll", measure, true);
+			window.removeEventListener("resize", measure);
+		};
+	}, [containerRef, cursors, text]);
+
+	return (
+		<div className="pointer-events-none absolute inset-0 overflow-hidden">
+			{positions.map(({ top, left, height, cursor }) => {
+				const color = presenceColor(cursor.userId);
+				return (
+					<div
+						key={cursor.clientId}
+						className="absolute"
+						style={{ top, left, height }}
+					>
+						<div className="h-full w-0.5" style={{ backgroundColor: color }} />
+						<span
+							className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+							style={{ backgroundColor: color }}
+						>
+							{cursor.name}
+						</span>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,316 @@
+import { DiffTable } from "@/components/draft-history";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Spinner } from "@/components/ui/spinner";
+import { sideBySideDiff } from "@/lib/line-diff";
+import { useAction, useMutation } from "convex/react";
+import { type FunctionReference, makeFunctionReference } from "convex/server";
+import { ConvexError } from "convex/values";
+import {
+	ArrowRightToLine,
+	Check,
+	Maximize2,
+	Minimize2,
+	PenLine,
+	ShieldCheck,
+	Sparkles,
+	X,
+} from "lucide-react";
+import {
+	type ComponentType,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+	type RewriteAction,
+	type RewriteSuggestion,
+	fitToSelection,
+} from "../../convex/lib/rewrite";
+
+const suggestRewriteRef = makeFunctionReference<"action">(
+	"ai/rewrite:suggestRewrite",
+) as unknown as FunctionReference<
+	"action",
+	"public",
+	{
+		orgId: Id<"organizations">;
+		draftId: Id<"drafts">;
+		action: RewriteAction;
+		selection: string;
+		before: string;
+		after: string;
+	},
+	RewriteSuggestion
+>;
+
+const applyRewriteRef = makeFunctionReference<"mutation">(
+	"ai/rewrite:applyRewrite",
+) as unknown as FunctionReference<
+	"mutation",
+	"public",
+	{
+		orgId: Id<"organizations">;
+		draftId: Id<"drafts">;
+		start: number;
+		original: string;
+		replacement: string;
+	},
+	void
+>;
+
+const ACTIONS: {
+	action: RewriteAction;
+	label: string;
+	icon: ComponentType<{ className?: string }>;
+}[] = [
+	{ action: "shorten", label: "Shorten", icon: Minimize2 },
+	{ action: "expand", label: "Expand", icon: Maximize2 },
+	{ action: "rephrase", label: "Rephrase in house voice", icon: PenLine },
+	{ action: "transition", label: "Add a transition", icon: ArrowRightToLine },
+	{
+		action: "factcheck",
+		label: "Fact-check against sources",
+		icon: ShieldCheck,
+	},
+];
+
+// Text on either side of the selection sent along for context.
+const CONTEXT_CHARS = 1500;
+
+interface PendingRewrite {
+	action: RewriteAction;
+	start: number;
+	original: string;
+}
+
+function errorText(err: unknown, fallback: string): string {
+	return err instanceof ConvexError && typeof err.data === "string"
+		? err.data
+		: fallback;
+}
+
+/**
+ * "Rewrite with AI" menu for the text selected in the draft editor. The
+ * suggestion opens as a diff the user accepts or rejects.
+ */
+export function RewriteMenu({
+	orgId,
+	draftId,
+	text,
+	getTextarea,
+	onBeforeApply,
+	disabled,
+}: {
+	orgId: Id<"organizations">;
+	draftId: Id<"drafts">;
+	text: string;
+	getTextarea: () => HTMLTextAreaElement | null;
+	/** Runs before the suggestion is written, e.g. to flush pending edits. */
+	onBeforeApply: () => Promise<void>;
+	disabled: boolean;
+}) {
+	const suggest = useAction(suggestRewriteRef);
+	const [hasSelection, setHasSelection] = useState(false);
+	const [pending, setPending] = useState<PendingRewrite | null>(null);
+	const [suggestion, setSuggestion] = useState<RewriteSuggestion | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	// Ignores suggestions that arrive after their dialog was closed.
+	const runId = useRef(0);
+
+	useEffect(() => {
+		const onSelectionChange = () => {
+			const textarea = getTextarea();
+			if (!textarea || document.activeElement !== textarea) return;
+			setHasSelection(textarea.selectionEnd > textarea.selectionStart);
+		};
+		document.addEventListener("selectionchange", onSelectionChange);
+		return () =>
+			document.removeEventListener("selectionchange", onSelectionChange);
+	}, [getTextarea]);
+
+	const run = async (action: RewriteAction) => {
+		const textarea = getTextarea();
+		if (!textarea) return;
+		// A textarea keeps its selection after losing focus to the menu.
+		const { selectionStart: start, selectionEnd: end } = textarea;
+		const original = text.slice(start, end);
+		if (!original.trim()) return;
+		const id = ++runId.current;
+		setPending({ action, start, original });
+		setSuggestion(null);
+		setError(null);
+		try {
+			const next = await suggest({
+				orgId,
+				draftId,
+				action,
+				selection: original,
+				before: text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+				after: text.slice(end, end + CONTEXT_CHARS),
+			});
+			if (id === runId.current) setSuggestion(next);
+		} catch (err) {
+			if (id === runId.current) {
+				setError(errorText(err, "Failed to get a suggestion"));
+			}
+		}
+	};
+
+	return (
+		<>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						size="sm"
+						variant="outline"
+						disabled={disabled || !hasSelection}
+						title={
+							hasSelection ? undefined : "Select some text in the draft first"
+						}
+					>
+						<Sparkles className="size-4" />
+						Rewrite selection
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="start">
+					{ACTIONS.map(({ action, label, icon: Icon }) => (
+						<DropdownMenuItem key={action} onSelect={() => void run(action)}>
+							<Icon className="size-4" />
+							{label}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuContent>
+			</DropdownMenu>
+			{pending && (
+				<SuggestionDialog
+					orgId={orgId}
+					draftId={draftId}
+					pending={pending}
+					suggestion={suggestion}
+					error={error}
+					onBeforeApply={onBeforeApply}
+					onClose={() => {
+						runId.current++;
+						setPending(null);
+					}}
+				/>
+			)}
+		</>
+	);
+}
+
+function SuggestionDialog({
+	orgId,
+	draftId,
+	pending,
+	suggestion,
+	error,
+	onBeforeApply,
+	onClose,
+}: {
+	orgId: Id<"organizations">;
+	draftId: Id<"drafts">;
+	pending: PendingRewrite;
+	suggestion: RewriteSuggestion | null;
+	error: string | null;
+	onBeforeApply: () => Promise<void>;
+	onClose: () => void;
+}) {
+	const apply = useMutation(applyRewriteRef);
+	const [applying, setApplying] = useState(false);
+	const [applyError, setApplyError] = useState<string | null>(null);
+	const replacement = suggestion
+		? fitToSelection(pending.original, suggestion.text)
+		: null;
+	const rows = useMemo(
+		() =>
+			replacement === null ? [] : sideBySideDiff(pending.original, replacement),
+		[pending.original, replacement],
+	);
+	const label = ACTIONS.find((a) => a.action === pending.action)?.label;
+
+	const onAccept = async () => {
+		if (replacement === null) return;
+		setApplying(true);
+		setApplyError(null);
+		try {
+			await onBeforeApply();
+			await apply({
+				orgId,
+				draftId,
+				start: pending.start,
+				original: pending.original,
+				replacement,
+			});
+			onClose();
+		} catch (err) {
+			setApplyError(errorText(err, "Failed to apply the suggestion"));
+		} finally {
+			setApplying(false);
+		}
+	};
+
+	return (
+		<Dialog open onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-4xl">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Sparkles className="size-4" />
+						{label}
+					</DialogTitle>
+					<DialogDescription>
+						Your selection on the left, the suggestion on the right.
+					</DialogDescription>
+				</DialogHeader>
+				{error ? (
+					<p className="text-sm text-destructive">{error}</p>
+				) : suggestion === null ? (
+					<div className="flex items-center gap-2 text-sm text-muted-foreground">
+						<Spinner /> Writing a suggestion…
+					</div>
+				) : (
+					<div className="space-y-3">
+						<DiffTable rows={rows} />
+						{suggestion.notes.length > 0 && (
+							<ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+								{suggestion.notes.map((note) => (
+									<li key={note}>{note}</li>
+								))}
+							</ul>
+						)}
+					</div>
+				)}
+				{applyError && <p className="text-sm text-destructive">{applyError}</p>}
+				<DialogFooter>
+					<Button variant="outline" onClick={onClose}>
+						<X className="size-4" />
+						Reject
+					</Button>
+					<Button
+						onClick={onAccept}
+						disabled={replacement === null || applying}
+					>
+						{applying ? <Spinner /> : <Check className="size-4" />}
+						Accept
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,365 @@
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useOrg } from "@/contexts/org-context";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import type { TemplateSection } from "../../convex/lib/templates";
+
+interface SectionDraft {
+	key: number;
+	name: string;
+	instructions: string;
+	// Blank means no limit.
+	maxEntries: string;
+}
+
+let nextKey = 0;
+
+function sectionDraft(section?: TemplateSection): SectionDraft {
+	return {
+		key: nextKey++,
+		name: section?.name ?? "",
+		instructions: section?.instructions ?? "",
+		maxEntries:
+			section?.maxEntries === undefined ? "" : String(section.maxEntries),
+	};
+}
+
+function toSections(drafts: SectionDraft[]): TemplateSection[] {
+	return drafts.map((s) => ({
+		name: s.name,
+		instructions: s.instructions,
+		maxEntries: s.maxEntries.trim() === "" ? undefined : Number(s.maxEntries),
+	}));
+}
+
+function templateErrorMessage(err: unknown, fallback: string): string {
+	return err instanceof ConvexError && typeof err.data === "string"
+		? err.data
+		: fallback;
+}
+
+function limitLabel(maxEntries: number | undefined): string {
+	if (maxEntries === undefined) return "any number of stories";
+	if (maxEntries === 0) return "no stories";
+	return `up to ${maxEntries} ${maxEntries === 1 ? "story" : "stories"}`;
+}
+
+/** Settings card for the org's newsletter templates. */
+export function TemplatesCard() {
+	const org = useOrg();
+	const isAdmin = org.role === "admin";
+	const templates = useQuery(api.draftTemplates.list, { orgId: org.orgId });
+	const [creating, setCreating] = useState(false);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Newsletter templates</CardTitle>
+				<CardDescription>
+					The sections a draft is written in, with instructions and a story
+					limit for each. Pick a template when drafting from the inbox or in an
+					auto-draft schedule.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{templates === undefined ? (
+					<p className="text-sm text-muted-foreground">Loading…</p>
+				) : templates.length === 0 && !creating ? (
+					<p className="text-sm text-muted-foreground">No templates yet.</p>
+				) : (
+					<ul className="space-y-3">
+						{templates.map((t) => (
+							<TemplateRow key={t._id} template={t} isAdmin={isAdmin} />
+						))}
+					</ul>
+				)}
+				{isAdmin &&
+					(creating ? (
+						<TemplateForm onDone={() => setCreating(false)} />
+					) : (
+						<Button variant="outline" onClick={() => setCreating(true)}>
+							<Plus className="size-4" />
+							New template
+						</Button>
+					))}
+			</CardContent>
+		</Card>
+	);
+}
+
+function TemplateRow({
+	template,
+	isAdmin,
+}: {
+	template: Doc<"draftTemplates">;
+	isAdmin: boolean;
+}) {
+	const org = useOrg();
+	const remove = useMutation(api.draftTemplates.remove);
+	const [editing, setEditing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	if (editing) {
+		return (
+			<li>
+				<TemplateForm template={template} onDone={() => setEditing(false)} />
+			</li>
+		);
+	}
+
+	const onDelete = async () => {
+		if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+		setError(null);
+		setBusy(true);
+		try {
+			await remove({ orgId: org.orgId, templateId: template._id });
+		} catch (err) {
+			setError(templateErrorMessage(err, "Failed to delete template"));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<li className="rounded-lg border p-3 space-y-2">
+			<div className="flex flex-wrap items-start justify-between gap-2">
+				<div>
+					<p className="font-medium">{template.name}</p>
+					{template.description && (
+						<p className="text-sm text-muted-foreground">
+							{template.description}
+						</p>
+					)}
+				</div>
+				{isAdmin && (
+					<div className="flex gap-1">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setEditing(true)}
+						>
+							Edit
+						</Button>
+						<Button
+							variant="ghost"
+							size="sm"
+							disabled={busy}
+							onClick={onDelete}
+						>
+							Delete
+						</Button>
+					</div>
+				)}
+			</div>
+			<ol className="list-decimal space-y-0.5 pl-5 text-sm">
+				{template.sections.map((s) => (
+					<li key={s.name}>
+						<span className="font-medium">{s.name}</span>
+						<span className="text-muted-foreground">
+							{" "}
+							— {limitLabel(s.maxEntries)}
+						</span>
+					</li>
+				))}
+			</ol>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+		</li>
+	);
+}
+
+function TemplateForm({
+	template,
+	onDone,
+}: {
+	template?: Doc<"draftTemplates">;
+	onDone: () => void;
+}) {
+	const org = useOrg();
+	const create = useMutation(api.draftTemplates.create);
+	const update = useMutation(api.draftTemplates.update);
+	const [name, setName] = useState(template?.name ?? "");
+	const [description, setDescription] = useState(template?.description ?? "");
+	const [sections, setSections] = useState<SectionDraft[]>(() =>
+		template ? template.sections.map(sectionDraft) : [sectionDraft()],
+	);
+	const [error, setError] = useState<string | null>(null);
+	const [saving, setSaving] = useState(false);
+
+	const patchSection = (key: number, patch: Partial<SectionDraft>) => {
+		setSections((prev) =>
+			prev.map((s) => (s.key === key ? { ...s, ...patch } : s)),
+		);
+	};
+
+	const moveSection = (index: number, by: -1 | 1) => {
+		setSections((prev) => {
+			const next = [...prev];
+			const [moved] = next.splice(index, 1);
+			next.splice(index + by, 0, moved);
+			return next;
+		});
+	};
+
+	const onSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setSaving(true);
+		try {
+			const args = {
+				orgId: org.orgId,
+				name,
+				description,
+				sections: toSections(sections),
+			};
+			if (template) {
+				await update({ ...args, templateId: template._id });
+			} else {
+				await create(args);
+			}
+			onDone();
+		} catch (err) {
+			setError(templateErrorMessage(err, "Failed to save template"));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={onSubmit} className="rounded-lg border p-3 space-y-4">
+			<div className="flex flex-wrap gap-2">
+				<div className="space-y-2">
+					<Label htmlFor="template-name">Name</Label>
+					<Input
+						id="template-name"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						placeholder="Weekly issue"
+						maxLength={60}
+						className="w-48"
+					/>
+				</div>
+				<div className="space-y-2 flex-1 min-w-48">
+					<Label htmlFor="template-description">Description</Label>
+					<Input
+						id="template-description"
+						value={description}
+						onChange={(e) => setDescription(e.target.value)}
+						placeholder="Our regular Friday newsletter"
+					/>
+				</div>
+			</div>
+			<ol className="space-y-3">
+				{sections.map((s, i) => (
+					<li key={s.key} className="space-y-2 rounded-md bg-muted/40 p-3">
+						<div className="flex flex-wrap items-end gap-2">
+							<div className="space-y-1.5 flex-1 min-w-40">
+								<Label htmlFor={`section-name-${s.key}`}>Section {i + 1}</Label>
+								<Input
+									id={`section-name-${s.key}`}
+									value={s.name}
+									onChange={(e) =>
+										patchSection(s.key, { name: e.target.value })
+									}
+									placeholder="Top story"
+									maxLength={60}
+								/>
+							</div>
+							<div className="space-y-1.5">
+								<Label htmlFor={`section-max-${s.key}`}>Max stories</Label>
+								<Input
+									id={`section-max-${s.key}`}
+									type="number"
+									min={0}
+									max={20}
+									value={s.maxEntries}
+									onChange={(e) =>
+										patchSection(s.key, { maxEntries: e.target.value })
+									}
+									placeholder="No limit"
+									className="w-28"
+								/>
+							</div>
+							<div className="flex gap-1">
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									disabled={i === 0}
+									onClick={() => moveSection(i, -1)}
+									aria-label="Move section up"
+								>
+									<ArrowUp className="size-4" />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									disabled={i === sections.length - 1}
+									onClick={() => moveSection(i, 1)}
+									aria-label="Move section down"
+								>
+									<ArrowDown className="size-4" />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									disabled={sections.length === 1}
+									onClick={() =>
+										setSections((prev) => prev.filter((p) => p.key !== s.key))
+									}
+									aria-label="Remove section"
+								>
+									<Trash2 className="size-4" />
+								</Button>
+							</div>
+						</div>
+						<Textarea
+							value={s.instructions}
+							onChange={(e) =>
+								patchSection(s.key, { instructions: e.target.value })
+							}
+							aria-label={`Instructions for section ${i + 1}`}
+							placeholder="How to write this section, e.g. 'Two punchy paragraphs with a takeaway for founders.'"
+							rows={2}
+							maxLength={1000}
+						/>
+					</li>
+				))}
+			</ol>
+			<div className="flex flex-wrap items-center gap-2">
+				<Button
+					type="button"
+					variant="outline"
+					onClick={() => setSections((prev) => [...prev, sectionDraft()])}
+				>
+					<Plus className="size-4" />
+					Add section
+				</Button>
+				<div className="flex-1" />
+				<Button type="button" variant="ghost" onClick={onDone}>
+					Cancel
+				</Button>
+				<Button type="submit" disabled={saving || !name.trim()}>
+					{saving ? "Saving..." : "Save template"}
+				</Button>
+			</div>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+		</form>
+	);
+}
@@ -1,16 +1,19 @@
 import { Link } from "@tanstack/react-router";
 import { formatDistanceToNow } from "date-fns";
 import { Archive, ArchiveRestore, Check, CheckCircle2 } from "lucide-react";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { ReactNode } from "react";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { entryByline } from "@/lib/byline";
+import { formatRelevance, relevanceLevel } from "@/lib/relevance";
 import { cn } from "@/lib/utils";
 
 export interface EntryRowSource {
 	_id: Id<"sources">;
 	name: string;
-	type: "rss" | "website" | "web_search" | "manual";
+	type: Doc<"sources">["type"];
 	status: "active" | "paused" | "deleted";
 }
 
@@ -18,10 +21,17 @@ export interface EntryRowData {
 	_id: Id<"entries">;
 	title: string;
 	snippet?: string;
+	imageUrl?: string;
+	author?: string;
+	siteName?: string;
 	fetchedAt: number;
 	used: boolean;
 	archived: boolean;
+	autoArchived?: boolean;
+	relevance?: number;
+	relevanceReason?: string;
 	sources: EntryRowSource[];
+	tags?: { _id: Id<"tags">; name: string }[];
 }
 
 export function EntryRow({
@@ -32,6 +42,7 @@ export function EntryRow({
 	onSelectChange,
 	onToggleUsed,
 	onToggleArchived,
+	children,
 }: {
 	entry: EntryRowData;
 	orgSlug: string;
@@ -40,9 +51,12 @@ export function EntryRow({
 	onSelectChange: (next: boolean) => void;
 	onToggleUsed: (next: boolean) => void;
 	onToggleArchived: (next: boolean) => void;
+	/** Extra content under the metadata line, e.g. a story-cluster expander. */
+	children?: ReactNode;
 }) {
 	const primary = entry.sources[0];
 	const more = entry.sources.length - 1;
+	const byline = entryByline(entry);
 
 	return (
 		<li
@@ -75,11 +89,38 @@ export function EntryRow({
 						</Badge>
 					)}
 					{entry.archived && (
-						<Badge variant="outline" className="gap-1">
+						<Badge
+							variant="outline"
+							className="gap-1"
+							title={
+								entry.autoArchived
+									? "Archived automatically for low relevance"
+									: undefined
+							}
+						>
 							<Archive className="size-3" />
 							Archived
 						</Badge>
 					)}
+					{entry.relevance !== undefined && (
+						<Badge
+							variant={
+								relevanceLevel(entry.relevance) === "high"
+									? "default"
+									: relevanceLevel(entry.relevance) === "medium"
+										? "secondary"
+										: "outline"
+							}
+							title={entry.relevanceReason}
+						>
+							{formatRelevance(entry.relevance)}
+						</Badge>
+					)}
+					{entry.tags?.map((t) => (
+						<Badge key={t._id} variant="outline" className="text-xs">
+							{t.name}
+						</Badge>
+					))}
 				</div>
 				{entry.snippet && (
 					<p className="text-sm text-muted-foreground line-clamp-2 mt-1">
@@ -87,6 +128,14 @@ export function EntryRow({
 					</p>
 				)}
 				<div className="flex items-center gap-2 mt-1.5 text-xs text-muted-foreground flex-wrap">
+					{byline && (
+						<>
+							<span className="truncate max-w-[240px]">
+								{byline}
+							</span>
+							<span>·</span>
+						</>
+					)}
 					{primary && (
 						<span className="truncate max-w-[200px]">{primary.name}</span>
 					)}
@@ -102,7 +151,20 @@ export function EntryRow({
 						})}
 					</span>
 				</div>
+				{children}
 			</div>
+			{entry.imageUrl && (
+				<img
+					src={entry.imageUrl}
+					alt=""
+					loading="lazy"
+					referrerPolicy="no-referrer"
+					className="size-16 shrink-0 rounded-md object-cover bg-muted"
+					onError={(e) => {
+						e.currentTarget.style.display = "none";
+					}}
+				/>
+			)}
 			<div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
 				<Button
 					variant="ghost"
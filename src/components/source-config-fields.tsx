@@ -0,0 +1,100 @@
+import type { FunctionReturnType } from "convex/server";
+import type { api } from "../../convex/_generated/api";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+
+export type SourceTypeForm = FunctionReturnType<
+	typeof api.sources.listTypes
+>[number];
+
+export type SourceConfigValues = Record<string, string>;
+
+export function configToValues(
+	form: SourceTypeForm,
+	config: unknown,
+): SourceConfigValues {
+	const cfg = (config ?? {}) as Record<string, unknown>;
+	const values: SourceConfigValues = {};
+	for (const field of form.fields) {
+		const raw = cfg[field.key];
+		values[field.key] = raw === undefined || raw === null ? "" : String(raw);
+	}
+	return values;
+}
+
+export function valuesToConfig(
+	form: SourceTypeForm,
+	values: SourceConfigValues,
+): Record<string, unknown> {
+	const config: Record<string, unknown> = {};
+	for (const field of form.fields) {
+		const raw = values[field.key]?.trim() ?? "";
+		if (raw === "") continue;
+		config[field.key] = field.kind === "number" ? Number(raw) : raw;
+	}
+	return config;
+}
+
+export function SourceConfigFields({
+	form,
+	values,
+	onChange,
+	idPrefix,
+	disabled,
+}: {
+	form: SourceTypeForm;
+	values: SourceConfigValues;
+	onChange: (values: SourceConfigValues) => void;
+	idPrefix: string;
+	disabled?: boolean;
+}) {
+	return (
+		<>
+			{form.fields.map((field) => {
+				const id = `${idPrefix}-${field.key}`;
+				return (
+					<div key={field.key} className="space-y-2">
+						<Label htmlFor={id}>{field.label}</Label>
+						{field.kind === "select" ? (
+							<Select
+								value={values[field.key] || field.options?.[0]?.value}
+								onValueChange={(v) => onChange({ ...values, [field.key]: v })}
+								disabled={disabled}
+							>
+								<SelectTrigger id={id}>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{field.options?.map((o) => (
+										<SelectItem key={o.value} value={o.value}>
+											{o.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						) : (
+							<Input
+								id={id}
+								type={field.kind === "text" ? "text" : field.kind}
+								value={values[field.key] ?? ""}
+								onChange={(e) =>
+									onChange({ ...values, [field.key]: e.target.value })
+								}
+								placeholder={field.placeholder}
+								required={field.required}
+								disabled={disabled}
+							/>
+						)}
+					</div>
+				);
+			})}
+		</>
+	);
+}
@@ -0,0 +1,184 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useQuery } from "convex/react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const LIST_FIELDS = [
+	{
+		key: "include",
+		label: "Must mention one of",
+		placeholder: "climate\nenergy",
+	},
+	{ key: "exclude", label: "Must not mention", placeholder: "sponsored" },
+	{
+		key: "includePatterns",
+		label: "Include patterns (regex)",
+		placeholder: "\\bseries [a-c]\\b",
+	},
+	{
+		key: "excludePatterns",
+		label: "Exclude patterns (regex)",
+		placeholder: "^\\[ad\\]",
+	},
+	{
+		key: "blockedDomains",
+		label: "Blocked domains",
+		placeholder: "example.com",
+	},
+] as const;
+
+type ListKey = (typeof LIST_FIELDS)[number]["key"];
+
+export type SourceFilterValues = Record<ListKey | "minContentLength", string>;
+
+export type SourceFilterConfig = Partial<Record<ListKey, string[]>> & {
+	minContentLength?: number;
+};
+
+export function filtersToValues(config: unknown): SourceFilterValues {
+	const filters = ((config ?? {}) as { filters?: SourceFilterConfig }).filters;
+	return {
+		include: filters?.include?.join("\n") ?? "",
+		exclude: filters?.exclude?.join("\n") ?? "",
+		includePatterns: filters?.includePatterns?.join("\n") ?? "",
+		excludePatterns: filters?.excludePatterns?.join("\n") ?? "",
+		blockedDomains: filters?.blockedDomains?.join("\n") ?? "",
+		minContentLength:
+			filters?.minContentLength !== undefined
+				? String(filters.minContentLength)
+				: "",
+	};
+}
+
+export function valuesToFilters(
+	values: SourceFilterValues,
+): SourceFilterConfig {
+	const filters: SourceFilterConfig = {};
+	for (const { key } of LIST_FIELDS) {
+		const lines = values[key]
+			.split("\n")
+			.map((l) => l.trim())
+			.filter(Boolean);
+		if (lines.length > 0) filters[key] = lines;
+	}
+	if (values.minContentLength.trim() !== "") {
+		filters.minContentLength = Number(values.minContentLength);
+	}
+	return filters;
+}
+
+export function SourceFilterFields({
+	values,
+	onChange,
+	idPrefix,
+	disabled,
+}: {
+	values: SourceFilterValues;
+	onChange: (values: SourceFilterValues) => void;
+	idPrefix: string;
+	disabled?: boolean;
+}) {
+	return (
+		<div className="grid gap-4 sm:grid-cols-2">
+			{LIST_FIELDS.map((field) => {
+				const id = `${idPrefix}-filter-${field.key}`;
+				return (
+					<div key={field.key} className="space-y-2">
+						<Label htmlFor={id}>{field.label}</Label>
+						<Textarea
+							id={id}
+							value={values[field.key]}
+							onChange={(e) =>
+								onChange({ ...values, [field.key]: e.target.value })
+							}
+							placeholder={field.placeholder}
+							rows={3}
+							className="font-mono text-sm"
+							disabled={disabled}
+						/>
+					</div>
+				);
+			})}
+			<div className="space-y-2">
+				<Label htmlFor={`${idPrefix}-filter-min-length`}>
+					Minimum content length (characters)
+				</Label>
+				<Input
+					id={`${idPrefix}-filter-min-length`}
+					type="number"
+					min={0}
+					value={values.minContentLength}
+					onChange={(e) =>
+						onChange({ ...values, minContentLength: e.target.value })
+					}
+					placeholder="0"
+					disabled={disabled}
+				/>
+			</div>
+		</div>
+	);
+}
+
+export function SourceFilterPreview({
+	orgId,
+	sourceId,
+	filters,
+}: {
+	orgId: Id<"organizations">;
+	sourceId: Id<"sources">;
+	filters: SourceFilterConfig;
+}) {
+	const preview = useQuery(api.sources.previewFilters, {
+		orgId,
+		sourceId,
+		filters,
+	});
+
+	if (preview === undefined) {
+		return <p className="text-sm text-muted-foreground">Checking…</p>;
+	}
+	if (preview === null) {
+		return (
+			<p className="text-sm text-muted-foreground">
+				Nothing to preview yet; this source hasn't fetched any items.
+			</p>
+		);
+	}
+	if ("error" in preview) {
+		return <p className="text-sm text-destructive">{preview.error}</p>;
+	}
+	return (
+		<div className="space-y-2 rounded-md border p-3">
+			<p className="text-sm">
+				{preview.kept.length} of {preview.total} items from the last fetch (
+				{formatDistanceToNow(preview.fetchedAt, { addSuffix: true })}) would be
+				kept.
+			</p>
+			{preview.rejected.length > 0 && (
+				<ul className="space-y-1 text-sm">
+					{preview.rejected.map((r) => (
+						<li key={r.url} className="flex justify-between gap-4">
+							<a
+								href={r.url}
+								target="_blank"
+								rel="noreferrer"
+								className="truncate text-muted-foreground hover:underline"
+							>
+								{r.title}
+							</a>
+							<span className="shrink-0 text-xs text-muted-foreground">
+								{r.reason}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+			<p className="text-xs text-muted-foreground">
+				Keywords are matched against the first 2,000 characters of each item.
+			</p>
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { runSummary } from "@/lib/source-run";
 import { cn } from "@/lib/utils";
 
 export function SourceHealthSparkline({
@@ -32,16 +33,17 @@ export function SourceHealthSparkline({
 			{reversed.map((run) => {
 				const color =
 					run.status === "success"
-						? "bg-green-500"
+						? run.unchanged
+							? "bg-green-300"
+							: "bg-green-500"
 						: run.status === "error"
 							? "bg-red-500"
 							: "bg-yellow-500";
-				const date = new Date(run.startedAt).toLocaleString();
 				return (
 					<span
 						key={run._id}
 						className={cn("h-3 w-1.5 rounded-sm", color)}
-						title={`${run.status} — ${date}${run.error ? ` — ${run.error}` : ""}`}
+						title={runSummary(run)}
 					/>
 				);
 			})}
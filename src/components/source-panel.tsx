@@ -1,6 +1,12 @@
 import { Link } from "@tanstack/react-router";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
 import { ExternalLink } from "lucide-react";
-import type { Doc } from "../../convex/_generated/dataModel";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { TemplateSection } from "../../convex/lib/templates";
+import { useOrg } from "@/contexts/org-context";
 import { Badge } from "@/components/ui/badge";
 import {
 	Empty,
@@ -8,13 +14,36 @@ import {
 	EmptyHeader,
 	EmptyTitle,
 } from "@/components/ui/empty";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { entryByline } from "@/lib/byline";
+
+export type SourceEntry = Doc<"entries"> & { section?: string };
 
 interface SourcePanelProps {
 	slug: string;
-	entries: Doc<"entries">[];
+	draftId: Id<"drafts">;
+	entries: SourceEntry[];
+	template: { name: string; sections: TemplateSection[] } | null;
+	canMove: boolean;
 }
 
-export function SourcePanel({ slug, entries }: SourcePanelProps) {
+export function SourcePanel({
+	slug,
+	draftId,
+	entries,
+	template,
+	canMove,
+}: SourcePanelProps) {
+	const org = useOrg();
+	const setEntrySection = useMutation(api.drafts.setEntrySection);
+	const [error, setError] = useState<string | null>(null);
+
 	if (entries.length === 0) {
 		return (
 			<Empty>
@@ -27,44 +56,143 @@ export function SourcePanel({ slug, entries }: SourcePanelProps) {
 			</Empty>
 		);
 	}
+	if (!template) {
+		return (
+			<ul className="space-y-3">
+				{entries.map((e) => (
+					<SourceCard key={e._id} slug={slug} entry={e} />
+				))}
+			</ul>
+		);
+	}
+
+	const onMove = async (entryId: Id<"entries">, section: string) => {
+		setError(null);
+		try {
+			await setEntrySection({ orgId: org.orgId, draftId, entryId, section });
+		} catch (err) {
+			setError(
+				err instanceof ConvexError && typeof err.data === "string"
+					? err.data
+					: "Failed to move story",
+			);
+		}
+	};
+
+	const names = new Set(template.sections.map((s) => s.name));
+	// Sections renamed or removed since the draft was written.
+	const other = entries.filter((e) => !e.section || !names.has(e.section));
+	const groups = [
+		...template.sections.map((s) => ({
+			name: s.name,
+			limit: s.maxEntries,
+			entries: entries.filter((e) => e.section === s.name),
+		})),
+		...(other.length > 0
+			? [{ name: "Other", limit: undefined, entries: other }]
+			: []),
+	];
+
 	return (
-		<ul className="space-y-3">
-			{entries.map((e) => (
-				<li
-					key={e._id}
-					className="rounded-lg border bg-card p-3 text-sm space-y-1.5"
-				>
-					<div className="flex items-start justify-between gap-2">
-						<Link
-							to="/org/$slug/inbox/$entryId"
-							params={{ slug, entryId: e._id }}
-							className="font-medium hover:underline line-clamp-2"
-						>
-							{e.title}
-						</Link>
-						<a
-							href={e.canonicalUrl}
-							target="_blank"
-							rel="noreferrer"
-							className="text-muted-foreground hover:text-foreground shrink-0"
-							title="Open original"
-							aria-label="Open original article"
-						>
-							<ExternalLink className="size-4" />
-						</a>
-					</div>
-					{e.snippet && (
-						<p className="text-xs text-muted-foreground line-clamp-3">
-							{e.snippet}
-						</p>
-					)}
-					{e.used && (
-						<Badge variant="secondary" className="text-xs">
-							Used
-						</Badge>
+		<div className="space-y-4">
+			<p className="text-xs text-muted-foreground">
+				Written with the “{template.name}” template.
+			</p>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+			{groups.map((group) => (
+				<section key={group.name} className="space-y-2">
+					<h3 className="text-sm font-medium">
+						{group.name}
+						<span className="ml-1.5 font-normal text-muted-foreground">
+							{group.entries.length}
+							{group.limit !== undefined && ` / ${group.limit}`}
+						</span>
+					</h3>
+					{group.entries.length > 0 && (
+						<ul className="space-y-3">
+							{group.entries.map((e) => (
+								<SourceCard key={e._id} slug={slug} entry={e}>
+									{canMove && (
+										<Select
+											value={names.has(e.section ?? "") ? e.section : undefined}
+											onValueChange={(section) => void onMove(e._id, section)}
+										>
+											<SelectTrigger
+												size="sm"
+												className="text-xs"
+												aria-label={`Section for ${e.title}`}
+											>
+												<SelectValue placeholder="Move to section" />
+											</SelectTrigger>
+											<SelectContent>
+												{template.sections.map((s) => (
+													<SelectItem
+														key={s.name}
+														value={s.name}
+														disabled={s.maxEntries === 0}
+													>
+														{s.name}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									)}
+								</SourceCard>
+							))}
+						</ul>
 					)}
-				</li>
+				</section>
 			))}
-		</ul>
+		</div>
+	);
+}
+
+function SourceCard({
+	slug,
+	entry: e,
+	children,
+}: {
+	slug: string;
+	entry: SourceEntry;
+	children?: React.ReactNode;
+}) {
+	return (
+		<li className="rounded-lg border bg-card p-3 text-sm space-y-1.5">
+			<div className="flex items-start justify-between gap-2">
+				<Link
+					to="/org/$slug/inbox/$entryId"
+					params={{ slug, entryId: e._id }}
+					className="font-medium hover:underline line-clamp-2"
+				>
+					{e.title}
+				</Link>
+				<a
+					href={e.canonicalUrl}
+					target="_blank"
+					rel="noreferrer"
+					className="text-muted-foreground hover:text-foreground shrink-0"
+					title="Open original"
+					aria-label="Open original article"
+				>
+					<ExternalLink className="size-4" />
+				</a>
+			</div>
+			{entryByline(e) && (
+				<p className="text-xs text-muted-foreground truncate">
+					{entryByline(e)}
+				</p>
+			)}
+			{e.snippet && (
+				<p className="text-xs text-muted-foreground line-clamp-3">
+					{e.snippet}
+				</p>
+			)}
+			{e.used && (
+				<Badge variant="secondary" className="text-xs">
+					Used
+				</Badge>
+			)}
+			{children}
+		</li>
 	);
 }
@@ -0,0 +1,165 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+import { Sparkles } from "lucide-react";
+import { useState } from "react";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+	type EntrySection,
+	assignToSections,
+} from "../../convex/lib/templates";
+
+export interface SectionableEntry {
+	_id: Id<"entries">;
+	title: string;
+	tags?: { name: string }[];
+}
+
+function initialAssignment(
+	template: Doc<"draftTemplates">,
+	entries: SectionableEntry[],
+): Map<Id<"entries">, string> {
+	const { groups } = assignToSections(template.sections, entries);
+	return new Map(
+		groups.flatMap((g) =>
+			g.entries.map((e) => [e._id, g.section.name] as const),
+		),
+	);
+}
+
+/**
+ * Lets the user move the selected stories between a template's sections
+ * before the draft is written. Stories start where the server would put them.
+ */
+export function TemplateSectionsDialog({
+	template,
+	entries,
+	drafting,
+	error,
+	onGenerate,
+	onClose,
+}: {
+	template: Doc<"draftTemplates">;
+	entries: SectionableEntry[];
+	drafting: boolean;
+	error: string | null;
+	onGenerate: (sections: EntrySection[]) => void;
+	onClose: () => void;
+}) {
+	const [assigned, setAssigned] = useState(() =>
+		initialAssignment(template, entries),
+	);
+
+	const counts = new Map<string, number>();
+	for (const section of assigned.values()) {
+		counts.set(section, (counts.get(section) ?? 0) + 1);
+	}
+	const overfull = template.sections.filter(
+		(s) =>
+			s.maxEntries !== undefined && (counts.get(s.name) ?? 0) > s.maxEntries,
+	);
+	const unplaced = entries.filter((e) => !assigned.has(e._id)).length;
+
+	return (
+		<Dialog open onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Draft with “{template.name}”</DialogTitle>
+					<DialogDescription>
+						Choose the section each story is covered in.
+					</DialogDescription>
+				</DialogHeader>
+				<ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+					{template.sections.map((s) => (
+						<li
+							key={s.name}
+							className={cn(overfull.includes(s) && "text-destructive")}
+						>
+							{s.name}: {counts.get(s.name) ?? 0}
+							{s.maxEntries !== undefined && ` / ${s.maxEntries}`}
+						</li>
+					))}
+				</ul>
+				<ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+					{entries.map((e) => (
+						<li key={e._id} className="flex items-center gap-3">
+							<span className="flex-1 text-sm line-clamp-2">{e.title}</span>
+							<Select
+								value={assigned.get(e._id) ?? ""}
+								onValueChange={(section) =>
+									setAssigned((prev) => new Map(prev).set(e._id, section))
+								}
+							>
+								<SelectTrigger
+									className="w-48"
+									aria-label={`Section for ${e.title}`}
+								>
+									<SelectValue placeholder="Choose a section" />
+								</SelectTrigger>
+								<SelectContent>
+									{template.sections.map((s) => (
+										<SelectItem
+											key={s.name}
+											value={s.name}
+											disabled={s.maxEntries === 0}
+										>
+											{s.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</li>
+					))}
+				</ul>
+				{overfull.length > 0 && (
+					<p className="text-sm text-destructive">
+						Too many stories in {overfull.map((s) => `“${s.name}”`).join(", ")}.
+					</p>
+				)}
+				{unplaced > 0 && (
+					<p className="text-sm text-destructive">
+						{unplaced === 1
+							? "One story doesn't fit"
+							: `${unplaced} stories don't fit`}{" "}
+						the template. Move stories around or pick fewer.
+					</p>
+				)}
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<DialogFooter>
+					<Button variant="outline" onClick={onClose}>
+						Cancel
+					</Button>
+					<Button
+						disabled={drafting || overfull.length > 0 || unplaced > 0}
+						onClick={() =>
+							onGenerate(
+								[...assigned].map(([entryId, section]) => ({
+									entryId,
+									section,
+								})),
+							)
+						}
+					>
+						{drafting ? <Spinner /> : <Sparkles className="size-4" />}
+						Draft newsletter
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,261 @@
+import { DraftCollabSession } from "@/lib/draft-collab";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import {
+	useCallback,
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+} from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { transformIndex } from "../../convex/lib/textOperation";
+
+// Keystrokes within this window go out as one batch.
+const SEND_DELAY_MS = 200;
+const FLUSH_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const SELECTION_THROTTLE_MS = 300;
+// Matches PRESENCE_TIMEOUT_MS in convex/draftCollab.ts.
+const PRESENCE_TIMEOUT_MS = 30 * 1000;
+
+export type CollabSyncState = "idle" | "dirty" | "saving" | "saved" | "error";
+
+function errorText(err: unknown, fallback: string): string {
+	return err instanceof ConvexError
+		? typeof err.data === "string"
+			? err.data
+			: fallback
+		: err instanceof Error
+			? err.message
+			: fallback;
+}
+
+/**
+ * Keeps the draft body in sync with everyone else editing it. Local edits
+ * are sent as operations and remote ones are merged in as they arrive, with
+ * the caret kept in place.
+ */
+export function useDraftCollab({
+	orgId,
+	draftId,
+	serverBody,
+	serverVersion,
+	getTextarea,
+}: {
+	orgId: Id<"organizations">;
+	draftId: Id<"drafts">;
+	/** Latest body and version from `drafts.get`, used to recover after a rejected edit. */
+	serverBody: string;
+	serverVersion: number;
+	getTextarea: () => HTMLTextAreaElement | null;
+}) {
+	const submit = useMutation(api.draftCollab.submit);
+	const [session] = useState(
+		() =>
+			new DraftCollabSession(crypto.randomUUID(), serverBody, serverVersion),
+	);
+	const [text, setText] = useState(session.text);
+	const [version, setVersion] = useState(session.version);
+	const [syncState, setSyncState] = useState<CollabSyncState>("idle");
+	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+	const sendTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const [caretAfterRemote, setCaretAfterRemote] = useState<{
+		start: number;
+		end: number;
+	} | null>(null);
+	const server = useRef({ body: serverBody, version: serverVersion });
+	server.current = { body: serverBody, version: serverVersion };
+
+	const result = useQuery(api.draftCollab.steps, {
+		orgId,
+		draftId,
+		since: version,
+	});
+
+	const send = useCallback(() => {
+		if (sendTimer.current) {
+			clearTimeout(sendTimer.current);
+			sendTimer.current = null;
+		}
+		const batch = session.takeBatch();
+		if (!batch) return;
+		setSyncState("saving");
+		submit({ orgId, draftId, clientId: session.clientId, ...batch }).catch(
+			(err) => {
+				// The server refused the batch, so the local copy can't be
+				// rebased any more. Start over from the server's copy.
+				session.reset(server.current.body, server.current.version);
+				setText(session.text);
+				setVersion(session.version);
+				setSyncState("error");
+				setErrorMessage(errorText(err, "Failed to save"));
+			},
+		);
+	}, [orgId, draftId, session, submit]);
+
+	useEffect(() => {
+		if (!result) return;
+		const textarea = getTextarea();
+		const focused = textarea !== null && document.activeElement === textarea;
+		if (result.snapshot) {
+			const dropped = session.reset(
+				result.snapshot.body,
+				result.snapshot.version,
+			);
+			if (dropped) {
+				setSyncState("error");
+				setErrorMessage(
+					"You fell too far behind; reloaded the latest version.",
+				);
+			}
+		} else {
+			const applied = session.receive(result.steps);
+			if (applied.length > 0 && textarea && focused) {
+				let start = textarea.selectionStart;
+				let end = textarea.selectionEnd;
+				for (const op of applied) {
+					start = transformIndex(start, op);
+					end = transformIndex(end, op);
+				}
+				setCaretAfterRemote({ start, end });
+			}
+			if (session.synced) {
+				setSyncState((s) => (s === "saving" ? "saved" : s));
+				setErrorMessage(null);
+			} else if (!session.sending && !sendTimer.current) {
+				send();
+			}
+		}
+		setText(session.text);
+		setVersion(session.version);
+	}, [result, session, send, getTextarea]);
+
+	// The editor re-renders the textarea a tick after its value changes, so
+	// the caret is put back on the next frame.
+	useLayoutEffect(() => {
+		if (!caretAfterRemote) return;
+		const frame = requestAnimationFrame(() => {
+			getTextarea()?.setSelectionRange(
+				caretAfterRemote.start,
+				caretAfterRemote.end,
+			);
+			setCaretAfterRemote(null);
+		});
+		return () => cancelAnimationFrame(frame);
+	}, [caretAfterRemote, getTextarea]);
+
+	useEffect(() => {
+		return () => {
+			if (sendTimer.current) {
+				clearTimeout(sendTimer.current);
+				sendTimer.current = null;
+				send();
+			}
+		};
+	}, [send]);
+
+	const onChange = useCallback(
+		(next: string) => {
+			session.edit(next);
+			setText(session.text);
+			setSyncState("dirty");
+			if (!sendTimer.current) {
+				sendTimer.current = setTimeout(send, SEND_DELAY_MS);
+			}
+		},
+		[session, send],
+	);
+
+	/** Sends pending edits and waits until the server has acknowledged them. */
+	const flush = useCallback(async () => {
+		const deadline = Date.now() + FLUSH_TIMEOUT_MS;
+		send();
+		while (!session.synced) {
+			if (Date.now() > deadline) {
+				throw new Error("Timed out saving your edits");
+			}
+			await new Promise((resolve) => setTimeout(resolve, 100));
+			send();
+		}
+	}, [session, send]);
+
+	return { session, text, syncState, errorMessage, onChange, flush };
+}
+
+export interface DraftPresence {
+	clientId: string;
+	userId: Id<"users">;
+	name: string;
+	imageUrl?: string;
+	selection?: { start: number; end: number };
+	version: number;
+}
+
+/**
+ * Announces this tab on the draft and returns everyone else who has it
+ * open. The caret is reported whenever it moves inside the editor.
+ */
+export function useDraftPresence({
+	orgId,
+	draftId,
+	session,
+	getTextarea,
+}: {
+	orgId: Id<"organizations">;
+	draftId: Id<"drafts">;
+	session: DraftCollabSession;
+	getTextarea: () => HTMLTextAreaElement | null;
+}): DraftPresence[] {
+	const heartbeat = useMutation(api.draftCollab.heartbeat);
+	const leave = useMutation(api.draftCollab.leave);
+	const rows = useQuery(api.draftCollab.presence, { orgId, draftId });
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const beat = () => {
+			const textarea = getTextarea();
+			const focused = textarea !== null && document.activeElement === textarea;
+			heartbeat({
+				orgId,
+				draftId,
+				clientId: session.clientId,
+				version: session.version,
+				selection:
+					textarea && focused
+						? { start: textarea.selectionStart, end: textarea.selectionEnd }
+						: undefined,
+			}).catch(() => {
+				// Presence is best-effort; the next beat retries.
+			});
+			setNow(Date.now());
+		};
+		let throttle: ReturnType<typeof setTimeout> | null = null;
+		const onCaretMove = () => {
+			if (throttle || document.activeElement !== getTextarea()) return;
+			throttle = setTimeout(() => {
+				throttle = null;
+				beat();
+			}, SELECTION_THROTTLE_MS);
+		};
+
+		beat();
+		const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+		document.addEventListener("selectionchange", onCaretMove);
+		document.addEventListener("input", onCaretMove);
+		return () => {
+			clearInterval(interval);
+			if (throttle) clearTimeout(throttle);
+			document.removeEventListener("selectionchange", onCaretMove);
+			document.removeEventListener("input", onCaretMove);
+			leave({ orgId, clientId: session.clientId }).catch(() => {});
+		};
+	}, [orgId, draftId, session, getTextarea, heartbeat, leave]);
+
+	return (rows ?? []).filter(
+		(row) =>
+			row.clientId !== session.clientId &&
+			now - row.lastSeenAt < PRESENCE_TIMEOUT_MS,
+	);
+}
@@ -0,0 +1,9 @@
+/** "The Verge by Jane Doe", "The Verge", "by Jane Doe", or "" when neither is known. */
+export function entryByline(entry: {
+	siteName?: string;
+	author?: string;
+}): string {
+	return [entry.siteName, entry.author && `by ${entry.author}`]
+		.filter(Boolean)
+		.join(" ");
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { applyOp, transformRun } from "../../convex/lib/textOperation";
+import {
+	type CollabBatch,
+	type CollabStep,
+	DraftCollabSession,
+	presenceColor,
+} from "./draft-collab";
+
+// In-memory stand-in for `draftCollab:submit` and `draftCollab:steps`.
+class FakeServer {
+	steps: CollabStep[] = [];
+	constructor(public body: string) {}
+
+	submit(clientId: string, batch: CollabBatch): void {
+		let pending = batch.ops;
+		for (const step of this.steps.slice(batch.baseVersion)) {
+			pending = transformRun(step.op, pending)[1];
+		}
+		for (const op of pending) {
+			this.body = applyOp(this.body, op);
+			this.steps.push({ version: this.steps.length + 1, clientId, op });
+		}
+	}
+
+	since(version: number): CollabStep[] {
+		return this.steps.slice(version);
+	}
+}
+
+function send(server: FakeServer, session: DraftCollabSession): void {
+	const batch = session.takeBatch();
+	if (batch) server.submit(session.clientId, batch);
+}
+
+describe("DraftCollabSession", () => {
+	it("merges concurrent edits from two editors", () => {
+		const server = new FakeServer("Intro\n\nOutro");
+		const alice = new DraftCollabSession("alice", server.body, 0);
+		const bob = new DraftCollabSession("bob", server.body, 0);
+
+		alice.edit("Intro — hello\n\nOutro");
+		bob.edit("Intro\n\nOutro. Bye!");
+		send(server, alice);
+		send(server, bob);
+		alice.edit("Big Intro — hello\n\nOutro");
+		alice.receive(server.since(alice.version));
+		send(server, alice);
+		alice.receive(server.since(alice.version));
+		bob.receive(server.since(bob.version));
+
+		const expected = "Big Intro — hello\n\nOutro. Bye!";
+		expect(server.body).toBe(expected);
+		expect(alice.text).toBe(expected);
+		expect(bob.text).toBe(expected);
+		expect(alice.synced && bob.synced).toBe(true);
+	});
+
+	it("keeps unsent typing when a remote edit arrives", () => {
+		const server = new FakeServer("abc");
+		const alice = new DraftCollabSession("alice", "abc", 0);
+		const bob = new DraftCollabSession("bob", "abc", 0);
+
+		bob.edit("Xabc");
+		send(server, bob);
+		alice.edit("abcd");
+		const applied = alice.receive(server.since(0));
+
+		expect(applied).toHaveLength(1);
+		expect(alice.text).toBe("Xabcd");
+		expect(alice.synced).toBe(false);
+		send(server, alice);
+		expect(server.body).toBe("Xabcd");
+	});
+
+	it("does not reapply its own acknowledged steps", () => {
+		const server = new FakeServer("");
+		const alice = new DraftCollabSession("alice", "", 0);
+		alice.edit("hi");
+		send(server, alice);
+		expect(alice.sending).toBe(true);
+		expect(alice.receive(server.since(0))).toEqual([]);
+		expect(alice.text).toBe("hi");
+		expect(alice.version).toBe(1);
+		expect(alice.synced).toBe(true);
+	});
+
+	it("stops at a gap in the steps", () => {
+		const alice = new DraftCollabSession("alice", "ab", 0);
+		alice.receive([{ version: 2, clientId: "bob", op: [2, "c"] }]);
+		expect(alice.version).toBe(0);
+		expect(alice.text).toBe("ab");
+	});
+
+	it("maps another editor's caret through later steps", () => {
+		const server = new FakeServer("hello");
+		const alice = new DraftCollabSession("alice", "hello", 0);
+		const bob = new DraftCollabSession("bob", "hello", 0);
+		bob.edit(">> hello");
+		send(server, bob);
+		alice.receive(server.since(0));
+		// Carol's caret sat after "hell" at version 0.
+		expect(alice.mapIndex(4, 0)).toBe(7);
+		expect(alice.mapIndex(4, 1)).toBe(4);
+	});
+
+	it("drops pending edits on reset", () => {
+		const alice = new DraftCollabSession("alice", "a", 0);
+		alice.edit("ab");
+		expect(alice.reset("server copy", 7)).toBe(true);
+		expect(alice.text).toBe("server copy");
+		expect(alice.version).toBe(7);
+		expect(alice.takeBatch()).toBeNull();
+	});
+});
+
+describe("presenceColor", () => {
+	it("is stable for the same key", () => {
+		expect(presenceColor("user_1")).toBe(presenceColor("user_1"));
+		expect(presenceColor("user_1")).toMatch(/^#[0-9a-f]{6}$/);
+	});
+});
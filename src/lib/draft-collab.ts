@@ -0,0 +1,146 @@
+import {
+	type TextOp,
+	applyOp,
+	diffOp,
+	transformIndex,
+	transformRun,
+} from "../../convex/lib/textOperation";
+
+export interface CollabStep {
+	version: number;
+	clientId: string;
+	op: TextOp;
+}
+
+export interface CollabBatch {
+	baseVersion: number;
+	ops: TextOp[];
+}
+
+// Recent steps kept for mapping other editors' carets onto our text.
+const HISTORY_LIMIT = 200;
+
+/**
+ * Client half of the draft body sync. Local edits queue up as operations;
+ * at most one batch is in flight, and it is acknowledged when its steps come
+ * back through `receive`. Other editors' steps are rebased over everything
+ * not yet acknowledged, the same way `draftCollab:submit` rebases ours.
+ */
+export class DraftCollabSession {
+	text: string;
+	version: number;
+	private inflight: TextOp[] = [];
+	private buffer: TextOp[] = [];
+	private history = new Map<number, TextOp>();
+
+	constructor(
+		readonly clientId: string,
+		text: string,
+		version: number,
+	) {
+		this.text = text;
+		this.version = version;
+	}
+
+	/** True once every local edit has been acknowledged. */
+	get synced(): boolean {
+		return this.inflight.length === 0 && this.buffer.length === 0;
+	}
+
+	get sending(): boolean {
+		return this.inflight.length > 0;
+	}
+
+	edit(next: string): void {
+		if (next === this.text) return;
+		this.buffer.push(diffOp(this.text, next));
+		this.text = next;
+	}
+
+	/** The next batch to submit, or null while one is in flight or nothing changed. */
+	takeBatch(): CollabBatch | null {
+		if (this.inflight.length > 0 || this.buffer.length === 0) return null;
+		this.inflight = this.buffer;
+		this.buffer = [];
+		return { baseVersion: this.version, ops: this.inflight };
+	}
+
+	/**
+	 * Applies steps in version order, skipping ones already seen and stopping
+	 * at a gap. Returns the operations that changed the local text.
+	 */
+	receive(steps: CollabStep[]): TextOp[] {
+		const applied: TextOp[] = [];
+		for (const step of steps) {
+			if (step.version <= this.version) continue;
+			if (step.version !== this.version + 1) break;
+			if (step.clientId === this.clientId && this.inflight.length > 0) {
+				this.inflight.shift();
+			} else {
+				const [overInflight, inflight] = transformRun(step.op, this.inflight);
+				const [local, buffer] = transformRun(overInflight, this.buffer);
+				this.inflight = inflight;
+				this.buffer = buffer;
+				this.text = applyOp(this.text, local);
+				applied.push(local);
+			}
+			this.version = step.version;
+			this.history.set(step.version, step.op);
+			this.history.delete(step.version - HISTORY_LIMIT);
+		}
+		return applied;
+	}
+
+	/**
+	 * Starts over from the server's copy. Returns true if unacknowledged local
+	 * edits were dropped.
+	 */
+	reset(body: string, version: number): boolean {
+		const dropped = !this.synced;
+		this.text = body;
+		this.version = version;
+		this.inflight = [];
+		this.buffer = [];
+		this.history.clear();
+		return dropped;
+	}
+
+	/**
+	 * Maps a caret another editor reported at `fromVersion` onto the local
+	 * text. Falls back to clamping when the steps in between are not known.
+	 */
+	mapIndex(index: number, fromVersion: number): number {
+		let mapped = index;
+		if (fromVersion <= this.version) {
+			for (let v = fromVersion + 1; v <= this.version; v++) {
+				const op = this.history.get(v);
+				if (!op) return Math.min(index, this.text.length);
+				mapped = transformIndex(mapped, op);
+			}
+			for (const op of [...this.inflight, ...this.buffer]) {
+				mapped = transformIndex(mapped, op);
+			}
+		}
+		return Math.max(0, Math.min(mapped, this.text.length));
+	}
+}
+
+const PRESENCE_COLORS = [
+	"#e11d48",
+	"#2563eb",
+	"#16a34a",
+	"#d97706",
+	"#9333ea",
+	"#0891b2",
+	"#db2777",
+	"#65a30d",
+];
+
+/** Stable per-user color for avatars and carets. */
+export function presenceColor(key: string): string {
+	let hash = 0;
+	for (let i = 0; i < key.length; i++) {
+		hash = (hash * 31 + key.charCodeAt(i)) | 0;
+	}
+	return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { type DiffRow, sideBySideDiff } from "./line-diff";
+
+describe("sideBySideDiff", () => {
+	const cases: {
+		name: string;
+		before: string;
+		after: string;
+		expected: DiffRow[];
+	}[] = [
+		{
+			name: "marks identical documents as unchanged",
+			before: "# Hi\nbody",
+			after: "# Hi\nbody",
+			expected: [
+				{
+					kind: "same",
+					left: "# Hi",
+					right: "# Hi",
+					leftLine: 1,
+					rightLine: 1,
+				},
+				{
+					kind: "same",
+					left: "body",
+					right: "body",
+					leftLine: 2,
+					rightLine: 2,
+				},
+			],
+		},
+		{
+			name: "pairs a replaced line",
+			before: "a\nb\nc",
+			after: "a\nB\nc",
+			expected: [
+				{ kind: "same", left: "a", right: "a", leftLine: 1, rightLine: 1 },
+				{ kind: "changed", left: "b", right: "B", leftLine: 2, rightLine: 2 },
+				{ kind: "same", left: "c", right: "c", leftLine: 3, rightLine: 3 },
+			],
+		},
+		{
+			name: "shows insertions and deletions against blank cells",
+			before: "a\nold\nc",
+			after: "a\nc\nnew",
+			expected: [
+				{ kind: "same", left: "a", right: "a", leftLine: 1, rightLine: 1 },
+				{ kind: "removed", left: "old", leftLine: 2 },
+				{ kind: "same", left: "c", right: "c", leftLine: 3, rightLine: 2 },
+				{ kind: "added", right: "new", rightLine: 3 },
+			],
+		},
+		{
+			name: "pads the longer side of an uneven replacement",
+			before: "x\ny",
+			after: "z",
+			expected: [
+				{ kind: "changed", left: "x", right: "z", leftLine: 1, rightLine: 1 },
+				{ kind: "removed", left: "y", leftLine: 2 },
+			],
+		},
+	];
+
+	for (const c of cases) {
+		it(c.name, () => {
+			expect(sideBySideDiff(c.before, c.after)).toEqual(c.expected);
+		});
+	}
+});
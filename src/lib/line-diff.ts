@@ -0,0 +1,114 @@
+export type DiffRowKind = "same" | "added" | "removed" | "changed";
+
+/** One row of a side-by-side diff; a missing side renders as a blank cell. */
+export interface DiffRow {
+	kind: DiffRowKind;
+	left?: string;
+	right?: string;
+	/** 1-based line numbers in each document, set for the sides present. */
+	leftLine?: number;
+	rightLine?: number;
+}
+
+type Op = { type: "same" | "removed" | "added"; line: string };
+
+function lineOps(a: string[], b: string[]): Op[] {
+	// Longest-common-subsequence table, filled from the end so the walk below
+	// can go forwards.
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0),
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				a[i] === b[j]
+					? lcs[i + 1][j + 1] + 1
+					: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+	const ops: Op[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: "same", line: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			ops.push({ type: "removed", line: a[i++] });
+		} else {
+			ops.push({ type: "added", line: b[j++] });
+		}
+	}
+	while (i < a.length) ops.push({ type: "removed", line: a[i++] });
+	while (j < b.length) ops.push({ type: "added", line: b[j++] });
+	return ops;
+}
+
+/**
+ * Line diff of two markdown documents laid out side by side. Runs of removed
+ * and added lines are paired up as "changed" rows.
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+	const a = before.split("\n");
+	const b = after.split("\n");
+
+	// Trim the shared head and tail so the quadratic table only covers the
+	// part that actually changed.
+	let head = 0;
+	while (head < a.length && head < b.length && a[head] === b[head]) head++;
+	let tail = 0;
+	while (
+		tail < a.length - head &&
+		tail < b.length - head &&
+		a[a.length - 1 - tail] === b[b.length - 1 - tail]
+	) {
+		tail++;
+	}
+
+	// Next line number on each side.
+	let leftLine = 1;
+	let rightLine = 1;
+	const same = (line: string): DiffRow => ({
+		kind: "same",
+		left: line,
+		right: line,
+		leftLine: leftLine++,
+		rightLine: rightLine++,
+	});
+	const rows: DiffRow[] = a.slice(0, head).map(same);
+	const ops = lineOps(
+		a.slice(head, a.length - tail),
+		b.slice(head, b.length - tail),
+	);
+	for (let k = 0; k < ops.length; ) {
+		if (ops[k].type === "same") {
+			rows.push(same(ops[k++].line));
+			continue;
+		}
+		const removed: string[] = [];
+		const added: string[] = [];
+		while (k < ops.length && ops[k].type !== "same") {
+			const op = ops[k++];
+			(op.type === "removed" ? removed : added).push(op.line);
+		}
+		for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+			const left = removed[n];
+			const right = added[n];
+			rows.push({
+				kind:
+					left !== undefined && right !== undefined
+						? "changed"
+						: left !== undefined
+							? "removed"
+							: "added",
+				left,
+				right,
+				leftLine: left !== undefined ? leftLine++ : undefined,
+				rightLine: right !== undefined ? rightLine++ : undefined,
+			});
+		}
+	}
+	rows.push(...a.slice(a.length - tail).map(same));
+	return rows;
+}
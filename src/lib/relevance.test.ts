@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { formatRelevance, relevanceLevel } from "./relevance";
+
+describe("relevanceLevel", () => {
+	it("buckets scores by the inbox thresholds", () => {
+		expect(relevanceLevel(0.9)).toBe("high");
+		expect(relevanceLevel(0.7)).toBe("high");
+		expect(relevanceLevel(0.5)).toBe("medium");
+		expect(relevanceLevel(0.1)).toBe("low");
+	});
+});
+
+describe("formatRelevance", () => {
+	it("renders a rounded, clamped percentage", () => {
+		expect(formatRelevance(0.824)).toBe("82% relevant");
+		expect(formatRelevance(1.2)).toBe("100% relevant");
+	});
+});
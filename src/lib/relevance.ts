@@ -0,0 +1,15 @@
+/** Inbox filter cut-offs on the 0–1 relevance scale stored on entries. */
+export const RELEVANCE_THRESHOLDS = { medium: 0.4, high: 0.7 } as const;
+
+export type RelevanceLevel = "high" | "medium" | "low";
+
+export function relevanceLevel(score: number): RelevanceLevel {
+	if (score >= RELEVANCE_THRESHOLDS.high) return "high";
+	if (score >= RELEVANCE_THRESHOLDS.medium) return "medium";
+	return "low";
+}
+
+/** "82% relevant" */
+export function formatRelevance(score: number): string {
+	return `${Math.round(Math.min(1, Math.max(0, score)) * 100)}% relevant`;
+}
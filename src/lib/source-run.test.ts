@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration } from "./source-run";
+
+describe("formatDuration", () => {
+	it("formats sub-second durations in milliseconds", () => {
+		expect(formatDuration(0)).toBe("0ms");
+		expect(formatDuration(420)).toBe("420ms");
+	});
+
+	it("formats seconds and minutes", () => {
+		expect(formatDuration(1500)).toBe("1.5s");
+		expect(formatDuration(42_000)).toBe("42s");
+		expect(formatDuration(125_000)).toBe("2m 5s");
+	});
+
+	it("renders a dash for missing or invalid values", () => {
+		expect(formatDuration(undefined)).toBe("—");
+		expect(formatDuration(-5)).toBe("—");
+	});
+});
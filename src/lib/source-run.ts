@@ -0,0 +1,35 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type SourceRun = Doc<"sourceRuns">;
+
+export function formatDuration(ms: number | undefined): string {
+	if (ms === undefined || !Number.isFinite(ms) || ms < 0) return "—";
+	if (ms < 1000) return `${Math.round(ms)}ms`;
+	const seconds = ms / 1000;
+	if (seconds < 60) return `${seconds.toFixed(seconds < 10 ? 1 : 0)}s`;
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+export function runDurationMs(run: SourceRun): number | undefined {
+	return run.finishedAt !== undefined
+		? run.finishedAt - run.startedAt
+		: undefined;
+}
+
+/** One-line description used for sparkline tooltips. */
+export function runSummary(run: SourceRun): string {
+	const parts = [
+		run.unchanged ? "unchanged" : run.status,
+		new Date(run.startedAt).toLocaleString(),
+	];
+	const duration = runDurationMs(run);
+	if (duration !== undefined) parts.push(`took ${formatDuration(duration)}`);
+	if (run.itemsFetched !== undefined) {
+		parts.push(
+			`${run.itemsFetched} fetched, ${run.itemsAdded ?? 0} new, ${run.itemsDuplicate ?? 0} duplicate, ${run.itemsRejected ?? 0} rejected`,
+		);
+	}
+	if (run.error) parts.push(run.error);
+	return parts.join(" — ");
+}
@@ -0,0 +1,71 @@
+// Properties that affect where text wraps inside a textarea.
+const MIRRORED_PROPERTIES = [
+	"box-sizing",
+	"width",
+	"border-top-width",
+	"border-right-width",
+	"border-bottom-width",
+	"border-left-width",
+	"padding-top",
+	"padding-right",
+	"padding-bottom",
+	"padding-left",
+	"font-style",
+	"font-variant",
+	"font-weight",
+	"font-stretch",
+	"font-size",
+	"line-height",
+	"font-family",
+	"text-align",
+	"text-transform",
+	"text-indent",
+	"letter-spacing",
+	"word-spacing",
+	"tab-size",
+];
+
+export interface CaretCoordinates {
+	top: number;
+	left: number;
+	height: number;
+}
+
+/**
+ * Position of the character at `index` relative to the textarea's border
+ * box, ignoring scroll. Measured by laying the text out in a hidden div
+ * styled like the textarea.
+ */
+export function caretCoordinates(
+	textarea: HTMLTextAreaElement,
+	index: number,
+): CaretCoordinates {
+	const style = window.getComputedStyle(textarea);
+	const mirror = document.createElement("div");
+	for (const property of MIRRORED_PROPERTIES) {
+		mirror.style.setProperty(property, style.getPropertyValue(property));
+	}
+	mirror.style.position = "absolute";
+	mirror.style.visibility = "hidden";
+	mirror.style.top = "0";
+	mirror.style.left = "-9999px";
+	mirror.style.whiteSpace = "pre-wrap";
+	mirror.style.overflowWrap = "break-word";
+	mirror.style.borderStyle = "solid";
+
+	mirror.textContent = textarea.value.slice(0, index);
+	const marker = document.createElement("span");
+	// A non-empty marker so a caret at the very end still has a box.
+	marker.textContent = textarea.value.slice(index) || ".";
+	mirror.appendChild(marker);
+	document.body.appendChild(mirror);
+
+	const fontSize = Number.parseFloat(style.fontSize) || 14;
+	const coordinates = {
+		top: marker.offsetTop + Number.parseFloat(style.borderTopWidth || "0"),
+		left: marker.offsetLeft + Number.parseFloat(style.borderLeftWidth || "0"),
+		height: Number.parseFloat(style.lineHeight) || fontSize * 1.2,
+	};
+	mirror.remove();
+	return coordinates;
+}
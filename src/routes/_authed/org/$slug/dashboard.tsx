@@ -67,6 +67,10 @@ function OrgDashboard() {
 		orgId: org.orgId,
 		sinceMs: 24 * 60 * 60 * 1000,
 	});
+	const autoDraftFailures = useQuery(api.autoDraftRuns.recentFailures, {
+		orgId: org.orgId,
+		sinceMs: 24 * 60 * 60 * 1000,
+	});
 	const draftsForReview = useQuery(api.drafts.recentForReview, {
 		orgId: org.orgId,
 		limit: 5,
@@ -79,6 +83,9 @@ function OrgDashboard() {
 	});
 
 	const acknowledgeFailure = useMutation(api.sourceRuns.acknowledgeFailure);
+	const acknowledgeAutoDraftFailure = useMutation(
+		api.autoDraftRuns.acknowledgeFailure,
+	);
 
 	const counts = {
 		healthy: sources?.filter((s) => s.health === "healthy").length ?? 0,
@@ -209,6 +216,68 @@ function OrgDashboard() {
 				</Card>
 			)}
 
+			{autoDraftFailures && autoDraftFailures.length > 0 && (
+				<Card className="border-destructive/40 bg-destructive/5">
+					<CardContent className="p-4 space-y-2">
+						<div className="flex items-start gap-3">
+							<AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+							<div className="flex-1 min-w-0">
+								<p className="font-medium">
+									{autoDraftFailures.length} failed auto-draft run
+									{autoDraftFailures.length === 1 ? "" : "s"} in the last 24
+									hours
+								</p>
+								<p className="text-sm text-muted-foreground mt-0.5">
+									Acknowledge each to clear it from the dashboard, or open the
+									auto-draft settings to see every run.
+								</p>
+							</div>
+							{isAdmin && (
+								<Button variant="outline" size="sm" asChild>
+									<Link
+										to="/org/$slug/settings/auto-draft"
+										params={{ slug: org.slug }}
+									>
+										Review
+									</Link>
+								</Button>
+							)}
+						</div>
+						<ul className="divide-y divide-destructive/20 border-t border-destructive/20 pt-2">
+							{autoDraftFailures.slice(0, 5).map((run) => (
+								<li
+									key={run._id}
+									className="flex items-start gap-2 py-2 text-sm"
+								>
+									<div className="flex-1 min-w-0">
+										<p className="truncate">
+											{run.scheduleName}:{" "}
+											{run.reason ?? "Run failed without error message"}
+										</p>
+										<p className="text-xs text-muted-foreground">
+											{formatDistanceToNow(new Date(run.startedAt), {
+												addSuffix: true,
+											})}
+										</p>
+									</div>
+									{isAdmin && (
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() => {
+												void acknowledgeAutoDraftFailure({ runId: run._id });
+											}}
+										>
+											Acknowledge
+										</Button>
+									)}
+								</li>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			)}
+
 			{showChecklist && (
 				<Card>
 					<CardHeader className="flex flex-row items-start justify-between space-y-0">
@@ -378,7 +447,7 @@ function OrgDashboard() {
 										to="/org/$slug/settings/auto-draft"
 										params={{ slug: org.slug }}
 									>
-										Auto-draft schedule →
+										Auto-draft schedules →
 									</Link>
 								</Button>
 							</div>
@@ -401,7 +470,7 @@ function OrgDashboard() {
 						<p className="text-sm text-muted-foreground">Loading…</p>
 					) : draftsForReview.length === 0 ? (
 						<p className="text-sm text-muted-foreground">
-							No drafts waiting — generate one from the inbox or wait for the
+							No drafts waiting — generate one from the inbox or wait for an
 							auto-draft schedule.
 						</p>
 					) : (
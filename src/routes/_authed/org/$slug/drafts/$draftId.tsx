@@ -42,5 +42,6 @@ function DraftPage() {
 		);
 	}
 
-	return <DraftEditor draft={draft} />;
+	// Keyed so the editor starts a fresh sync session for each draft.
+	return <DraftEditor key={draft._id} draft={draft} />;
 }
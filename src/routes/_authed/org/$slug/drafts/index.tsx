@@ -61,7 +61,7 @@ function DraftsListPage() {
 					<EmptyHeader>
 						<EmptyTitle>No drafts yet</EmptyTitle>
 						<EmptyDescription>
-							No drafts yet. Generate one from the inbox or wait for the
+							No drafts yet. Generate one from the inbox or wait for an
 							auto-draft schedule.
 						</EmptyDescription>
 					</EmptyHeader>
@@ -1,12 +1,17 @@
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
-import { useMutation, useQuery } from "convex/react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import {
+	makeFunctionReference,
+	type FunctionReference,
+} from "convex/server";
 import { ConvexError } from "convex/values";
 import { formatDistanceToNow } from "date-fns";
-import { Archive, ArchiveRestore, ArrowLeft, Check, ExternalLink } from "lucide-react";
+import { Archive, ArchiveRestore, ArrowLeft, Check, ExternalLink, Sparkles, X } from "lucide-react";
 import { useState } from "react";
 import { api } from "../../../../../../convex/_generated/api";
-import type { Id } from "../../../../../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../../../../../convex/_generated/dataModel";
 import { useOrg } from "@/contexts/org-context";
+import { entryByline } from "@/lib/byline";
 import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -16,6 +21,25 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+
+type EntrySummary = NonNullable<Doc<"entries">["summary"]>;
+
+const regenerateSummaryRef = makeFunctionReference<"action">(
+	"ai/summarize:regenerateSummary",
+) as unknown as FunctionReference<
+	"action",
+	"public",
+	{ orgId: Id<"organizations">; entryId: Id<"entries"> },
+	EntrySummary | null
+>;
 
 export const Route = createFileRoute("/_authed/org/$slug/inbox/$entryId")({
 	component: EntryDetailPage,
@@ -116,6 +140,8 @@ function EntryDetailPage() {
 		}
 	};
 
+	const byline = entryByline(entry);
+
 	return (
 		<div className="space-y-6">
 			<div>
@@ -142,6 +168,14 @@ function EntryDetailPage() {
 					</div>
 				</div>
 				<div className="flex items-center gap-2 text-sm text-muted-foreground flex-wrap">
+					{byline && (
+						<>
+							<span>
+								{byline}
+							</span>
+							<span>·</span>
+						</>
+					)}
 					<span>
 						Fetched{" "}
 						{formatDistanceToNow(new Date(entry.fetchedAt), {
@@ -159,9 +193,26 @@ function EntryDetailPage() {
 							</span>
 						</>
 					)}
+					{entry.language && (
+						<Badge variant="outline" className="uppercase text-[10px]">
+							{entry.language}
+						</Badge>
+					)}
 				</div>
 			</div>
 
+			{entry.imageUrl && (
+				<img
+					src={entry.imageUrl}
+					alt=""
+					referrerPolicy="no-referrer"
+					className="w-full max-h-80 rounded-lg border object-cover"
+					onError={(e) => {
+						e.currentTarget.style.display = "none";
+					}}
+				/>
+			)}
+
 			<div className="flex flex-wrap gap-2">
 				<Button onClick={onToggleUsed} disabled={busy} variant="outline">
 					<Check className="size-4" />
@@ -190,6 +241,12 @@ function EntryDetailPage() {
 
 			{error && <p className="text-sm text-destructive">{error}</p>}
 
+			<EntryTags
+				orgId={org.orgId}
+				entryId={entry._id}
+				tags={entry.tags}
+			/>
+
 			<Card>
 				<CardHeader>
 					<CardTitle>Sources</CardTitle>
@@ -223,6 +280,14 @@ function EntryDetailPage() {
 				</CardContent>
 			</Card>
 
+			{entry.content && (
+				<EntrySummaryCard
+					orgId={org.orgId}
+					entryId={entry._id}
+					summary={entry.summary}
+				/>
+			)}
+
 			{entry.content && (
 				<Card>
 					<CardHeader>
@@ -238,3 +303,199 @@ function EntryDetailPage() {
 		</div>
 	);
 }
+
+function EntryTags({
+	orgId,
+	entryId,
+	tags,
+}: {
+	orgId: Id<"organizations">;
+	entryId: Id<"entries">;
+	tags: { _id: Id<"tags">; name: string }[];
+}) {
+	const orgTags = useQuery(api.tags.list, { orgId });
+	const setEntryTags = useMutation(api.tags.setEntryTags);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const save = async (tagIds: Id<"tags">[]) => {
+		setSaving(true);
+		setError(null);
+		try {
+			await setEntryTags({ orgId, entryId, tagIds });
+		} catch (err) {
+			setError(errorMessage(err, "Failed to update tags"));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const current = new Set(tags.map((t) => t._id));
+	const available = (orgTags ?? []).filter((t) => !current.has(t._id));
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Tags</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<div className="flex flex-wrap items-center gap-2">
+					{tags.length === 0 && (
+						<span className="text-sm text-muted-foreground">No tags yet.</span>
+					)}
+					{tags.map((t) => (
+						<Badge key={t._id} variant="secondary" className="gap-1 pr-1">
+							{t.name}
+							<button
+								type="button"
+								className="rounded-sm hover:bg-muted-foreground/20 disabled:opacity-50"
+								onClick={() =>
+									save(tags.filter((x) => x._id !== t._id).map((x) => x._id))
+								}
+								disabled={saving}
+								aria-label={`Remove tag ${t.name}`}
+							>
+								<X className="size-3" />
+							</button>
+						</Badge>
+					))}
+					{available.length > 0 && (
+						<Select
+							value=""
+							onValueChange={(v) =>
+								save([...tags.map((t) => t._id), v as Id<"tags">])
+							}
+							disabled={saving}
+						>
+							<SelectTrigger className="h-7 w-auto text-xs">
+								<SelectValue placeholder="Add tag" />
+							</SelectTrigger>
+							<SelectContent>
+								{available.map((t) => (
+									<SelectItem key={t._id} value={t._id}>
+										{t.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+				</div>
+				{orgTags?.length === 0 && (
+					<p className="text-sm text-muted-foreground">
+						Your organization has no tags. Admins can add them in settings.
+					</p>
+				)}
+				{error && <p className="text-sm text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+}
+
+function EntrySummaryCard({
+	orgId,
+	entryId,
+	summary,
+}: {
+	orgId: Id<"organizations">;
+	entryId: Id<"entries">;
+	summary?: EntrySummary;
+}) {
+	const regenerate = useAction(regenerateSummaryRef);
+	const [working, setWorking] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const onRegenerate = async () => {
+		setWorking(true);
+		setError(null);
+		try {
+			const result = await regenerate({ orgId, entryId });
+			if (!result) setError("This article is too short to summarize.");
+		} catch (err) {
+			setError(errorMessage(err, "Failed to summarize"));
+		} finally {
+			setWorking(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+				<CardTitle>Summary</CardTitle>
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={onRegenerate}
+					disabled={working}
+				>
+					{working ? <Spinner /> : <Sparkles className="size-4" />}
+					{summary ? "Regenerate" : "Summarize"}
+				</Button>
+			</CardHeader>
+			<CardContent className="space-y-4 text-sm">
+				{summary ? (
+					<>
+						<p className="font-medium">{summary.tldr}</p>
+						{summary.keyFacts.length > 0 && (
+							<div className="space-y-1">
+								<h3 className="text-xs font-semibold uppercase text-muted-foreground">
+									Key facts
+								</h3>
+								<ul className="list-disc pl-5 space-y-1">
+									{summary.keyFacts.map((fact) => (
+										<li key={fact}>{fact}</li>
+									))}
+								</ul>
+							</div>
+						)}
+						{summary.quotes.length > 0 && (
+							<div className="space-y-1">
+								<h3 className="text-xs font-semibold uppercase text-muted-foreground">
+									Quotes
+								</h3>
+								{summary.quotes.map((q) => (
+									<blockquote key={q.text} className="border-l-2 pl-3 italic">
+										“{q.text}”
+										{q.speaker && (
+											<span className="not-italic text-muted-foreground">
+												{" "}
+												— {q.speaker}
+											</span>
+										)}
+									</blockquote>
+								))}
+							</div>
+						)}
+						{summary.numbers.length > 0 && (
+							<div className="space-y-1">
+								<h3 className="text-xs font-semibold uppercase text-muted-foreground">
+									Numbers
+								</h3>
+								<dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+									{summary.numbers.map((n) => (
+										<div key={`${n.value}-${n.context}`} className="contents">
+											<dt className="font-medium">{n.value}</dt>
+											<dd className="text-muted-foreground">{n.context}</dd>
+										</div>
+									))}
+								</dl>
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground">
+							Generated{" "}
+							{formatDistanceToNow(new Date(summary.generatedAt), {
+								addSuffix: true,
+							})}
+							. Drafts use this summary instead of the full article.
+						</p>
+					</>
+				) : (
+					<p className="text-muted-foreground">
+						No summary yet. Long articles are summarized shortly after they
+						arrive.
+					</p>
+				)}
+				{error && <p className="text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	);
+}
@@ -10,9 +10,16 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { z } from "zod";
 import { api } from "../../../../../../convex/_generated/api";
 import type { Id } from "../../../../../../convex/_generated/dataModel";
+import type { EntrySection } from "../../../../../../convex/lib/templates";
 import { useOrg } from "@/contexts/org-context";
 import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
+import { RELEVANCE_THRESHOLDS } from "@/lib/relevance";
+import { ClusterMembers } from "@/components/cluster-members";
 import { EntryRow } from "@/components/entry-row";
+import {
+	type SectionableEntry,
+	TemplateSectionsDialog,
+} from "@/components/template-sections-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
@@ -31,6 +38,7 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
 
 const generateDraftRef = makeFunctionReference<"action">(
 	"ai/draft:generateDraft",
@@ -41,16 +49,24 @@ const generateDraftRef = makeFunctionReference<"action">(
 		orgId: Id<"organizations">;
 		entryIds: Id<"entries">[];
 		title?: string;
+		groupByTag?: boolean;
+		templateId?: Id<"draftTemplates">;
+		sections?: EntrySection[];
 	},
 	{ draftId: Id<"drafts"> }
 >;
 
+const NO_TEMPLATE = "none";
+
 const filtersSchema = z.object({
 	source: z.string().optional(),
+	tag: z.string().optional(),
 	used: z.enum(["any", "used", "unused"]).optional().default("unused"),
 	archived: z.enum(["hide", "only", "all"]).optional().default("hide"),
 	from: z.string().optional(),
 	to: z.string().optional(),
+	sort: z.enum(["newest", "relevance"]).optional().default("newest"),
+	relevance: z.enum(["any", "medium", "high"]).optional().default("any"),
 });
 
 type Filters = z.infer<typeof filtersSchema>;
@@ -80,18 +96,29 @@ function InboxPage() {
 	const params = Route.useSearch();
 
 	const sources = useQuery(api.sources.list, { orgId: org.orgId });
+	const tags = useQuery(api.tags.list, { orgId: org.orgId });
+	const templates = useQuery(api.draftTemplates.list, { orgId: org.orgId });
 
 	const queryArgs = useMemo(() => {
 		const args: {
 			orgId: Id<"organizations">;
 			sourceId?: Id<"sources">;
+			tagId?: Id<"tags">;
 			used?: boolean;
 			archived?: boolean;
 			dateFrom?: number;
 			dateTo?: number;
 			limit: number;
-		} = { orgId: org.orgId, limit: 50 };
+			collapseClusters: boolean;
+			sort?: "newest" | "relevance";
+			minRelevance?: number;
+		} = { orgId: org.orgId, limit: 50, collapseClusters: true };
+		if (params.sort === "relevance") args.sort = "relevance";
+		if (params.relevance !== "any") {
+			args.minRelevance = RELEVANCE_THRESHOLDS[params.relevance];
+		}
 		if (params.source) args.sourceId = params.source as Id<"sources">;
+		if (params.tag) args.tagId = params.tag as Id<"tags">;
 		if (params.used === "used") args.used = true;
 		else if (params.used === "unused") args.used = false;
 		if (params.archived === "hide") args.archived = false;
@@ -104,10 +131,13 @@ function InboxPage() {
 	}, [
 		org.orgId,
 		params.source,
+		params.tag,
 		params.used,
 		params.archived,
 		params.from,
 		params.to,
+		params.sort,
+		params.relevance,
 	]);
 
 	const data = useQuery(api.entries.list, queryArgs);
@@ -120,16 +150,25 @@ function InboxPage() {
 	const [rowError, setRowError] = useState<string | null>(null);
 	const [drafting, setDrafting] = useState(false);
 	const [draftError, setDraftError] = useState<string | null>(null);
+	const [groupByTag, setGroupByTag] = useState(false);
+	const [templateId, setTemplateId] = useState(NO_TEMPLATE);
+	const [assigningSections, setAssigningSections] = useState(false);
+	const template = templates?.find((t) => t._id === templateId);
 
-	const onDraftNewsletter = async () => {
+	const onDraftNewsletter = async (sections?: EntrySection[]) => {
 		if (selected.size === 0 || drafting) return;
 		setDraftError(null);
+		if (template && !sections) {
+			setAssigningSections(true);
+			return;
+		}
 		setDrafting(true);
 		try {
 			const entryIds = Array.from(selected) as Id<"entries">[];
 			const { draftId } = await convex.action(generateDraftRef, {
 				orgId: org.orgId,
 				entryIds,
+				...(template ? { templateId: template._id, sections } : { groupByTag }),
 			});
 			navigate({
 				to: "/org/$slug/drafts/$draftId",
@@ -202,12 +241,24 @@ function InboxPage() {
 	};
 
 	const entries = data?.entries ?? [];
+	const selectedEntries: SectionableEntry[] = Array.from(selected, (id) => {
+		const entry = entries.find((e) => e._id === id);
+		return (
+			entry ?? {
+				_id: id as Id<"entries">,
+				title: "Selected story (hidden by the current filters)",
+			}
+		);
+	});
 	const filtersActive =
 		!!params.source ||
+		!!params.tag ||
 		params.used !== "unused" ||
 		params.archived !== "hide" ||
 		!!params.from ||
-		!!params.to;
+		!!params.to ||
+		params.sort !== "newest" ||
+		params.relevance !== "any";
 
 	useEffect(() => {
 		if (entries.length === 0) {
@@ -252,13 +303,41 @@ function InboxPage() {
 				<div>
 					<h1 className="text-3xl font-bold">Inbox</h1>
 					<p className="text-muted-foreground mt-1">
-						Latest entries from your sources, deduplicated by canonical URL.
+						Latest entries from your sources, deduplicated by canonical URL
+						and grouped when several outlets cover the same story.
 					</p>
 				</div>
 				<div className="flex items-center gap-2">
+					{templates && templates.length > 0 && (
+						<Select value={templateId} onValueChange={setTemplateId}>
+							<SelectTrigger className="w-44" aria-label="Newsletter template">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+								{templates.map((t) => (
+									<SelectItem key={t._id} value={t._id}>
+										{t.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					{!template && tags && tags.length > 0 && (
+						<div className="flex items-center gap-2 mr-2">
+							<Switch
+								id="group-by-tag"
+								checked={groupByTag}
+								onCheckedChange={setGroupByTag}
+							/>
+							<Label htmlFor="group-by-tag" className="text-sm font-normal">
+								Group by tag
+							</Label>
+						</div>
+					)}
 					<Button
 						variant="outline"
-						onClick={onDraftNewsletter}
+						onClick={() => onDraftNewsletter()}
 						disabled={selected.size === 0 || drafting}
 					>
 						{drafting ? <Spinner /> : <Sparkles className="size-4" />}
@@ -276,7 +355,7 @@ function InboxPage() {
 
 			<Card>
 				<CardContent className="p-4">
-					<div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+					<div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
 						<div className="space-y-1.5">
 							<Label htmlFor="f-source">Source</Label>
 							<Select
@@ -298,6 +377,27 @@ function InboxPage() {
 								</SelectContent>
 							</Select>
 						</div>
+						<div className="space-y-1.5">
+							<Label htmlFor="f-tag">Tag</Label>
+							<Select
+								value={params.tag ?? "__all"}
+								onValueChange={(v) =>
+									update({ tag: v === "__all" ? undefined : v })
+								}
+							>
+								<SelectTrigger id="f-tag">
+									<SelectValue placeholder="Any tag" />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="__all">Any tag</SelectItem>
+									{tags?.map((t) => (
+										<SelectItem key={t._id} value={t._id}>
+											{t.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
 						<div className="space-y-1.5">
 							<Label htmlFor="f-used">Used</Label>
 							<Select
@@ -334,6 +434,39 @@ function InboxPage() {
 								</SelectContent>
 							</Select>
 						</div>
+						<div className="space-y-1.5">
+							<Label htmlFor="f-relevance">Relevance</Label>
+							<Select
+								value={params.relevance ?? "any"}
+								onValueChange={(v) =>
+									update({ relevance: v as Filters["relevance"] })
+								}
+							>
+								<SelectTrigger id="f-relevance">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="any">Any</SelectItem>
+									<SelectItem value="medium">Medium or higher</SelectItem>
+									<SelectItem value="high">High only</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-1.5">
+							<Label htmlFor="f-sort">Sort</Label>
+							<Select
+								value={params.sort ?? "newest"}
+								onValueChange={(v) => update({ sort: v as Filters["sort"] })}
+							>
+								<SelectTrigger id="f-sort">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="newest">Newest first</SelectItem>
+									<SelectItem value="relevance">Most relevant</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
 						<div className="space-y-1.5">
 							<Label htmlFor="f-from">From</Label>
 							<Input
@@ -372,9 +505,22 @@ function InboxPage() {
 			{rowError && (
 				<p className="text-sm text-destructive">{rowError}</p>
 			)}
-			{draftError && (
+			{draftError && !assigningSections && (
 				<p className="text-sm text-destructive">{draftError}</p>
 			)}
+			{assigningSections && template && (
+				<TemplateSectionsDialog
+					template={template}
+					entries={selectedEntries}
+					drafting={drafting}
+					error={draftError}
+					onGenerate={(sections) => void onDraftNewsletter(sections)}
+					onClose={() => {
+						setAssigningSections(false);
+						setDraftError(null);
+					}}
+				/>
+			)}
 
 			{data === undefined ? (
 				<Card>
@@ -411,7 +557,17 @@ function InboxPage() {
 									onToggleArchived={(next) =>
 										onToggleArchived(e._id, next)
 									}
-								/>
+								>
+									{e.cluster && (
+										<ClusterMembers
+											orgId={org.orgId}
+											orgSlug={org.slug}
+											clusterId={e.cluster._id}
+											entryId={e._id}
+											size={e.cluster.size}
+										/>
+									)}
+								</EntryRow>
 							))}
 						</ul>
 					</CardContent>
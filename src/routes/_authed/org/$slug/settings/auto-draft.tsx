@@ -1,9 +1,18 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { ConvexError } from "convex/values";
-import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
 import { api } from "../../../../../../convex/_generated/api";
+import type { Id } from "../../../../../../convex/_generated/dataModel";
+import {
+	isValidTimeZone,
+	nextCronRuns,
+	parseCron,
+} from "../../../../../../convex/lib/cron";
 import { useOrg } from "@/contexts/org-context";
+import { AutoDraftRunsCard } from "@/components/auto-draft-runs";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -12,6 +21,7 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -28,7 +38,27 @@ export const Route = createFileRoute("/_authed/org/$slug/settings/auto-draft")({
 	component: AutoDraftSettings,
 });
 
-const MINUTE_OPTIONS = [0, 15, 30, 45];
+const DEFAULT_CRON = "0 6 * * *";
+const CRON_PRESETS = [
+	{ label: "Every day", cron: "0 6 * * *" },
+	{ label: "Weekdays only", cron: "0 6 * * 1-5" },
+	{ label: "Twice a week", cron: "0 6 * * MON,THU" },
+	{ label: "First Monday", cron: "0 6 * * MON#1" },
+];
+const PREVIEW_RUNS = 5;
+const DEFAULT_LOOKBACK_HOURS = 7 * 24;
+const DEFAULT_MAX_ENTRIES = 20;
+const LOOKBACK_OPTIONS = [
+	{ hours: 12, label: "12 hours" },
+	{ hours: 24, label: "1 day" },
+	{ hours: 3 * 24, label: "3 days" },
+	{ hours: 7 * 24, label: "7 days" },
+	{ hours: 14 * 24, label: "14 days" },
+	{ hours: 30 * 24, label: "30 days" },
+];
+
+type Schedule = FunctionReturnType<typeof api.autoDrafts.listSchedules>[number];
+const NO_TEMPLATE = "none";
 
 function getTimezones(): string[] {
 	try {
@@ -45,76 +75,58 @@ function getTimezones(): string[] {
 	return [];
 }
 
-function nextRunEstimate(
-	enabled: boolean,
-	hour: number,
-	minute: number,
-): string {
-	if (!enabled) return "Not scheduled";
-	const now = new Date();
-	const next = new Date(now);
-	next.setUTCSeconds(0, 0);
-	next.setUTCHours(hour, minute, 0, 0);
-	if (next.getTime() <= now.getTime()) {
-		next.setUTCDate(next.getUTCDate() + 1);
+function previewRuns(
+	cron: string,
+	timezone: string,
+): { runs: string[] } | { error: string } {
+	if (!isValidTimeZone(timezone)) {
+		return { error: `Unknown timezone "${timezone}"` };
+	}
+	try {
+		const runs = nextCronRuns(
+			parseCron(cron),
+			Date.now(),
+			timezone,
+			PREVIEW_RUNS,
+		);
+		return {
+			runs: runs.map((t) =>
+				new Date(t).toLocaleString(undefined, {
+					timeZone: timezone,
+					weekday: "short",
+					month: "short",
+					day: "numeric",
+					year: "numeric",
+					hour: "2-digit",
+					minute: "2-digit",
+					timeZoneName: "short",
+				}),
+			),
+		};
+	} catch (err) {
+		return {
+			error:
+				err instanceof ConvexError && typeof err.data === "string"
+					? err.data
+					: "Invalid cron expression",
+		};
 	}
-	return `${next.toLocaleString(undefined, {
-		weekday: "short",
-		month: "short",
-		day: "numeric",
-		hour: "2-digit",
-		minute: "2-digit",
-	})} (your local time)`;
-}
-
-function parseCron(cron: string | undefined): { hour: number; minute: number } {
-	if (!cron) return { hour: 6, minute: 0 };
-	const parts = cron.trim().split(/\s+/);
-	const minute = Number(parts[0]);
-	const hour = Number(parts[1]);
-	return {
-		hour: Number.isFinite(hour) ? hour : 6,
-		minute: Number.isFinite(minute) ? minute : 0,
-	};
 }
 
 function AutoDraftSettings() {
 	const org = useOrg();
 	const isAdmin = org.role === "admin";
-	const schedule = useQuery(api.autoDrafts.getSchedule, { orgId: org.orgId });
-	const upsert = useMutation(api.autoDrafts.upsertSchedule);
-	const [enabled, setEnabled] = useState(false);
-	const [hour, setHour] = useState(6);
-	const [minute, setMinute] = useState(0);
-	const [timezone, setTimezone] = useState("UTC");
-	const [status, setStatus] = useState<string | null>(null);
-	const [saving, setSaving] = useState(false);
-	const timezones = getTimezones();
-
-	useEffect(() => {
-		if (schedule === undefined) return;
-		if (schedule === null) {
-			setEnabled(false);
-			setHour(6);
-			setMinute(0);
-			setTimezone(
-				Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
-			);
-			return;
-		}
-		setEnabled(schedule.enabled);
-		const parsed = parseCron(schedule.cron);
-		setHour(parsed.hour);
-		setMinute(parsed.minute);
-		setTimezone(schedule.timezone ?? "UTC");
-	}, [schedule]);
+	const schedules = useQuery(api.autoDrafts.listSchedules, {
+		orgId: org.orgId,
+	});
+	const [creating, setCreating] = useState(false);
 
 	if (!isAdmin) {
 		return (
 			<div className="space-y-4">
 				<h1 className="text-3xl font-bold">Auto-draft</h1>
 				<p className="text-muted-foreground">
-					Only admins can configure the auto-draft schedule.
+					Only admins can configure auto-draft schedules.
 				</p>
 				<Button asChild variant="outline">
 					<Link to="/org/$slug/dashboard" params={{ slug: org.slug }}>
@@ -125,153 +137,416 @@ function AutoDraftSettings() {
 		);
 	}
 
+	if (schedules === undefined) {
+		return (
+			<div className="flex items-center justify-center py-12">
+				<Spinner />
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-wrap items-end justify-between gap-3">
+				<div>
+					<h1 className="text-3xl font-bold">Auto-draft</h1>
+					<p className="text-muted-foreground mt-1">
+						Generate draft newsletters on a schedule from the most recent unused
+						stories — say a daily brief and a weekly roundup, each with its own
+						sources, tags and template.
+					</p>
+				</div>
+				{!creating && (
+					<Button variant="outline" onClick={() => setCreating(true)}>
+						<Plus className="size-4" />
+						New schedule
+					</Button>
+				)}
+			</div>
+
+			{schedules.length === 0 && !creating && (
+				<p className="text-sm text-muted-foreground">No schedules yet.</p>
+			)}
+			{creating && <ScheduleCard onDone={() => setCreating(false)} />}
+			{schedules.map((s) => (
+				<ScheduleCard key={s._id} schedule={s} />
+			))}
+
+			<AutoDraftRunsCard />
+		</div>
+	);
+}
+
+function ScheduleCard({
+	schedule,
+	onDone,
+}: {
+	schedule?: Schedule;
+	onDone?: () => void;
+}) {
+	const org = useOrg();
+	const create = useMutation(api.autoDrafts.createSchedule);
+	const update = useMutation(api.autoDrafts.updateSchedule);
+	const remove = useMutation(api.autoDrafts.removeSchedule);
+	const sources = useQuery(api.sources.list, { orgId: org.orgId });
+	const tags = useQuery(api.tags.list, { orgId: org.orgId });
+	const templates = useQuery(api.draftTemplates.list, { orgId: org.orgId });
+	const [name, setName] = useState(schedule?.name ?? "");
+	const [enabled, setEnabled] = useState(schedule?.enabled ?? true);
+	const [cron, setCron] = useState(schedule?.cron ?? DEFAULT_CRON);
+	const [timezone, setTimezone] = useState(
+		() =>
+			schedule?.timezone ??
+			(schedule
+				? "UTC"
+				: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"),
+	);
+	const [templateId, setTemplateId] = useState<string>(
+		schedule?.templateId ?? NO_TEMPLATE,
+	);
+	const [sourceIds, setSourceIds] = useState(schedule?.sourceIds ?? []);
+	const [tagIds, setTagIds] = useState(schedule?.tagIds ?? []);
+	const [lookbackHours, setLookbackHours] = useState(
+		schedule?.lookbackHours ?? DEFAULT_LOOKBACK_HOURS,
+	);
+	const [maxEntries, setMaxEntries] = useState(
+		String(schedule?.maxEntries ?? DEFAULT_MAX_ENTRIES),
+	);
+	const [status, setStatus] = useState<string | null>(null);
+	const [saving, setSaving] = useState(false);
+	const timezones = getTimezones();
+	const preview = previewRuns(cron, timezone);
+	const lookbackOptions = LOOKBACK_OPTIONS.some(
+		(o) => o.hours === lookbackHours,
+	)
+		? LOOKBACK_OPTIONS
+		: [
+				...LOOKBACK_OPTIONS,
+				{ hours: lookbackHours, label: `${lookbackHours} hours` },
+			];
+
 	const onSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		setSaving(true);
 		setStatus(null);
 		try {
-			await upsert({
+			const args = {
 				orgId: org.orgId,
+				name,
 				enabled,
-				hour,
-				minute,
+				cron,
 				timezone: timezone || undefined,
-			});
-			setStatus("Saved");
+				templateId:
+					templateId === NO_TEMPLATE
+						? undefined
+						: (templateId as Id<"draftTemplates">),
+				sourceIds,
+				tagIds,
+				lookbackHours,
+				maxEntries: Number(maxEntries),
+			};
+			if (schedule) {
+				await update({ ...args, scheduleId: schedule._id });
+				setStatus("Saved");
+			} else {
+				await create(args);
+				onDone?.();
+			}
 		} catch (err) {
 			setStatus(
-				err instanceof ConvexError
-					? typeof err.data === "string"
-						? err.data
-						: "Failed to save"
-					: err instanceof Error
-						? err.message
-						: "Failed to save",
+				err instanceof ConvexError && typeof err.data === "string"
+					? err.data
+					: "Failed to save",
 			);
 		} finally {
 			setSaving(false);
 		}
 	};
 
-	if (schedule === undefined) {
-		return (
-			<div className="flex items-center justify-center py-12">
-				<Spinner />
-			</div>
-		);
-	}
+	const onDelete = async () => {
+		if (!schedule) return;
+		if (!window.confirm(`Delete the "${schedule.name}" schedule?`)) return;
+		setStatus(null);
+		try {
+			await remove({ orgId: org.orgId, scheduleId: schedule._id });
+		} catch (err) {
+			setStatus(
+				err instanceof ConvexError && typeof err.data === "string"
+					? err.data
+					: "Failed to delete schedule",
+			);
+		}
+	};
 
 	return (
-		<div className="space-y-6">
-			<div>
-				<h1 className="text-3xl font-bold">Auto-draft</h1>
-				<p className="text-muted-foreground mt-1">
-					Generate a draft newsletter on a daily schedule from the most recent
-					unused stories.
-				</p>
-			</div>
-
-			<Card>
-				<CardHeader>
-					<CardTitle>Schedule</CardTitle>
-					<CardDescription>
-						The cron runs at the chosen hour and minute (UTC). Recent unused
-						entries from the last 7 days are bundled into a new draft and
-						placed in the "ready" state, waiting for review on the dashboard.
-					</CardDescription>
-				</CardHeader>
-				<CardContent>
-					<form onSubmit={onSubmit} className="space-y-5">
-						<div className="flex items-center gap-3">
+		<Card>
+			<CardHeader>
+				<CardTitle>{schedule?.name ?? "New schedule"}</CardTitle>
+				<CardDescription>
+					The cron expression runs in the chosen timezone, following its
+					daylight saving changes. Unused stories from the lookback window that
+					pass the filters are bundled into a new draft and placed in the
+					"ready" state, waiting for review on the dashboard.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={onSubmit} className="space-y-5">
+					<div className="flex flex-wrap items-end gap-4">
+						<div className="space-y-1.5 w-full max-w-sm">
+							<Label htmlFor={`${formId(schedule)}-name`}>Name</Label>
+							<Input
+								id={`${formId(schedule)}-name`}
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								placeholder="Daily brief"
+								maxLength={60}
+							/>
+						</div>
+						<div className="flex items-center gap-3 pb-2">
 							<Switch
-								id="enabled"
+								id={`${formId(schedule)}-enabled`}
 								checked={enabled}
 								onCheckedChange={setEnabled}
 							/>
-							<Label htmlFor="enabled">Enable auto-draft</Label>
+							<Label htmlFor={`${formId(schedule)}-enabled`}>Enabled</Label>
 						</div>
+					</div>
 
-						<div className="grid grid-cols-2 gap-3 max-w-sm">
-							<div className="space-y-1.5">
-								<Label htmlFor="hour">Hour (UTC)</Label>
-								<Select
-									value={String(hour)}
-									onValueChange={(v) => setHour(Number(v))}
+					<div className="space-y-1.5 max-w-sm">
+						<Label htmlFor={`${formId(schedule)}-cron`}>Cron expression</Label>
+						<Input
+							id={`${formId(schedule)}-cron`}
+							value={cron}
+							onChange={(e) => setCron(e.target.value)}
+							className="font-mono"
+							spellCheck={false}
+						/>
+						<div className="flex flex-wrap gap-1.5">
+							{CRON_PRESETS.map((p) => (
+								<Button
+									key={p.cron}
+									type="button"
+									variant={cron.trim() === p.cron ? "secondary" : "outline"}
+									size="sm"
+									onClick={() => setCron(p.cron)}
 								>
-									<SelectTrigger id="hour">
-										<SelectValue />
-									</SelectTrigger>
-									<SelectContent>
-										{Array.from({ length: 24 }, (_, i) => i).map((h) => (
-											<SelectItem key={h} value={String(h)}>
-												{String(h).padStart(2, "0")}
-											</SelectItem>
-										))}
-									</SelectContent>
-								</Select>
-							</div>
-							<div className="space-y-1.5">
-								<Label htmlFor="minute">Minute</Label>
-								<Select
-									value={String(minute)}
-									onValueChange={(v) => setMinute(Number(v))}
+									{p.label}
+								</Button>
+							))}
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Minute, hour, day of month, month and day of week, e.g.{" "}
+							<code>30 7 * * 1-5</code> for 07:30 on weekdays or{" "}
+							<code>0 9 * * MON#1</code> for 09:00 on the first Monday.
+						</p>
+					</div>
+
+					<div className="space-y-1.5 max-w-sm">
+						<Label htmlFor={`${formId(schedule)}-timezone`}>Timezone</Label>
+						{timezones.length > 0 ? (
+							<Select value={timezone} onValueChange={setTimezone}>
+								<SelectTrigger id={`${formId(schedule)}-timezone`}>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{timezones.map((tz) => (
+										<SelectItem key={tz} value={tz}>
+											{tz}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						) : (
+							<Input
+								id={`${formId(schedule)}-timezone`}
+								value={timezone}
+								onChange={(e) => setTimezone(e.target.value)}
+							/>
+						)}
+					</div>
+
+					<div className="space-y-1 text-sm">
+						<p className="font-medium">
+							Next {PREVIEW_RUNS} runs
+							{!enabled && (
+								<span className="font-normal text-muted-foreground">
+									{" "}
+									(once enabled)
+								</span>
+							)}
+						</p>
+						{"error" in preview ? (
+							<p className="text-destructive">{preview.error}</p>
+						) : preview.runs.length === 0 ? (
+							<p className="text-muted-foreground">
+								This expression never matches a date.
+							</p>
+						) : (
+							<ol className="text-muted-foreground">
+								{preview.runs.map((run) => (
+									<li key={run}>{run}</li>
+								))}
+							</ol>
+						)}
+					</div>
+
+					<div className="flex flex-wrap gap-4">
+						<div className="space-y-1.5">
+							<Label htmlFor={`${formId(schedule)}-lookback`}>Look back</Label>
+							<Select
+								value={String(lookbackHours)}
+								onValueChange={(v) => setLookbackHours(Number(v))}
+							>
+								<SelectTrigger
+									id={`${formId(schedule)}-lookback`}
+									className="w-40"
 								>
-									<SelectTrigger id="minute">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{lookbackOptions.map((o) => (
+										<SelectItem key={o.hours} value={String(o.hours)}>
+											{o.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-1.5">
+							<Label htmlFor={`${formId(schedule)}-max`}>Max stories</Label>
+							<Input
+								id={`${formId(schedule)}-max`}
+								type="number"
+								min={1}
+								max={40}
+								value={maxEntries}
+								onChange={(e) => setMaxEntries(e.target.value)}
+								className="w-28"
+							/>
+						</div>
+						{templates && templates.length > 0 && (
+							<div className="space-y-1.5">
+								<Label htmlFor={`${formId(schedule)}-template`}>Template</Label>
+								<Select value={templateId} onValueChange={setTemplateId}>
+									<SelectTrigger
+										id={`${formId(schedule)}-template`}
+										className="w-48"
+									>
 										<SelectValue />
 									</SelectTrigger>
 									<SelectContent>
-										{MINUTE_OPTIONS.map((m) => (
-											<SelectItem key={m} value={String(m)}>
-												{String(m).padStart(2, "0")}
+										<SelectItem value={NO_TEMPLATE}>
+											Default structure
+										</SelectItem>
+										{templates.map((t) => (
+											<SelectItem key={t._id} value={t._id}>
+												{t.name}
 											</SelectItem>
 										))}
 									</SelectContent>
 								</Select>
 							</div>
-						</div>
+						)}
+					</div>
+					{templateId !== NO_TEMPLATE && (
+						<p className="text-xs text-muted-foreground">
+							Stories go to the section named after one of their tags, otherwise
+							to the first section with room. Stories that don't fit wait for
+							the next run.
+						</p>
+					)}
 
-						<div className="space-y-1.5 max-w-sm">
-							<Label htmlFor="timezone">Timezone (informational)</Label>
-							{timezones.length > 0 ? (
-								<Select value={timezone} onValueChange={setTimezone}>
-									<SelectTrigger id="timezone">
-										<SelectValue />
-									</SelectTrigger>
-									<SelectContent>
-										{timezones.map((tz) => (
-											<SelectItem key={tz} value={tz}>
-												{tz}
-											</SelectItem>
-										))}
-									</SelectContent>
-								</Select>
-							) : (
-								<Input
-									id="timezone"
-									value={timezone}
-									onChange={(e) => setTimezone(e.target.value)}
-								/>
-							)}
-							<p className="text-xs text-muted-foreground">
-								Stored alongside the schedule for context. The cron schedule
-								itself runs in UTC.
-							</p>
-						</div>
+					<FilterChecklist
+						label="Sources"
+						emptyLabel="All sources"
+						options={(sources ?? []).map((s) => ({ id: s._id, name: s.name }))}
+						selected={sourceIds}
+						onChange={setSourceIds}
+					/>
+					<FilterChecklist
+						label="Tags"
+						emptyLabel="Any tag, or none"
+						options={(tags ?? []).map((t) => ({ id: t._id, name: t.name }))}
+						selected={tagIds}
+						onChange={setTagIds}
+					/>
 
-						<div className="text-sm text-muted-foreground">
-							Next run at: {nextRunEstimate(enabled, hour, minute)}
-						</div>
+					{status && <p className="text-sm text-muted-foreground">{status}</p>}
 
-						{status && (
-							<p className="text-sm text-muted-foreground">{status}</p>
+					<div className="flex flex-wrap items-center gap-2">
+						<Button type="submit" disabled={saving || "error" in preview}>
+							{saving
+								? "Saving…"
+								: schedule
+									? "Save schedule"
+									: "Create schedule"}
+						</Button>
+						{schedule ? (
+							<Button type="button" variant="ghost" onClick={onDelete}>
+								<Trash2 className="size-4" />
+								Delete
+							</Button>
+						) : (
+							<Button type="button" variant="ghost" onClick={onDone}>
+								Cancel
+							</Button>
 						)}
+					</div>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
 
-						<Button type="submit" disabled={saving}>
-							{saving ? "Saving…" : "Save schedule"}
-						</Button>
-					</form>
-				</CardContent>
-			</Card>
-		</div>
+function formId(schedule: Schedule | undefined): string {
+	return schedule ? `schedule-${schedule._id}` : "schedule-new";
+}
+
+/** Checkboxes for a schedule filter; nothing ticked means no filter. */
+function FilterChecklist<T extends string>({
+	label,
+	emptyLabel,
+	options,
+	selected,
+	onChange,
+}: {
+	label: string;
+	emptyLabel: string;
+	options: { id: T; name: string }[];
+	selected: T[];
+	onChange: (ids: T[]) => void;
+}) {
+	return (
+		<fieldset className="space-y-1.5">
+			<legend className="text-sm font-medium">
+				{label}
+				<span className="ml-1.5 font-normal text-muted-foreground">
+					{selected.length === 0 ? emptyLabel : `${selected.length} selected`}
+				</span>
+			</legend>
+			{options.length === 0 ? (
+				<p className="text-xs text-muted-foreground">None yet.</p>
+			) : (
+				<ul className="flex flex-wrap gap-x-4 gap-y-1.5">
+					{options.map((o) => (
+						<li key={o.id}>
+							<Label className="font-normal">
+								<Checkbox
+									checked={selected.includes(o.id)}
+									onCheckedChange={(c) =>
+										onChange(
+											c === true
+												? [...selected, o.id]
+												: selected.filter((id) => id !== o.id),
+										)
+									}
+								/>
+								{o.name}
+							</Label>
+						</li>
+					))}
+				</ul>
+			)}
+		</fieldset>
 	);
 }
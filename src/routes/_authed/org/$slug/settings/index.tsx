@@ -1,9 +1,11 @@
 import { createFileRoute } from "@tanstack/react-router";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { ConvexError } from "convex/values";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { api } from "../../../../../../convex/_generated/api";
+import type { Doc } from "../../../../../../convex/_generated/dataModel";
 import { useOrg } from "@/contexts/org-context";
+import { TemplatesCard } from "@/components/draft-templates";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -14,6 +16,7 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 
 export const Route = createFileRoute("/_authed/org/$slug/settings/")({
@@ -104,6 +107,380 @@ function SettingsPage() {
 					</form>
 				</CardContent>
 			</Card>
+
+			<TopicBriefCard />
+
+			<TagsCard />
+
+			<TemplatesCard />
+
+			<TrackingParamsCard />
 		</div>
 	);
 }
+
+function TopicBriefCard() {
+	const org = useOrg();
+	const isAdmin = org.role === "admin";
+	const current = useQuery(api.relevance.getBrief, { orgId: org.orgId });
+	const upsert = useMutation(api.relevance.upsertBrief);
+	const [brief, setBrief] = useState("");
+	const [classify, setClassify] = useState(false);
+	const [archiveBelow, setArchiveBelow] = useState("");
+	const [status, setStatus] = useState<string | null>(null);
+	const [submitting, setSubmitting] = useState(false);
+
+	useEffect(() => {
+		if (current === undefined) return;
+		setBrief(current?.brief ?? "");
+		setClassify(current?.classify ?? false);
+		setArchiveBelow(
+			current?.archiveBelow !== undefined
+				? String(Math.round(current.archiveBelow * 100))
+				: "",
+		);
+	}, [current]);
+
+	const onSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setStatus(null);
+		setSubmitting(true);
+		try {
+			await upsert({
+				orgId: org.orgId,
+				brief,
+				classify,
+				archiveBelow:
+					archiveBelow.trim() === "" ? undefined : Number(archiveBelow) / 100,
+			});
+			setStatus("Saved");
+		} catch (err) {
+			const msg =
+				err instanceof ConvexError
+					? typeof err.data === "string"
+						? err.data
+						: "Failed to save"
+					: "Failed to save";
+			setStatus(msg);
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Topic brief</CardTitle>
+				<CardDescription>
+					Describe what your newsletter covers. Each new entry is scored
+					against it, and the inbox can sort and filter by that score. Saving
+					a new brief rescores the most recent entries.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={onSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="topic-brief">Brief</Label>
+						<Textarea
+							id="topic-brief"
+							value={brief}
+							onChange={(e) => setBrief(e.target.value)}
+							placeholder="Semiconductor policy and supply chains: export controls, fab investment, chip design startups. Not consumer gadget reviews."
+							rows={5}
+							disabled={!isAdmin || current === undefined}
+						/>
+						{current && !current.embedded && (
+							<p className="text-xs text-muted-foreground">
+								Preparing the brief for scoring…
+							</p>
+						)}
+					</div>
+					<div className="flex items-center gap-3">
+						<Switch
+							id="topic-classify"
+							checked={classify}
+							onCheckedChange={setClassify}
+							disabled={!isAdmin}
+						/>
+						<Label htmlFor="topic-classify">
+							Also ask Claude to rate each entry (slower, more accurate)
+						</Label>
+					</div>
+					<div className="space-y-2 max-w-xs">
+						<Label htmlFor="topic-archive-below">
+							Auto-archive below (%)
+						</Label>
+						<Input
+							id="topic-archive-below"
+							type="number"
+							min={0}
+							max={100}
+							value={archiveBelow}
+							onChange={(e) => setArchiveBelow(e.target.value)}
+							placeholder="Off"
+							disabled={!isAdmin}
+						/>
+						<p className="text-xs text-muted-foreground">
+							Applies as entries are scored. Used entries are never archived.
+						</p>
+					</div>
+					{status && <p className="text-sm text-muted-foreground">{status}</p>}
+					{isAdmin && (
+						<Button type="submit" disabled={submitting}>
+							{submitting ? "Saving..." : "Save brief"}
+						</Button>
+					)}
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
+
+function tagErrorMessage(err: unknown, fallback: string): string {
+	return err instanceof ConvexError && typeof err.data === "string"
+		? err.data
+		: fallback;
+}
+
+function TagsCard() {
+	const org = useOrg();
+	const isAdmin = org.role === "admin";
+	const tags = useQuery(api.tags.list, { orgId: org.orgId });
+	const create = useMutation(api.tags.create);
+	const [name, setName] = useState("");
+	const [description, setDescription] = useState("");
+	const [status, setStatus] = useState<string | null>(null);
+	const [submitting, setSubmitting] = useState(false);
+
+	const onSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setStatus(null);
+		setSubmitting(true);
+		try {
+			await create({ orgId: org.orgId, name, description });
+			setName("");
+			setDescription("");
+		} catch (err) {
+			setStatus(tagErrorMessage(err, "Failed to add tag"));
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Tags</CardTitle>
+				<CardDescription>
+					Tags your team files entries under. Claude suggests up to three for
+					each new entry; descriptions help it choose. Drafts can be grouped
+					into one section per tag.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{tags === undefined ? (
+					<p className="text-sm text-muted-foreground">Loading…</p>
+				) : tags.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No tags yet.</p>
+				) : (
+					<ul className="space-y-2">
+						{tags.map((t) => (
+							<TagRow key={t._id} tag={t} isAdmin={isAdmin} />
+						))}
+					</ul>
+				)}
+				{isAdmin && (
+					<form
+						onSubmit={onSubmit}
+						className="flex flex-wrap items-end gap-2 border-t pt-4"
+					>
+						<div className="space-y-2">
+							<Label htmlFor="new-tag-name">Name</Label>
+							<Input
+								id="new-tag-name"
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								placeholder="Policy"
+								maxLength={40}
+								className="w-40"
+							/>
+						</div>
+						<div className="space-y-2 flex-1 min-w-48">
+							<Label htmlFor="new-tag-description">Description</Label>
+							<Input
+								id="new-tag-description"
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								placeholder="Regulation, legislation and government action"
+							/>
+						</div>
+						<Button type="submit" disabled={submitting || !name.trim()}>
+							{submitting ? "Adding..." : "Add tag"}
+						</Button>
+					</form>
+				)}
+				{status && <p className="text-sm text-destructive">{status}</p>}
+			</CardContent>
+		</Card>
+	);
+}
+
+function TagRow({ tag, isAdmin }: { tag: Doc<"tags">; isAdmin: boolean }) {
+	const org = useOrg();
+	const update = useMutation(api.tags.update);
+	const remove = useMutation(api.tags.remove);
+	const [name, setName] = useState(tag.name);
+	const [description, setDescription] = useState(tag.description ?? "");
+	const [error, setError] = useState<string | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	const dirty =
+		name !== tag.name || description !== (tag.description ?? "");
+
+	const run = async (fn: () => Promise<unknown>, fallback: string) => {
+		setError(null);
+		setBusy(true);
+		try {
+			await fn();
+		} catch (err) {
+			setError(tagErrorMessage(err, fallback));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	if (!isAdmin) {
+		return (
+			<li className="text-sm">
+				<span className="font-medium">{tag.name}</span>
+				{tag.description && (
+					<span className="text-muted-foreground"> — {tag.description}</span>
+				)}
+			</li>
+		);
+	}
+
+	return (
+		<li className="space-y-1">
+			<div className="flex flex-wrap items-center gap-2">
+				<Input
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					aria-label="Tag name"
+					maxLength={40}
+					className="w-40"
+				/>
+				<Input
+					value={description}
+					onChange={(e) => setDescription(e.target.value)}
+					aria-label="Tag description"
+					placeholder="Description"
+					className="flex-1 min-w-48"
+				/>
+				<Button
+					variant="outline"
+					size="sm"
+					disabled={!dirty || busy}
+					onClick={() =>
+						run(
+							() =>
+								update({ orgId: org.orgId, tagId: tag._id, name, description }),
+							"Failed to save tag",
+						)
+					}
+				>
+					Save
+				</Button>
+				<Button
+					variant="ghost"
+					size="sm"
+					disabled={busy}
+					onClick={() => {
+						if (!window.confirm(`Delete "${tag.name}" and remove it from all entries?`)) {
+							return;
+						}
+						void run(
+							() => remove({ orgId: org.orgId, tagId: tag._id }),
+							"Failed to delete tag",
+						);
+					}}
+				>
+					Delete
+				</Button>
+			</div>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+		</li>
+	);
+}
+
+function TrackingParamsCard() {
+	const org = useOrg();
+	const isAdmin = org.role === "admin";
+	const details = useQuery(api.organizations.getBySlug, { slug: org.slug });
+	const update = useMutation(api.organizations.update);
+	const [draft, setDraft] = useState<string | null>(null);
+	const [status, setStatus] = useState<string | null>(null);
+	const [submitting, setSubmitting] = useState(false);
+
+	const saved = details?.trackingParams.join("\n") ?? "";
+	const value = draft ?? saved;
+
+	const onSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setStatus(null);
+		setSubmitting(true);
+		try {
+			await update({
+				orgId: org.orgId,
+				trackingParams: value.split(/[\s,]+/).filter(Boolean),
+			});
+			setDraft(null);
+			setStatus("Saved");
+		} catch (err) {
+			const msg =
+				err instanceof ConvexError
+					? typeof err.data === "string"
+						? err.data
+						: "Failed to save"
+					: "Failed to save";
+			setStatus(msg);
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Link cleanup</CardTitle>
+				<CardDescription>
+					Query parameters stripped from links before duplicates are
+					detected. Common trackers (utm_*, fbclid, gclid, ref_src…) are always
+					removed; add any others your sources use, one per line.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={onSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="tracking-params">Extra tracking parameters</Label>
+						<Textarea
+							id="tracking-params"
+							value={value}
+							onChange={(e) => setDraft(e.target.value)}
+							placeholder={"cmpid\nsrc"}
+							rows={4}
+							className="font-mono text-sm"
+							disabled={!isAdmin || details === undefined}
+						/>
+					</div>
+					{status && <p className="text-sm text-muted-foreground">{status}</p>}
+					{isAdmin && (
+						<Button type="submit" disabled={submitting || draft === null}>
+							{submitting ? "Saving..." : "Save parameters"}
+						</Button>
+					)}
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
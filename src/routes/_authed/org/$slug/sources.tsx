@@ -8,6 +8,11 @@ import { api } from "../../../../../convex/_generated/api";
 import type { Doc } from "../../../../../convex/_generated/dataModel";
 import { useOrg } from "@/contexts/org-context";
 import { SourceHealthBadge } from "@/components/source-health-badge";
+import {
+	SourceConfigFields,
+	type SourceConfigValues,
+	valuesToConfig,
+} from "@/components/source-config-fields";
 import { SourceHealthSparkline } from "@/components/source-health-sparkline";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -43,7 +48,7 @@ export const Route = createFileRoute("/_authed/org/$slug/sources")({
 	component: SourcesPage,
 });
 
-type SourceType = "rss" | "website" | "web_search";
+type SourceType = Doc<"sources">["type"];
 type Schedule = "15m" | "1h" | "6h" | "daily" | "weekly";
 
 function errorMessage(err: unknown, fallback: string): string {
@@ -80,6 +85,7 @@ function SourcesPage() {
 	const org = useOrg();
 	const isAdmin = org.role === "admin";
 	const sources = useQuery(api.sources.list, { orgId: org.orgId });
+	const sourceTypes = useQuery(api.sources.listTypes);
 
 	return (
 		<div className="space-y-6">
@@ -87,8 +93,8 @@ function SourcesPage() {
 				<div>
 					<h1 className="text-3xl font-bold">Sources</h1>
 					<p className="text-muted-foreground mt-1">
-						RSS feeds, scheduled web searches, and specific websites we pull
-						into your inbox.
+						RSS feeds, sitemaps, scheduled web searches, and specific websites
+						we pull into your inbox.
 					</p>
 				</div>
 				{isAdmin && <AddSourceDialog />}
@@ -106,7 +112,7 @@ function SourcesPage() {
 						<EmptyTitle>No sources yet</EmptyTitle>
 						<EmptyDescription>
 							{isAdmin
-								? "Add an RSS feed, scheduled web search, or specific website to start collecting news."
+								? "Add an RSS feed, sitemap, scheduled web search, or specific website to start collecting news."
 								: "Ask an admin to add a news source."}
 						</EmptyDescription>
 					</EmptyHeader>
@@ -131,6 +137,10 @@ function SourcesPage() {
 									<SourceRow
 										key={s._id}
 										source={s}
+										schedulable={
+											sourceTypes?.find((t) => t.type === s.type)
+												?.schedulable ?? false
+										}
 										orgSlug={org.slug}
 										isAdmin={isAdmin}
 									/>
@@ -146,10 +156,12 @@ function SourcesPage() {
 
 function SourceRow({
 	source,
+	schedulable,
 	orgSlug,
 	isAdmin,
 }: {
 	source: Doc<"sources">;
+	schedulable: boolean;
 	orgSlug: string;
 	isAdmin: boolean;
 }) {
@@ -210,26 +222,25 @@ function SourceRow({
 				{source.type.replace("_", " ")}
 			</TableCell>
 			<TableCell className="text-muted-foreground">
-				{source.type === "manual" ? "—" : scheduleLabel(source.schedule)}
+				{schedulable ? scheduleLabel(source.schedule) : "—"}
 			</TableCell>
 			<TableCell className="text-muted-foreground">
 				{relativeTime(source.lastRunAt)}
 			</TableCell>
 			<TableCell className="text-muted-foreground">
 				{source.status === "paused"
-					? "Paused"
-					: source.type === "manual"
-						? "—"
-						: relativeTime(source.nextRunAt)}
+					? source.pausedReason
+						? "Auto-paused"
+						: "Paused"
+					: schedulable
+						? relativeTime(source.nextRunAt)
+						: "—"}
 			</TableCell>
 			<TableCell>
 				<div className="flex flex-col items-start gap-1">
 					<SourceHealthBadge health={source.health} />
-					{source.type !== "manual" && (
-						<SourceHealthSparkline
-							orgId={org.orgId}
-							sourceId={source._id}
-						/>
+					{schedulable && (
+						<SourceHealthSparkline orgId={org.orgId} sourceId={source._id} />
 					)}
 				</div>
 			</TableCell>
@@ -242,7 +253,7 @@ function SourceRow({
 						<Settings2 className="size-4" />
 					</Link>
 				</Button>
-				{isAdmin && source.type !== "manual" && (
+				{isAdmin && schedulable && (
 					<>
 						<Button
 							variant="ghost"
@@ -276,19 +287,20 @@ function SourceRow({
 function AddSourceDialog() {
 	const org = useOrg();
 	const create = useMutation(api.sources.create);
+	const sourceTypes = useQuery(api.sources.listTypes);
+	const creatableTypes = (sourceTypes ?? []).filter((t) => t.creatable);
 	const [open, setOpen] = useState(false);
 	const [type, setType] = useState<SourceType>("rss");
 	const [name, setName] = useState("");
-	const [url, setUrl] = useState("");
-	const [query, setQuery] = useState("");
+	const [values, setValues] = useState<SourceConfigValues>({});
 	const [schedule, setSchedule] = useState<Schedule>("1h");
 	const [busy, setBusy] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const form = creatableTypes.find((t) => t.type === type);
 
 	const reset = () => {
 		setName("");
-		setUrl("");
-		setQuery("");
+		setValues({});
 		setSchedule("1h");
 		setType("rss");
 		setError(null);
@@ -296,15 +308,16 @@ function AddSourceDialog() {
 
 	const onSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
+		if (!form) return;
 		setError(null);
 		setBusy(true);
 		try {
-			const config: Record<string, unknown> =
-				type === "web_search" ? { query } : { url };
+			const config = valuesToConfig(form, values);
+			const fallbackName = form.nameField ? values[form.nameField] : "";
 			await create({
 				orgId: org.orgId,
 				type,
-				name: name || (type === "web_search" ? query : url),
+				name: name || fallbackName || form.label,
 				schedule,
 				config,
 			});
@@ -335,8 +348,8 @@ function AddSourceDialog() {
 				<DialogHeader>
 					<DialogTitle>Add a news source</DialogTitle>
 					<DialogDescription>
-						Pull entries automatically from an RSS feed, scheduled web search,
-						or a specific website.
+						Pull entries automatically from an RSS feed, sitemap, scheduled web
+						search, or a specific website.
 					</DialogDescription>
 				</DialogHeader>
 				<form className="space-y-4" onSubmit={onSubmit}>
@@ -344,17 +357,27 @@ function AddSourceDialog() {
 						<Label htmlFor="source-type">Source type</Label>
 						<Select
 							value={type}
-							onValueChange={(v) => setType(v as SourceType)}
+							onValueChange={(v) => {
+								setType(v as SourceType);
+								setValues({});
+							}}
 						>
 							<SelectTrigger id="source-type">
 								<SelectValue />
 							</SelectTrigger>
 							<SelectContent>
-								<SelectItem value="rss">RSS / Atom feed</SelectItem>
-								<SelectItem value="website">Website (scrape)</SelectItem>
-								<SelectItem value="web_search">Web search query</SelectItem>
+								{creatableTypes.map((t) => (
+									<SelectItem key={t.type} value={t.type}>
+										{t.label}
+									</SelectItem>
+								))}
 							</SelectContent>
 						</Select>
+						{form && (
+							<p className="text-xs text-muted-foreground">
+								{form.description}
+							</p>
+						)}
 					</div>
 					<div className="space-y-2">
 						<Label htmlFor="source-name">Display name</Label>
@@ -362,41 +385,17 @@ function AddSourceDialog() {
 							id="source-name"
 							value={name}
 							onChange={(e) => setName(e.target.value)}
-							placeholder={
-								type === "web_search"
-									? "e.g. AI safety regulation"
-									: "e.g. NYT Tech"
-							}
+							placeholder="e.g. NYT Tech"
 							required
 						/>
 					</div>
-					{type === "web_search" ? (
-						<div className="space-y-2">
-							<Label htmlFor="source-query">Search query</Label>
-							<Input
-								id="source-query"
-								value={query}
-								onChange={(e) => setQuery(e.target.value)}
-								placeholder="latest AI safety policy"
-								required
-							/>
-						</div>
-					) : (
-						<div className="space-y-2">
-							<Label htmlFor="source-url">URL</Label>
-							<Input
-								id="source-url"
-								type="url"
-								value={url}
-								onChange={(e) => setUrl(e.target.value)}
-								placeholder={
-									type === "rss"
-										? "https://example.com/feed.xml"
-										: "https://example.com/blog"
-								}
-								required
-							/>
-						</div>
+					{form && (
+						<SourceConfigFields
+							form={form}
+							values={values}
+							onChange={setValues}
+							idPrefix="source"
+						/>
 					)}
 					<div className="space-y-2">
 						<Label htmlFor="source-schedule">Schedule</Label>
@@ -425,7 +424,7 @@ function AddSourceDialog() {
 						>
 							Cancel
 						</Button>
-						<Button type="submit" disabled={busy}>
+						<Button type="submit" disabled={busy || !form}>
 							{busy ? "Adding…" : "Add source"}
 						</Button>
 					</DialogFooter>
@@ -7,6 +7,20 @@ import { useEffect, useState } from "react";
 import { api } from "../../../../../../convex/_generated/api";
 import type { Id } from "../../../../../../convex/_generated/dataModel";
 import { useOrg } from "@/contexts/org-context";
+import {
+	SourceConfigFields,
+	type SourceConfigValues,
+	configToValues,
+	valuesToConfig,
+} from "@/components/source-config-fields";
+import {
+	type SourceFilterConfig,
+	SourceFilterFields,
+	SourceFilterPreview,
+	type SourceFilterValues,
+	filtersToValues,
+	valuesToFilters,
+} from "@/components/source-filter-fields";
 import { SourceHealthBadge } from "@/components/source-health-badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,6 +39,15 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { formatDuration, runDurationMs } from "@/lib/source-run";
 
 export const Route = createFileRoute("/_authed/org/$slug/sources/$sourceId")({
 	component: SourceDetailPage,
@@ -54,24 +77,40 @@ function SourceDetailPage() {
 		sourceId: sourceId as Id<"sources">,
 		limit: 20,
 	});
+	const sourceTypes = useQuery(api.sources.listTypes);
 	const update = useMutation(api.sources.update);
+	const setStatus = useMutation(api.sources.setStatus);
 
 	const [name, setName] = useState("");
 	const [schedule, setSchedule] = useState<Schedule>("1h");
-	const [url, setUrl] = useState("");
-	const [query, setQuery] = useState("");
+	const [values, setValues] = useState<SourceConfigValues>({});
+	const [filterValues, setFilterValues] = useState<SourceFilterValues>(
+		filtersToValues(undefined),
+	);
+	const [previewFilters, setPreviewFilters] =
+		useState<SourceFilterConfig | null>(null);
+	const [autoPauseAfter, setAutoPauseAfter] = useState("");
 	const [saveBusy, setSaveBusy] = useState(false);
 	const [saveError, setSaveError] = useState<string | null>(null);
 	const [savedAt, setSavedAt] = useState<number | null>(null);
+	const [resumeBusy, setResumeBusy] = useState(false);
+	const [resumeError, setResumeError] = useState<string | null>(null);
+
+	const form = source
+		? sourceTypes?.find((t) => t.type === source.type)
+		: undefined;
+	const schedulable = form?.schedulable ?? false;
 
 	useEffect(() => {
 		if (!source) return;
 		setName(source.name);
 		if (source.schedule) setSchedule(source.schedule as Schedule);
-		const cfg = source.config as { url?: string; query?: string } | undefined;
-		setUrl(cfg?.url ?? "");
-		setQuery(cfg?.query ?? "");
-	}, [source]);
+		if (form) setValues(configToValues(form, source.config));
+		setFilterValues(filtersToValues(source.config));
+		setAutoPauseAfter(
+			source.autoPauseAfter !== undefined ? String(source.autoPauseAfter) : "",
+		);
+	}, [source, form]);
 
 	if (source === undefined) {
 		return <p className="text-muted-foreground">Loading…</p>;
@@ -95,19 +134,21 @@ function SourceDetailPage() {
 		setSaveBusy(true);
 		setSaveError(null);
 		try {
-			const config: Record<string, unknown> | undefined =
-				source.type === "web_search"
-					? { query }
-					: source.type === "manual"
-						? undefined
-						: { url };
+			const config =
+				form && form.fields.length > 0
+					? {
+							...valuesToConfig(form, values),
+							filters: valuesToFilters(filterValues),
+						}
+					: undefined;
 			await update({
 				orgId: org.orgId,
 				sourceId: source._id,
 				name,
-				schedule:
-					source.type === "manual" ? undefined : (schedule as Schedule),
+				schedule: schedulable ? (schedule as Schedule) : undefined,
 				config,
+				autoPauseAfter:
+					autoPauseAfter.trim() === "" ? null : Number(autoPauseAfter),
 			});
 			setSavedAt(Date.now());
 		} catch (err) {
@@ -117,6 +158,22 @@ function SourceDetailPage() {
 		}
 	};
 
+	const onResume = async () => {
+		setResumeBusy(true);
+		setResumeError(null);
+		try {
+			await setStatus({
+				orgId: org.orgId,
+				sourceId: source._id,
+				status: "active",
+			});
+		} catch (err) {
+			setResumeError(errorMessage(err, "Failed to resume source"));
+		} finally {
+			setResumeBusy(false);
+		}
+	};
+
 	return (
 		<div className="space-y-6">
 			<div className="flex items-center justify-between">
@@ -137,6 +194,25 @@ function SourceDetailPage() {
 				<SourceHealthBadge health={source.health} />
 			</div>
 
+			{source.status === "paused" && source.pausedReason && (
+				<Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+					<CardHeader>
+						<CardTitle className="text-base">Source auto-paused</CardTitle>
+						<CardDescription>{source.pausedReason}</CardDescription>
+					</CardHeader>
+					{isAdmin && (
+						<CardContent className="space-y-2">
+							<Button onClick={onResume} disabled={resumeBusy}>
+								{resumeBusy ? "Resuming…" : "Resume source"}
+							</Button>
+							{resumeError && (
+								<p className="text-sm text-destructive">{resumeError}</p>
+							)}
+						</CardContent>
+					)}
+				</Card>
+			)}
+
 			{source.lastError && (
 				<Card className="border-destructive/40 bg-destructive/5">
 					<CardHeader>
@@ -170,29 +246,51 @@ function SourceDetailPage() {
 								disabled={!isAdmin}
 							/>
 						</div>
-						{source.type === "web_search" ? (
-							<div className="space-y-2">
-								<Label htmlFor="src-query">Search query</Label>
-								<Input
-									id="src-query"
-									value={query}
-									onChange={(e) => setQuery(e.target.value)}
-									disabled={!isAdmin}
-								/>
-							</div>
-						) : source.type !== "manual" ? (
-							<div className="space-y-2">
-								<Label htmlFor="src-url">URL</Label>
-								<Input
-									id="src-url"
-									type="url"
-									value={url}
-									onChange={(e) => setUrl(e.target.value)}
+						{form && (
+							<SourceConfigFields
+								form={form}
+								values={values}
+								onChange={setValues}
+								idPrefix="src"
+								disabled={!isAdmin}
+							/>
+						)}
+						{schedulable && (
+							<div className="space-y-3 border-t pt-4">
+								<div>
+									<h3 className="font-medium">Filters</h3>
+									<p className="text-xs text-muted-foreground">
+										Items that fail these rules are skipped at ingest and counted
+										as rejected. One keyword, pattern or domain per line.
+									</p>
+								</div>
+								<SourceFilterFields
+									values={filterValues}
+									onChange={(v) => {
+										setFilterValues(v);
+										if (previewFilters) setPreviewFilters(valuesToFilters(v));
+									}}
+									idPrefix="src"
 									disabled={!isAdmin}
 								/>
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => setPreviewFilters(valuesToFilters(filterValues))}
+								>
+									Preview filter against last run
+								</Button>
+								{previewFilters && (
+									<SourceFilterPreview
+										orgId={org.orgId}
+										sourceId={source._id}
+										filters={previewFilters}
+									/>
+								)}
 							</div>
-						) : null}
-						{source.type !== "manual" && (
+						)}
+						{schedulable && (
 							<div className="space-y-2">
 								<Label htmlFor="src-schedule">Schedule</Label>
 								<Select
@@ -213,6 +311,26 @@ function SourceDetailPage() {
 								</Select>
 							</div>
 						)}
+						{schedulable && (
+							<div className="space-y-2">
+								<Label htmlFor="src-auto-pause">
+									Auto-pause after consecutive failures
+								</Label>
+								<Input
+									id="src-auto-pause"
+									type="number"
+									min={0}
+									value={autoPauseAfter}
+									onChange={(e) => setAutoPauseAfter(e.target.value)}
+									placeholder="5"
+									disabled={!isAdmin}
+								/>
+								<p className="text-xs text-muted-foreground">
+									Failed runs retry with exponential backoff. Set to 0 to never
+									pause automatically.
+								</p>
+							</div>
+						)}
 						{saveError && <p className="text-sm text-destructive">{saveError}</p>}
 						{savedAt && (
 							<p className="text-sm text-muted-foreground">
@@ -238,38 +356,81 @@ function SourceDetailPage() {
 					) : runs.length === 0 ? (
 						<p className="text-sm text-muted-foreground">No runs yet.</p>
 					) : (
-						<ul className="divide-y">
-							{runs.map((r) => (
-								<li key={r._id} className="py-2 text-sm flex items-center gap-3">
-									<span
-										className={
-											r.status === "error"
-												? "text-destructive font-medium"
-												: r.status === "success"
-													? "text-green-700 dark:text-green-400 font-medium"
-													: "text-muted-foreground"
-										}
-									>
-										{r.status}
-									</span>
-									<span className="text-muted-foreground">
-										{formatDistanceToNow(new Date(r.startedAt), {
-											addSuffix: true,
-										})}
-									</span>
-									{r.itemsAdded !== undefined && r.status === "success" && (
-										<span className="text-muted-foreground">
-											+{r.itemsAdded} new
-										</span>
-									)}
-									{r.error && (
-										<span className="text-destructive truncate max-w-md">
-											{r.error}
-										</span>
-									)}
-								</li>
-							))}
-						</ul>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Status</TableHead>
+									<TableHead>Started</TableHead>
+									<TableHead>Duration</TableHead>
+									<TableHead>Fetch / parse / ingest</TableHead>
+									<TableHead className="text-right">Fetched</TableHead>
+									<TableHead className="text-right">New</TableHead>
+									<TableHead className="text-right">Duplicate</TableHead>
+									<TableHead className="text-right">Rejected</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{runs.map((r) => (
+									<TableRow key={r._id}>
+										<TableCell>
+											<span
+												className={
+													r.status === "error"
+														? "text-destructive font-medium"
+														: r.status === "success"
+															? "text-green-700 dark:text-green-400 font-medium"
+															: "text-muted-foreground"
+												}
+											>
+												{r.unchanged ? "unchanged" : r.status}
+											</span>
+											{r.error && (
+												<div
+													className="text-xs text-destructive truncate max-w-xs"
+													title={r.error}
+												>
+													{r.error}
+												</div>
+											)}
+										</TableCell>
+										<TableCell className="text-muted-foreground">
+											{formatDistanceToNow(new Date(r.startedAt), {
+												addSuffix: true,
+											})}
+										</TableCell>
+										<TableCell className="text-muted-foreground">
+											{formatDuration(runDurationMs(r))}
+										</TableCell>
+										<TableCell className="text-muted-foreground">
+											{r.fetchMs === undefined
+												? "—"
+												: [r.fetchMs, r.parseMs, r.ingestMs]
+														.map(formatDuration)
+														.join(" / ")}
+										</TableCell>
+										<TableCell className="text-right text-muted-foreground">
+											{r.itemsFetched ?? "—"}
+										</TableCell>
+										<TableCell className="text-right">
+											{r.itemsAdded ?? "—"}
+										</TableCell>
+										<TableCell className="text-right text-muted-foreground">
+											{r.itemsDuplicate ?? "—"}
+										</TableCell>
+										<TableCell
+											className="text-right text-muted-foreground"
+											title={
+												r.itemsFiltered
+													? `${r.itemsFiltered} skipped by filters`
+													: undefined
+											}
+										>
+											{r.itemsRejected ?? "—"}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
 					)}
 				</CardContent>
 			</Card>